@@ -0,0 +1,257 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, Loader2, ScanSearch } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CONFLICT_KIND_CLASSES, CONFLICT_KIND_LABELS, CONFLICT_STATUS_LABELS } from "@/lib/conflicts";
+import { ConflictAnalysis, ConflictStatus, Rule, RuleConflict } from "@/types/rule";
+
+interface ConflictsPanelProps {
+  documentId: string;
+  rules: Rule[];
+  onRuleClick: (rule: Rule) => void;
+}
+
+// Rule of another document involved in a conflict
+interface ExternalRule {
+  id: string;
+  document_id: string;
+  document_name: string;
+  text: string;
+  source_page: number | null;
+}
+
+const POLL_INTERVAL_MS = 3000;
+// Same delay as detect-conflicts: an older running analysis was lost
+const STALE_ANALYSIS_MS = 10 * 60 * 1000;
+
+const isRunning = (analysis: ConflictAnalysis | null) =>
+  analysis?.status === "running" && Date.now() - new Date(analysis.created_at).getTime() < STALE_ANALYSIS_MS;
+
+export const ConflictsPanel = ({ documentId, rules, onRuleClick }: ConflictsPanelProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [conflicts, setConflicts] = useState<RuleConflict[]>([]);
+  const [externalRules, setExternalRules] = useState<Record<string, ExternalRule>>({});
+  const [analysis, setAnalysis] = useState<ConflictAnalysis | null>(null);
+  const [showHandled, setShowHandled] = useState(false);
+
+  const fetchConflicts = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("rule_conflicts")
+      .select("*")
+      .or(`document_a_id.eq.${documentId},document_b_id.eq.${documentId}`)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching conflicts:", error);
+      return;
+    }
+    const items = (data || []) as RuleConflict[];
+    setConflicts(items);
+
+    const externalIds = items.flatMap((c) => [
+      ...(c.document_a_id !== documentId ? [c.rule_a_id] : []),
+      ...(c.document_b_id !== documentId ? [c.rule_b_id] : []),
+    ]);
+    if (externalIds.length === 0) {
+      setExternalRules({});
+      return;
+    }
+    const { data: external } = await supabase
+      .from("rules")
+      .select("id, document_id, document_name, text, source_page")
+      .in("id", Array.from(new Set(externalIds)));
+    setExternalRules(Object.fromEntries(((external || []) as ExternalRule[]).map((r) => [r.id, r])));
+  }, [documentId]);
+
+  useEffect(() => {
+    fetchConflicts();
+    supabase
+      .from("conflict_analyses")
+      .select("id, status, pairs_checked, conflicts_found, error, created_at, completed_at")
+      .eq("document_id", documentId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+      .then(({ data }) => setAnalysis((data as ConflictAnalysis | null) ?? null));
+  }, [documentId, fetchConflicts]);
+
+  // Follow the running analysis until it completes
+  useEffect(() => {
+    if (!analysis || !isRunning(analysis)) return;
+
+    const interval = setInterval(async () => {
+      const { data } = await supabase
+        .from("conflict_analyses")
+        .select("id, status, pairs_checked, conflicts_found, error, created_at, completed_at")
+        .eq("id", analysis.id)
+        .maybeSingle();
+      if (!data || data.status === "running") return;
+
+      setAnalysis(data as ConflictAnalysis);
+      if (data.status === "done") {
+        fetchConflicts();
+        toast({
+          title: "Analyse terminée",
+          description: `${data.conflicts_found ?? 0} nouveau(x) conflit(s) sur ${data.pairs_checked ?? 0} paire(s) vérifiée(s)`,
+        });
+      } else {
+        toast({
+          title: "Erreur d'analyse",
+          description: data.error || "L'analyse des conflits a échoué",
+          variant: "destructive",
+        });
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [analysis, fetchConflicts, toast]);
+
+  const handleAnalyze = async () => {
+    const { data, error } = await supabase.functions.invoke("detect-conflicts", {
+      body: { documentId },
+    });
+
+    if (error || !data?.analysisId) {
+      toast({
+        title: "Erreur",
+        description: error?.message || "Impossible de lancer l'analyse",
+        variant: "destructive",
+      });
+      return;
+    }
+    setAnalysis({
+      id: data.analysisId,
+      status: "running",
+      pairs_checked: null,
+      conflicts_found: null,
+      error: null,
+      created_at: new Date().toISOString(),
+      completed_at: null,
+    });
+  };
+
+  const handleStatus = async (conflict: RuleConflict, status: ConflictStatus) => {
+    const { error } = await supabase.rpc("set_rule_conflict_status", {
+      p_conflict_id: conflict.id,
+      p_status: status,
+    });
+
+    if (error) {
+      toast({
+        title: "Erreur",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setConflicts((current) => current.map((c) => (c.id === conflict.id ? { ...c, status } : c)));
+  };
+
+  const renderRule = (ruleId: string, ruleDocumentId: string) => {
+    if (ruleDocumentId === documentId) {
+      const rule = rules.find((r) => r.id === ruleId);
+      if (!rule) return <p className="text-sm text-muted-foreground">Règle introuvable</p>;
+      return (
+        <button type="button" onClick={() => onRuleClick(rule)} className="w-full text-left text-sm hover:underline">
+          {rule.text}
+          {rule.source.page > 0 && <span className="ml-2 text-xs text-muted-foreground">p. {rule.source.page}</span>}
+        </button>
+      );
+    }
+
+    const external = externalRules[ruleId];
+    if (!external) return <p className="text-sm text-muted-foreground">Règle introuvable</p>;
+    return (
+      <button
+        type="button"
+        onClick={() => navigate(`/documents/${external.document_id}?rule=${external.id}`)}
+        className="w-full text-left text-sm hover:underline"
+      >
+        {external.text}
+        <span className="ml-2 text-xs text-muted-foreground">
+          {external.document_name}
+          {external.source_page ? ` · p. ${external.source_page}` : ""}
+        </span>
+      </button>
+    );
+  };
+
+  const visible = showHandled ? conflicts : conflicts.filter((c) => c.status === "open");
+  const analyzing = isRunning(analysis);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Switch id="show-handled-conflicts" checked={showHandled} onCheckedChange={setShowHandled} />
+          <Label htmlFor="show-handled-conflicts" className="text-sm text-muted-foreground">
+            Afficher les conflits traités
+          </Label>
+        </div>
+        <div className="flex items-center gap-3">
+          {analysis?.status === "done" && analysis.completed_at && (
+            <span className="text-xs text-muted-foreground">
+              Dernière analyse le {new Date(analysis.completed_at).toLocaleString("fr-FR")}
+            </span>
+          )}
+          <Button onClick={handleAnalyze} disabled={analyzing} variant="outline">
+            {analyzing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanSearch className="mr-2 h-4 w-4" />}
+            {analyzing ? "Analyse en cours..." : "Analyser les conflits"}
+          </Button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+          {conflicts.length === 0
+            ? "Aucun conflit détecté. Lancez une analyse pour comparer les règles de ce document entre elles et avec vos autres documents."
+            : "Aucun conflit à traiter."}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visible.map((conflict) => (
+            <div key={conflict.id} className="space-y-3 rounded-lg border bg-card p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  <Badge variant="outline" className={CONFLICT_KIND_CLASSES[conflict.kind]}>
+                    {CONFLICT_KIND_LABELS[conflict.kind]}
+                  </Badge>
+                  {conflict.status !== "open" && (
+                    <Badge variant="secondary">{CONFLICT_STATUS_LABELS[conflict.status]}</Badge>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {conflict.status === "open" ? (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => handleStatus(conflict, "resolved")}>
+                        Résolu
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleStatus(conflict, "dismissed")}>
+                        Ignorer
+                      </Button>
+                    </>
+                  ) : (
+                    <Button size="sm" variant="ghost" onClick={() => handleStatus(conflict, "open")}>
+                      Rouvrir
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <p className="text-sm">{conflict.explanation}</p>
+              <div className="grid gap-2 md:grid-cols-2">
+                <div className="rounded-md bg-muted/50 p-3">{renderRule(conflict.rule_a_id, conflict.document_a_id)}</div>
+                <div className="rounded-md bg-muted/50 p-3">{renderRule(conflict.rule_b_id, conflict.document_b_id)}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
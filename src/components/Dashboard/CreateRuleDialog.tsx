@@ -0,0 +1,79 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { emptyDraftForm, toRuleDraft } from "@/lib/ruleDraft";
+import { RuleDraftFields } from "./RuleDraftFields";
+
+interface CreateRuleDialogProps {
+  documentId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: () => void;
+}
+
+export const CreateRuleDialog = ({ documentId, open, onOpenChange, onCreated }: CreateRuleDialogProps) => {
+  const [form, setForm] = useState(emptyDraftForm);
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc("create_rule", {
+      p_document_id: documentId,
+      p_rule: toRuleDraft(form),
+      p_reason: reason.trim() || undefined,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Règle ajoutée" });
+    setForm(emptyDraftForm());
+    setReason("");
+    onCreated?.();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Nouvelle règle</DialogTitle>
+          <DialogDescription>
+            Ajoute une règle que l'extraction n'a pas trouvée, avec sa source dans le document.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RuleDraftFields value={form} onChange={setForm} showSource />
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Motif (conservé dans l'historique)"
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Annuler</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !form.text.trim()}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Ajouter
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
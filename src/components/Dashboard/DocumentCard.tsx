@@ -1,17 +1,20 @@
 import { useNavigate } from "react-router-dom";
-import { CheckCircle2, Loader2, AlertCircle, FileText, FileSpreadsheet } from "lucide-react";
+import { CheckCircle2, Loader2, AlertCircle, FileText, FileSpreadsheet, Ban, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 
 interface DocumentCardProps {
   id: string;
   name: string;
-  status: 'queued' | 'processing' | 'done' | 'error';
+  status: 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
   created_at: string;
   rulesCount?: number;
   avgConfidence?: number;
   progress?: number;
+  onCancel?: () => void;
+  cancelling?: boolean;
 }
 
 export const DocumentCard = ({
@@ -21,7 +24,9 @@ export const DocumentCard = ({
   created_at,
   rulesCount,
   avgConfidence,
-  progress
+  progress,
+  onCancel,
+  cancelling
 }: DocumentCardProps) => {
   const navigate = useNavigate();
 
@@ -49,6 +54,13 @@ export const DocumentCard = ({
             Échec extraction
           </Badge>
         );
+      case 'cancelled':
+        return (
+          <Badge variant="outline" className="bg-muted text-muted-foreground border-border">
+            <Ban className="h-3 w-3 mr-1" />
+            Annulé
+          </Badge>
+        );
     }
   };
 
@@ -105,10 +117,29 @@ export const DocumentCard = ({
             )}
           </div>
 
-          {/* Progress bar for processing documents */}
-          {(status === 'processing' || status === 'queued') && progress !== undefined && (
-            <div className="mt-3">
-              <Progress value={progress} className="h-2" />
+          {/* Progress bar and cancel control for processing documents */}
+          {(status === 'processing' || status === 'queued') && (progress !== undefined || onCancel) && (
+            <div className="mt-3 flex items-center gap-3">
+              {progress !== undefined && <Progress value={progress} className="h-2 flex-1" />}
+              {onCancel && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto h-7 text-muted-foreground hover:text-destructive"
+                  disabled={cancelling}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCancel();
+                  }}
+                >
+                  {cancelling ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <X className="h-3 w-3 mr-1" />
+                  )}
+                  Annuler
+                </Button>
+              )}
             </div>
           )}
         </div>
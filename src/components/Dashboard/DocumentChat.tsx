@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, MessageSquare, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AnswerCitation, AnswerStatement } from "@/types/rule";
+
+interface DocumentChatProps {
+  documentId: string;
+  onCitationClick: (citation: AnswerCitation) => void;
+}
+
+type ChatEntry =
+  | { role: "user"; content: string }
+  | { role: "assistant"; statements: AnswerStatement[] };
+
+const citationLabel = (citation: AnswerCitation) =>
+  [citation.page ? `p. ${citation.page}` : null, citation.section ? `§ ${citation.section}` : null]
+    .filter(Boolean)
+    .join(" · ") || citation.ref;
+
+// Plain text of the conversation, sent back for follow-up questions
+const toHistory = (entries: ChatEntry[]) =>
+  entries.map((entry) =>
+    entry.role === "user"
+      ? { role: "user", content: entry.content }
+      : { role: "assistant", content: entry.statements.map((s) => s.text).join(" ") }
+  );
+
+export const DocumentChat = ({ documentId, onCitationClick }: DocumentChatProps) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<ChatEntry[]>([]);
+  const [question, setQuestion] = useState("");
+  const [asking, setAsking] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setEntries([]);
+  }, [documentId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [entries, asking]);
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!text) return;
+
+    const history = toHistory(entries);
+    setEntries((current) => [...current, { role: "user", content: text }]);
+    setQuestion("");
+    setAsking(true);
+
+    const { data, error } = await supabase.functions.invoke("ask-document", {
+      body: { documentId, question: text, history },
+    });
+    setAsking(false);
+
+    if (error) {
+      toast({
+        title: "Erreur",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setEntries((current) => [...current, { role: "assistant", statements: data?.statements || [] }]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Questions sur le document
+        </CardTitle>
+        <CardDescription>
+          Interrogez les règles extraites ; chaque réponse cite la page et la section d'origine.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.length > 0 && (
+          <div className="max-h-96 space-y-3 overflow-y-auto pr-1">
+            {entries.map((entry, i) =>
+              entry.role === "user" ? (
+                <div key={i} className="ml-auto w-fit max-w-[80%] rounded-lg bg-primary px-3 py-2 text-sm text-primary-foreground">
+                  {entry.content}
+                </div>
+              ) : (
+                <div key={i} className="max-w-[90%] space-y-2 rounded-lg bg-muted px-3 py-2 text-sm">
+                  {entry.statements.length === 0 ? (
+                    <p className="text-muted-foreground">
+                      Les règles et le texte du document ne permettent pas de répondre à cette question.
+                    </p>
+                  ) : (
+                    entry.statements.map((statement, j) => (
+                      <p key={j}>
+                        {statement.text}{" "}
+                        {statement.citations.map((citation) => (
+                          <Badge
+                            key={citation.ref}
+                            variant={citation.kind === "rule" ? "secondary" : "outline"}
+                            className="mr-1 cursor-pointer font-normal"
+                            title={citation.kind === "rule" ? "Voir la règle" : "Voir dans la visionneuse"}
+                            onClick={() => onCitationClick(citation)}
+                          >
+                            {citationLabel(citation)}
+                          </Badge>
+                        ))}
+                      </p>
+                    ))
+                  )}
+                </div>
+              )
+            )}
+            {asking && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Recherche dans le document...
+              </div>
+            )}
+            <div ref={bottomRef} />
+          </div>
+        )}
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAsk();
+          }}
+        >
+          <Input
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Ex. : quel est le seuil d'approbation des remboursements ?"
+            disabled={asking}
+          />
+          <Button type="submit" disabled={asking || !question.trim()}>
+            {asking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
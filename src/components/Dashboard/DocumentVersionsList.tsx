@@ -0,0 +1,76 @@
+import { useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DocumentVersion } from "@/types/rule";
+
+interface DocumentVersionsListProps {
+  versions: DocumentVersion[];
+  currentId: string;
+  onCompare: (documentId: string) => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  queued: "En attente",
+  processing: "Extraction en cours",
+  done: "Terminé",
+  error: "Échec",
+  cancelled: "Annulé",
+};
+
+export const DocumentVersionsList = ({ versions, currentId, onCompare }: DocumentVersionsListProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="rounded-lg border border-border bg-card">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Version</TableHead>
+            <TableHead>Fichier</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead>Statut</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {versions.map((version) => (
+            <TableRow key={version.id} className={version.id === currentId ? "bg-muted/50" : undefined}>
+              <TableCell className="font-medium">
+                v{version.version}
+                {version.id === currentId && <Badge variant="outline" className="ml-2">Affichée</Badge>}
+              </TableCell>
+              <TableCell>
+                {version.id === currentId ? (
+                  version.name
+                ) : (
+                  <Button variant="link" className="h-auto p-0" onClick={() => navigate(`/documents/${version.id}`)}>
+                    {version.name}
+                  </Button>
+                )}
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {new Date(version.created_at).toLocaleDateString("fr-FR")}
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">
+                {STATUS_LABELS[version.status] ?? version.status}
+              </TableCell>
+              <TableCell className="text-right">
+                {version.parent_document_id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={version.status !== "done"}
+                    onClick={() => onCompare(version.id)}
+                  >
+                    Comparer avec v{version.version - 1}
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -7,7 +7,7 @@ interface Document {
   name: string;
   pages: number;
   created_at: string;
-  status: 'queued' | 'processing' | 'done' | 'error';
+  status: 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
 }
 
 interface DocumentsListProps {
@@ -70,6 +70,11 @@ export const DocumentsList = ({ documents, onDelete }: DocumentsListProps) => {
                       Échec
                     </span>
                   )}
+                  {doc.status === "cancelled" && (
+                    <span className="px-2 py-1 rounded-full bg-muted text-muted-foreground text-xs font-medium">
+                      Annulé
+                    </span>
+                  )}
                 </div>
                 <p className="text-sm text-muted-foreground">
                   {doc.pages || 0} pages · Analysé le {new Date(doc.created_at).toLocaleDateString('fr-FR')}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ExtractionRun } from "@/types/extraction";
+
+interface ExtractionRunsListProps {
+  runs: ExtractionRun[];
+  onCancel?: (runId: string) => void;
+  onCompare?: (runA: string, runB: string) => void;
+}
+
+const isActive = (run: ExtractionRun) => run.status === "running" || run.status === "finalizing";
+
+const formatDuration = (run: ExtractionRun) => {
+  if (!run.completedAt) return "—";
+  const seconds = Math.round((new Date(run.completedAt).getTime() - new Date(run.createdAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds} s` : `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+};
+
+const formatSettings = (run: ExtractionRun) => {
+  if (!run.settings) return "Paramètres par défaut";
+  const { model, chunkSize, chunkOverlap, promptTemplate, confidenceThreshold } = run.settings;
+  return [
+    model || "modèle par défaut",
+    `chunks ${chunkSize}/${chunkOverlap}`,
+    `prompt ${promptTemplate}`,
+    `seuil ${Math.round(confidenceThreshold * 100)}%`,
+  ].join(" · ");
+};
+
+const StatusBadge = ({ run }: { run: ExtractionRun }) => {
+  if (isActive(run)) {
+    return (
+      <div className="flex items-center gap-2 min-w-[120px]">
+        <Progress value={run.progress} className="h-2" />
+        <span className="text-xs text-muted-foreground">{run.progress}%</span>
+      </div>
+    );
+  }
+  switch (run.status) {
+    case "done":
+      return <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Terminé</Badge>;
+    case "cancelled":
+      return <Badge variant="outline" className="bg-muted text-muted-foreground">Annulé</Badge>;
+    case "error":
+      return (
+        <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200" title={run.error || undefined}>
+          Échec
+        </Badge>
+      );
+    default:
+      return <Badge variant="outline">{run.status}</Badge>;
+  }
+};
+
+export const ExtractionRunsList = ({ runs, onCancel, onCompare }: ExtractionRunsListProps) => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  if (runs.length === 0) return null;
+
+  // Keep at most two completed runs selected, dropping the oldest selection
+  const toggleSelected = (runId: string) => {
+    setSelected((current) =>
+      current.includes(runId)
+        ? current.filter((id) => id !== runId)
+        : [...current, runId].slice(-2)
+    );
+  };
+
+  const handleCompare = () => {
+    if (!onCompare || selected.length !== 2) return;
+    // The older run is the reference (A)
+    const [runA, runB] = runs
+      .filter((run) => selected.includes(run.id))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map((run) => run.id);
+    onCompare(runA, runB);
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card">
+      {onCompare && (
+        <div className="flex items-center justify-between border-b border-border px-4 py-2">
+          <span className="text-sm text-muted-foreground">
+            Sélectionnez deux runs terminés pour les comparer
+          </span>
+          <Button size="sm" variant="outline" disabled={selected.length !== 2} onClick={handleCompare}>
+            Comparer
+          </Button>
+        </div>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {onCompare && <TableHead className="w-10" />}
+            <TableHead>Date</TableHead>
+            <TableHead>Run</TableHead>
+            <TableHead>Paramètres</TableHead>
+            <TableHead>Statut</TableHead>
+            <TableHead className="text-right">Règles</TableHead>
+            <TableHead className="text-right">Coût</TableHead>
+            <TableHead className="text-right">Durée</TableHead>
+            {onCancel && <TableHead />}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {runs.map((run) => (
+            <TableRow key={run.id}>
+              {onCompare && (
+                <TableCell>
+                  <Checkbox
+                    checked={selected.includes(run.id)}
+                    disabled={run.status !== "done"}
+                    onCheckedChange={() => toggleSelected(run.id)}
+                    aria-label="Sélectionner pour comparaison"
+                  />
+                </TableCell>
+              )}
+              <TableCell className="whitespace-nowrap">
+                {new Date(run.createdAt).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" })}
+              </TableCell>
+              <TableCell>
+                {run.type === "re-extract" ? "Ré-extraction" : "Extraction initiale"}
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">{formatSettings(run)}</TableCell>
+              <TableCell><StatusBadge run={run} /></TableCell>
+              <TableCell className="text-right">{run.rulesCount ?? "—"}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                {run.costUsd !== null ? `${run.costUsd.toFixed(4)} $` : "—"}
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">{formatDuration(run)}</TableCell>
+              {onCancel && (
+                <TableCell className="text-right">
+                  {run.status === "running" && (
+                    <Button variant="ghost" size="sm" onClick={() => onCancel(run.id)}>
+                      Annuler
+                    </Button>
+                  )}
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
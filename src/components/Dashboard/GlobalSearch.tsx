@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Loader2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ReviewStatusBadge } from "@/components/Dashboard/ReviewStatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { RuleSearchResult } from "@/types/rule";
+
+export const GlobalSearch = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<RuleSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    setSearching(true);
+    const { data, error } = await supabase.functions.invoke("search-rules", {
+      body: { query: query.trim() },
+    });
+    setSearching(false);
+
+    if (error) {
+      toast({
+        title: "Erreur de recherche",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setResults(data?.results || []);
+  };
+
+  const handleOpenResult = (result: RuleSearchResult) => {
+    setOpen(false);
+    navigate(`/documents/${result.documentId}?rule=${result.id}`);
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="gap-2" onClick={() => setOpen(true)}>
+        <Search className="h-4 w-4" />
+        <span className="hidden md:inline">Rechercher une règle</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Recherche sémantique</DialogTitle>
+            <DialogDescription>
+              Retrouvez les règles proches d'une question ou d'une idée dans tous vos documents.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSearch();
+            }}
+          >
+            <Input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Ex. : délai de paiement des fournisseurs"
+            />
+            <Button type="submit" disabled={searching || !query.trim()}>
+              {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            </Button>
+          </form>
+
+          {results && (
+            results.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">Aucune règle similaire trouvée</p>
+            ) : (
+              <ScrollArea className="max-h-[60vh]">
+                <div className="space-y-2 pr-3">
+                  {results.map((result) => (
+                    <button
+                      key={result.id}
+                      type="button"
+                      onClick={() => handleOpenResult(result)}
+                      className="w-full rounded-md border p-3 text-left transition-colors hover:bg-muted/50"
+                    >
+                      <div className="mb-1 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        <span className="truncate">
+                          {result.documentName}
+                          {result.page ? ` · p. ${result.page}` : ""}
+                          {result.section ? ` · ${result.section}` : ""}
+                        </span>
+                        <Badge variant="secondary">{Math.round(result.similarity * 100)} %</Badge>
+                      </div>
+                      <p className="text-sm text-foreground">{result.text}</p>
+                      <div className="mt-2 flex items-center gap-2">
+                        {result.domain && <Badge variant="outline">{result.domain}</Badge>}
+                        <ReviewStatusBadge status={result.reviewStatus} />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+            )
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Rule } from "@/types/rule";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { RuleDraftForm, draftFormFromRule, toRuleDraft } from "@/lib/ruleDraft";
+import { RuleDraftFields } from "./RuleDraftFields";
+
+interface MergeRulesDialogProps {
+  rules: Rule[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMerged?: () => void;
+}
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+// Start from the most confident rule, with the conditions and tags of all of them
+const initialForm = (rules: Rule[]): RuleDraftForm => {
+  const [best] = [...rules].sort((a, b) => b.confidence - a.confidence);
+  return {
+    ...draftFormFromRule(best),
+    conditions: unique(rules.flatMap((r) => r.conditions)).join("\n"),
+    tags: unique(rules.flatMap((r) => r.tags)).join(", "),
+  };
+};
+
+export const MergeRulesDialog = ({ rules, ...props }: MergeRulesDialogProps) => {
+  if (rules.length < 2) return null;
+
+  // Keyed on the selection so the draft is rebuilt for other rules
+  return <MergeRules key={rules.map((r) => r.id).join()} rules={rules} {...props} />;
+};
+
+const MergeRules = ({ rules, open, onOpenChange, onMerged }: MergeRulesDialogProps) => {
+  const [form, setForm] = useState(() => initialForm(rules));
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc("merge_rules", {
+      p_rule_ids: rules.map((r) => r.id),
+      p_rule: toRuleDraft(form),
+      p_reason: reason.trim() || undefined,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Règles fusionnées",
+      description: "Les cas de test ont été rattachés à la nouvelle règle et marqués obsolètes.",
+    });
+    onMerged?.();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Fusionner {rules.length} règles</DialogTitle>
+          <DialogDescription>
+            Les règles d'origine sont remplacées par la règle fusionnée, qui garde un lien vers elles.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-40 rounded-lg border p-3">
+          <ul className="space-y-2">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex items-start gap-2 text-sm">
+                <Badge variant="outline">{Math.round(rule.confidence * 100)}%</Badge>
+                <span className="text-muted-foreground">{rule.text}</span>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+
+        <RuleDraftFields value={form} onChange={setForm} />
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Motif de la fusion (conservé dans l'historique)"
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Annuler</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !form.text.trim()}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Fusionner
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
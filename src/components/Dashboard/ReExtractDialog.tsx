@@ -0,0 +1,175 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { ExtractionSettings, PromptTemplate } from "@/types/extraction";
+
+interface ReExtractDialogProps {
+  documentId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onStarted?: () => void;
+}
+
+// Same defaults as the upload (supabase/functions/upload-documents/extraction/settings.ts)
+const DEFAULT_SETTINGS: ExtractionSettings = {
+  chunkSize: 1500,
+  chunkOverlap: 200,
+  promptTemplate: "default",
+  confidenceThreshold: 0.3,
+};
+
+const PROMPT_TEMPLATE_LABELS: Record<PromptTemplate, string> = {
+  default: "Standard",
+  strict: "Strict (obligations explicites uniquement)",
+  exhaustive: "Exhaustif (inclut les règles implicites)",
+};
+
+export const ReExtractDialog = ({ documentId, open, onOpenChange, onStarted }: ReExtractDialogProps) => {
+  const [model, setModel] = useState("");
+  const [chunkSize, setChunkSize] = useState(String(DEFAULT_SETTINGS.chunkSize));
+  const [chunkOverlap, setChunkOverlap] = useState(String(DEFAULT_SETTINGS.chunkOverlap));
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate>(DEFAULT_SETTINGS.promptTemplate);
+  const [confidenceThreshold, setConfidenceThreshold] = useState(DEFAULT_SETTINGS.confidenceThreshold);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.functions.invoke("re-extract", {
+        body: {
+          documentId,
+          settings: {
+            model: model.trim() || undefined,
+            chunkSize: Number(chunkSize),
+            chunkOverlap: Number(chunkOverlap),
+            promptTemplate,
+            confidenceThreshold,
+          },
+        },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Ré-extraction lancée",
+        description: "Le résultat sera enregistré comme un nouveau run, les règles actuelles sont conservées.",
+      });
+      onStarted?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Erreur de ré-extraction",
+        description: error instanceof Error ? error.message : "Impossible de lancer la ré-extraction",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Ré-extraire le document</DialogTitle>
+          <DialogDescription>
+            Relance l'extraction avec d'autres paramètres. Les règles actuelles ne sont pas modifiées.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="reextract-model">Modèle</Label>
+            <Input
+              id="reextract-model"
+              placeholder="Par défaut (configuration du serveur)"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reextract-chunk-size">Taille des chunks</Label>
+              <Input
+                id="reextract-chunk-size"
+                type="number"
+                min={200}
+                max={8000}
+                step={100}
+                value={chunkSize}
+                onChange={(e) => setChunkSize(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reextract-chunk-overlap">Chevauchement</Label>
+              <Input
+                id="reextract-chunk-overlap"
+                type="number"
+                min={0}
+                step={50}
+                value={chunkOverlap}
+                onChange={(e) => setChunkOverlap(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Modèle de prompt</Label>
+            <Select value={promptTemplate} onValueChange={(value) => setPromptTemplate(value as PromptTemplate)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROMPT_TEMPLATE_LABELS) as PromptTemplate[]).map((template) => (
+                  <SelectItem key={template} value={template}>
+                    {PROMPT_TEMPLATE_LABELS[template]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Seuil de confiance</Label>
+              <span className="text-sm font-medium text-foreground">{Math.round(confidenceThreshold * 100)}%</span>
+            </div>
+            <Slider
+              min={0}
+              max={1}
+              step={0.05}
+              value={[confidenceThreshold]}
+              onValueChange={([value]) => setConfidenceThreshold(value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Annuler
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Lancer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,12 +1,13 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { DocumentCard } from "./DocumentCard";
+import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
 
 interface Document {
   id: string;
   name: string;
-  status: 'queued' | 'processing' | 'done' | 'error';
+  status: 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
   created_at: string;
 }
 
@@ -16,6 +17,7 @@ interface Rule {
 }
 
 interface Job {
+  id: string;
   document_id: string;
   progress: number;
   status: string;
@@ -25,7 +27,10 @@ export const RecentDocumentsList = () => {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [rulesStats, setRulesStats] = useState<Record<string, { count: number; avgConfidence: number }>>({});
   const [jobProgress, setJobProgress] = useState<Record<string, number>>({});
+  const [jobIds, setJobIds] = useState<Record<string, string>>({});
+  const [cancelling, setCancelling] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
 
   const fetchDocuments = async () => {
     const { data, error } = await supabase
@@ -76,18 +81,21 @@ export const RecentDocumentsList = () => {
       if (processingDocIds.length > 0) {
         const { data: jobsData } = await supabase
           .from('jobs')
-          .select('document_id, progress, status')
+          .select('id, document_id, progress, status')
           .in('document_id', processingDocIds)
           .order('created_at', { ascending: false });
 
         if (jobsData) {
           const progress: Record<string, number> = {};
+          const ids: Record<string, string> = {};
           (jobsData as Job[]).forEach(job => {
-            if (!progress[job.document_id]) {
+            if (!ids[job.document_id]) {
               progress[job.document_id] = job.progress || 0;
+              ids[job.document_id] = job.id;
             }
           });
           setJobProgress(progress);
+          setJobIds(ids);
         }
       }
     }
@@ -95,6 +103,35 @@ export const RecentDocumentsList = () => {
     setLoading(false);
   };
 
+  const handleCancel = async (documentId: string) => {
+    const jobId = jobIds[documentId];
+    if (!jobId) return;
+
+    setCancelling(documentId);
+    try {
+      const { data, error } = await supabase.functions.invoke("cancel-job", {
+        body: { jobId },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Extraction annulée",
+        description: `Coût consommé : ${(data?.costUsd ?? 0).toFixed(4)} $. Vous pouvez supprimer le document.`,
+      });
+
+      fetchDocuments();
+    } catch (error) {
+      toast({
+        title: "Erreur d'annulation",
+        description: error instanceof Error ? error.message : "Impossible d'annuler l'extraction",
+        variant: "destructive",
+      });
+    } finally {
+      setCancelling(null);
+    }
+  };
+
   useEffect(() => {
     fetchDocuments();
 
@@ -165,6 +202,8 @@ export const RecentDocumentsList = () => {
           rulesCount={rulesStats[doc.id]?.count}
           avgConfidence={rulesStats[doc.id]?.avgConfidence}
           progress={jobProgress[doc.id]}
+          onCancel={jobIds[doc.id] ? () => handleCancel(doc.id) : undefined}
+          cancelling={cancelling === doc.id}
         />
       ))}
     </div>
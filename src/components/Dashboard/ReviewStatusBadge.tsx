@@ -0,0 +1,14 @@
+import { Badge } from "@/components/ui/badge";
+import { ReviewStatus } from "@/types/rule";
+import { REVIEW_STATUS_CLASSES, REVIEW_STATUS_LABELS } from "@/lib/review";
+
+interface ReviewStatusBadgeProps {
+  status: ReviewStatus;
+  title?: string;
+}
+
+export const ReviewStatusBadge = ({ status, title }: ReviewStatusBadgeProps) => (
+  <Badge variant="outline" className={REVIEW_STATUS_CLASSES[status]} title={title}>
+    {REVIEW_STATUS_LABELS[status]}
+  </Badge>
+);
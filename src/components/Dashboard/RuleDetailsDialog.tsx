@@ -1,25 +1,57 @@
-import { Rule } from "@/types/rule";
+import { Quantity, Rule } from "@/types/rule";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { FileText, MapPin, Tag, CheckCircle2 } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileText, MapPin, Tag, CheckCircle2, Quote, ShieldCheck, GitFork, Copy, Braces, Ruler } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { useState } from "react";
+import { QUANTITY_KIND_LABELS, formatQuantity } from "@/lib/quantities";
+import { useEffect, useState } from "react";
+import { RuleHistory } from "./RuleHistory";
+import { RuleReview } from "./RuleReview";
+import { RuleLineage } from "./RuleLineage";
+import { RuleStructureView } from "./RuleStructureView";
 
 interface RuleDetailsDialogProps {
   rule: Rule | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onRuleUpdated?: () => void; // callback to refresh parent list
+  onViewSource?: (rule: Rule) => void; // open the rule in the document viewer
+  onSplit?: (rule: Rule) => void; // open the split dialog on the rule
 }
 
-export const RuleDetailsDialog = ({ rule, open, onOpenChange, onRuleUpdated }: RuleDetailsDialogProps) => {
+interface SourceContext {
+  before: string;
+  quote: string;
+  after: string;
+}
+
+const CONTEXT_CHARS = 300;
+const PAGE_SEPARATOR = /\s*===PAGE_SEPARATOR===\s*/g;
+
+// Page breaks of the parsed text are shown as blank lines
+const cleanContext = (text: string) => text.replace(PAGE_SEPARATOR, "\n\n");
+
+export const RuleDetailsDialog = ({ rule, ...props }: RuleDetailsDialogProps) => {
   if (!rule) return null;
 
+  // Keyed on the rule so the edit draft is reset when another rule is opened
+  return <RuleDetails key={rule.id} rule={rule} {...props} />;
+};
+
+const RuleDetails = ({
+  rule,
+  open,
+  onOpenChange,
+  onRuleUpdated,
+  onViewSource,
+  onSplit,
+}: RuleDetailsDialogProps & { rule: Rule }) => {
   const { toast } = useToast();
   const confidencePercentage = Math.round(rule.confidence * 100);
 
@@ -29,21 +61,65 @@ export const RuleDetailsDialog = ({ rule, open, onOpenChange, onRuleUpdated }: R
     domain: rule.domain,
     tags: rule.tags.join(", "),
   });
+  const [reason, setReason] = useState("");
+  const [context, setContext] = useState<SourceContext | null>(null);
+  const [quantities, setQuantities] = useState<Quantity[]>([]);
+  // Normalized again when the text or the conditions change
+  const conditionsKey = rule.conditions.join("\n");
+
+  useEffect(() => {
+    setContext(null);
+    if (!open || rule.source.start === undefined) return;
+
+    supabase
+      .rpc("get_rule_context", { p_rule_id: rule.id, p_context_chars: CONTEXT_CHARS })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching rule context:", error);
+          return;
+        }
+        if (data && data.length > 0) {
+          setContext(data[0]);
+        }
+      });
+  }, [open, rule.id, rule.source.start]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    supabase.functions
+      .invoke(`get-rules?${new URLSearchParams({ ruleId: rule.id })}`, { method: "GET" })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error fetching rule quantities:", error);
+          return;
+        }
+        setQuantities(data?.items?.[0]?.quantities || []);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, rule.id, rule.text, conditionsKey]);
 
   const handleCancel = () => {
     setIsEditing(false);
     setDraft({ text: rule.text, domain: rule.domain, tags: rule.tags.join(", ") });
+    setReason("");
   };
 
   const handleSave = async () => {
-    const { error } = await supabase
-      .from("rules")
-      .update({
+    // Goes through update_rule so the change is recorded with its reason in rule_revisions
+    const { error } = await supabase.rpc("update_rule", {
+      p_rule_id: rule.id,
+      p_changes: {
         text: draft.text,
         domain: draft.domain,
-        tags: draft.tags.split(",").map((t) => t.trim()),
-      })
-      .eq("id", rule.id);
+        tags: draft.tags.split(",").map((t) => t.trim()).filter(Boolean),
+      },
+      p_reason: reason.trim() || undefined,
+    });
 
     if (error) {
       toast({
@@ -54,6 +130,7 @@ export const RuleDetailsDialog = ({ rule, open, onOpenChange, onRuleUpdated }: R
     } else {
       toast({ title: "Règle mise à jour", description: "Sauvegarde réussie" });
       setIsEditing(false);
+      setReason("");
       onRuleUpdated?.();
     }
   };
@@ -70,185 +147,225 @@ export const RuleDetailsDialog = ({ rule, open, onOpenChange, onRuleUpdated }: R
               <h3 className="text-xl font-semibold">Détails de la règle</h3>
               <p className="mt-1 text-sm font-normal text-muted-foreground">{rule.id}</p>
             </div>
-            ```
-            import {Rule} from "@/types/rule";
-            import {Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle} from "@/components/ui/dialog";
-            import {Badge} from "@/components/ui/badge";
-            import {Separator} from "@/components/ui/separator";
-            import {FileText, MapPin, Tag, CheckCircle2} from "lucide-react";
-            import {Textarea} from "@/components/ui/textarea";
-            import {Input} from "@/components/ui/input";
-            import {Button} from "@/components/ui/button";
-            import {supabase} from "@/integrations/supabase/client";
-            import {useToast} from "@/hooks/use-toast";
-            import {useState} from "react";
-
-            interface RuleDetailsDialogProps {
-              rule: Rule | null;
-            open: boolean;
-  onOpenChange: (open: boolean) => void;
-  onRuleUpdated?: () => void; // callback to refresh parent list
-}
+            {isEditing ? (
+              <>
+                <Button variant="outline" onClick={handleCancel}>Annuler</Button>
+                <Button onClick={handleSave}>Enregistrer</Button>
+              </>
+            ) : (
+              <>
+                {onSplit && (
+                  <Button variant="outline" onClick={() => onSplit(rule)}>Scinder</Button>
+                )}
+                <Button variant="outline" onClick={() => setIsEditing(true)}>Modifier</Button>
+              </>
+            )}
+          </DialogTitle>
+        </DialogHeader>
 
-            export const RuleDetailsDialog = ({rule, open, onOpenChange, onRuleUpdated}: RuleDetailsDialogProps) => {
-  if (!rule) return null;
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Détails</TabsTrigger>
+            <TabsTrigger value="history">Historique</TabsTrigger>
+          </TabsList>
 
-            const {toast} = useToast();
-            const confidencePercentage = Math.round(rule.confidence * 100);
+          <TabsContent value="details">
+            <div className="space-y-6">
+              {isEditing && (
+                <Input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Motif de la modification (conservé dans l'historique)"
+                />
+              )}
 
-            const [isEditing, setIsEditing] = useState(false);
-            const [draft, setDraft] = useState({
-              text: rule.text,
-            domain: rule.domain,
-            tags: rule.tags.join(", "),
-  });
+              <div>
+                <h4 className="mb-3 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                  <CheckCircle2 className="h-4 w-4" /> Règle métier
+                </h4>
+                {isEditing ? (
+                  <Textarea
+                    value={draft.text}
+                    onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                    className="rounded-lg border p-2"
+                  />
+                ) : (
+                  <p className="rounded-lg bg-white border-2 border-primary/20 p-6 text-lg font-medium leading-relaxed text-black shadow-sm">
+                    {rule.text}
+                  </p>
+                )}
+              </div>
 
-  const handleCancel = () => {
-              setIsEditing(false);
-            setDraft({text: rule.text, domain: rule.domain, tags: rule.tags.join(", ") });
-  };
+              <Separator />
 
-  const handleSave = async () => {
-    const {error} = await supabase
-            .from("rules")
-            .update({
-              text: draft.text,
-            domain: draft.domain,
-        tags: draft.tags.split(",").map((t) => t.trim()),
-      })
-            .eq("id", rule.id);
-
-            if (error) {
-              toast({
-                title: "Erreur",
-                description: error.message,
-                variant: "destructive",
-              });
-    } else {
-              toast({ title: "Règle mise à jour", description: "Sauvegarde réussie" });
-            setIsEditing(false);
-            onRuleUpdated?.();
-    }
-  };
+              <div>
+                <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                  <ShieldCheck className="h-4 w-4" /> Revue
+                </h4>
+                <RuleReview rule={rule} onUpdated={onRuleUpdated} />
+              </div>
 
-            return (
-            <Dialog open={open} onOpenChange={onOpenChange}>
-              <DialogContent className="max-w-2xl">
-                <DialogHeader>
-                  <DialogTitle className="flex items-start gap-3">
-                    <div className="mt-1 rounded-lg bg-primary/10 p-2">
-                      <FileText className="h-5 w-5 text-primary" />
-                    </div>
-                    <div className="flex-1">
-                      <h3 className="text-xl font-semibold">Détails de la règle</h3>
-                      <p className="mt-1 text-sm font-normal text-muted-foreground">{rule.id}</p>
-                    </div>
-                    {isEditing ? (
-                      <>
-                        <Button variant="outline" onClick={handleCancel}>Annuler</Button>
-                        <Button onClick={handleSave}>Enregistrer</Button>
-                      </>
-                    ) : (
-                      <Button variant="outline" onClick={() => setIsEditing(true)}>Modifier</Button>
-                    )}
-                  </DialogTitle>
-                </DialogHeader>
-
-                <div className="space-y-6">
-                  <div>
-                    <h4 className="mb-3 flex items-center gap-2 text-sm font-medium text-muted-foreground">
-                      <CheckCircle2 className="h-4 w-4" /> Règle métier
-                    </h4>
-                    {isEditing ? (
-                      <Textarea
-                        value={draft.text}
-                        onChange={(e) => setDraft({ ...draft, text: e.target.value })}
-                        className="rounded-lg border p-2"
-                      />
-                    ) : (
-                      <p className="rounded-lg bg-white border-2 border-primary/20 p-6 text-lg font-medium leading-relaxed text-black shadow-sm">
-                        {rule.text}
-                      </p>
-                    )}
-                  </div>
+              <Separator />
 
-                  <Separator />
-
-                  <div className="grid gap-4 md:grid-cols-2">
-                    <div>
-                      <h4 className="mb-2 text-sm font-medium text-muted-foreground">Domaine</h4>
-                      {isEditing ? (
-                        <Input
-                          value={draft.domain}
-                          onChange={(e) => setDraft({ ...draft, domain: e.target.value })}
-                        />
-                      ) : (
-                        <Badge variant="outline" className="text-sm">{rule.domain}</Badge>
-                      )}
-                    </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <h4 className="mb-2 text-sm font-medium text-muted-foreground">Domaine</h4>
+                  {isEditing ? (
+                    <Input
+                      value={draft.domain}
+                      onChange={(e) => setDraft({ ...draft, domain: e.target.value })}
+                    />
+                  ) : (
+                    <Badge variant="outline" className="text-sm">{rule.domain}</Badge>
+                  )}
+                </div>
 
-                    <div>
-                      <h4 className="mb-2 text-sm font-medium text-muted-foreground">Confiance</h4>
-                      <div className="flex items-center gap-2">
-                        <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
-                          <div className="h-full bg-primary transition-all" style={{ width: `${confidencePercentage}%` }} />
-                        </div>
-                        <span className="text-sm font-medium">{confidencePercentage}%</span>
-                      </div>
+                <div>
+                  <h4 className="mb-2 text-sm font-medium text-muted-foreground">Confiance</h4>
+                  <div className="flex items-center gap-2">
+                    <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+                      <div className="h-full bg-primary transition-all" style={{ width: `${confidencePercentage}%` }} />
                     </div>
+                    <span className="text-sm font-medium">{confidencePercentage}%</span>
                   </div>
+                </div>
+              </div>
 
-                  <Separator />
+              <Separator />
 
+              <div>
+                <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                  <MapPin className="h-4 w-4" /> Source
+                </h4>
+                <div className="flex items-center justify-between gap-4 rounded-lg bg-muted p-4">
                   <div>
-                    <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
-                      <MapPin className="h-4 w-4" /> Source
-                    </h4>
-                    <div className="rounded-lg bg-muted p-4">
-                      <p className="font-medium text-sm">{rule.documentName}</p>
-                      <p className="mt-1 text-sm text-muted-foreground">Page {rule.source.page} · {rule.source.section}</p>
-                    </div>
+                    <p className="font-medium text-sm">{rule.documentName}</p>
+                    <p className="mt-1 text-sm text-muted-foreground">Page {rule.source.page} · {rule.source.section}</p>
                   </div>
+                  {onViewSource && (
+                    <Button variant="outline" size="sm" onClick={() => onViewSource(rule)}>
+                      Voir dans le document
+                    </Button>
+                  )}
+                </div>
+              </div>
 
-                  <Separator />
+              <div>
+                <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                  <Quote className="h-4 w-4" /> Extrait du document
+                </h4>
+                {rule.source.quote ? (
+                  <p className="whitespace-pre-wrap rounded-lg border p-4 text-sm leading-relaxed text-muted-foreground">
+                    {context && <>…{cleanContext(context.before)}</>}
+                    <mark className="rounded bg-primary/20 px-0.5 text-foreground">
+                      {cleanContext(context?.quote ?? rule.source.quote)}
+                    </mark>
+                    {context && <>{cleanContext(context.after)}…</>}
+                  </p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Citation non retrouvée dans le texte du document.
+                  </p>
+                )}
+              </div>
 
-                  <div>
-                    <h4 className="mb-3 flex items-center gap-2 text-sm font-medium text-muted-foreground">
-                      <CheckCircle2 className="h-4 w-4" /> Conditions ({rule.conditions.length})
-                    </h4>
-                    <ul className="space-y-2">
-                      {rule.conditions.map((condition, idx) => (
-                        <li key={idx} className="flex items-start gap-2 text-sm">
-                          <div className="mt-1 h-1.5 w-1.5 rounded-full bg-primary" />
-                          <span>{condition}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
+              {rule.origin !== "extracted" && (
+                <div>
+                  <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                    <GitFork className="h-4 w-4" /> Origine
+                  </h4>
+                  <RuleLineage ruleId={rule.id} origin={rule.origin} />
+                </div>
+              )}
 
-                  <Separator />
+              {rule.aliases.length > 0 && (
+                <div>
+                  <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                    <Copy className="h-4 w-4" /> Variantes fusionnées ({rule.aliases.length})
+                  </h4>
+                  <ul className="space-y-2">
+                    {rule.aliases.map((alias, idx) => (
+                      <li key={idx} className="rounded-lg border p-3 text-sm text-muted-foreground">
+                        {alias.text}
+                        <span className="ml-2 text-xs">
+                          (p. {alias.page}, confiance {Math.round(alias.confidence * 100)}%)
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
-                  <div>
-                    <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
-                      <Tag className="h-4 w-4" /> Tags
-                    </h4>
-                    {isEditing ? (
-                      <Input
-                        value={draft.tags}
-                        onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
-                        placeholder="tag1, tag2, ..."
-                      />
-                    ) : (
-                      <div className="flex flex-wrap gap-2">
-                        {rule.tags.map((tag) => (
-                          <Badge key={tag} variant="secondary">{tag}</Badge>
-                        ))}
-                      </div>
-                    )}
-                  </div>
+              <Separator />
+
+              <div>
+                <h4 className="mb-3 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                  <CheckCircle2 className="h-4 w-4" /> Conditions ({rule.conditions.length})
+                </h4>
+                <ul className="space-y-2">
+                  {rule.conditions.map((condition, idx) => (
+                    <li key={idx} className="flex items-start gap-2 text-sm">
+                      <div className="mt-1 h-1.5 w-1.5 rounded-full bg-primary" />
+                      <span>{condition}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {rule.structure && (
+                <div>
+                  <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                    <Braces className="h-4 w-4" /> Structure
+                  </h4>
+                  <RuleStructureView structure={rule.structure} />
+                </div>
+              )}
+
+              {quantities.length > 0 && (
+                <div>
+                  <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                    <Ruler className="h-4 w-4" /> Valeurs normalisées
+                  </h4>
+                  <ul className="space-y-2">
+                    {quantities.map((quantity, idx) => (
+                      <li key={idx} className="flex flex-wrap items-center gap-2 text-sm">
+                        <Badge variant="outline">{QUANTITY_KIND_LABELS[quantity.kind]}</Badge>
+                        <span className="font-medium">{formatQuantity(quantity)}</span>
+                        <span className="text-xs text-muted-foreground">« {quantity.raw} »</span>
+                      </li>
+                    ))}
+                  </ul>
                 </div>
-              </DialogContent>
-            </Dialog>
-            );
+              )}
+
+              <Separator />
+
+              <div>
+                <h4 className="mb-2 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                  <Tag className="h-4 w-4" /> Tags
+                </h4>
+                {isEditing ? (
+                  <Input
+                    value={draft.tags}
+                    onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                    placeholder="tag1, tag2, ..."
+                  />
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {rule.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <RuleHistory ruleId={rule.id} onReverted={onRuleUpdated} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
 };
-            ```
@@ -0,0 +1,88 @@
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DiffRule, RuleChange, RulePair } from "@/types/extraction";
+
+interface RuleDiffTabsProps {
+  added: DiffRule[];
+  removed: DiffRule[];
+  changed: RulePair<DiffRule>[];
+}
+
+const CHANGE_LABELS: Record<RuleChange, string> = {
+  text: "Texte",
+  confidence: "Confiance",
+  domain: "Domaine",
+  conditions: "Conditions",
+  page: "Page",
+};
+
+const formatPercent = (value: number | null) => (value !== null ? `${Math.round(value * 100)}%` : "—");
+
+const formatDelta = (delta: number) => {
+  const points = Math.round(delta * 100);
+  return `${points > 0 ? "+" : ""}${points} pts`;
+};
+
+const RuleLine = ({ rule }: { rule: DiffRule }) => (
+  <div className="rounded-md border border-border p-3 space-y-1">
+    <p className="text-sm text-foreground">{rule.text}</p>
+    <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+      <span>Page {rule.source_page ?? "—"}</span>
+      <span>Confiance {formatPercent(rule.confidence)}</span>
+      {rule.domain && <span>{rule.domain}</span>}
+    </div>
+  </div>
+);
+
+// Modified, added and removed rules of a diff (runs or document versions)
+export const RuleDiffTabs = ({ added, removed, changed }: RuleDiffTabsProps) => (
+  <Tabs defaultValue="changed">
+    <TabsList>
+      <TabsTrigger value="changed">Modifiées ({changed.length})</TabsTrigger>
+      <TabsTrigger value="added">Ajoutées ({added.length})</TabsTrigger>
+      <TabsTrigger value="removed">Supprimées ({removed.length})</TabsTrigger>
+    </TabsList>
+
+    <TabsContent value="changed">
+      <ScrollArea className="h-[360px] pr-3">
+        <div className="space-y-3">
+          {changed.map((pair) => (
+            <div key={`${pair.before.id}-${pair.after.id}`} className="rounded-md border border-border p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                {pair.changes.map((change) => (
+                  <Badge key={change} variant="secondary">{CHANGE_LABELS[change]}</Badge>
+                ))}
+                {pair.confidenceDelta !== 0 && (
+                  <span className={`text-xs font-medium ${pair.confidenceDelta > 0 ? "text-green-700" : "text-red-700"}`}>
+                    {formatDelta(pair.confidenceDelta)}
+                  </span>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <p className="text-muted-foreground">{pair.before.text}</p>
+                <p className="text-foreground">{pair.after.text}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </TabsContent>
+
+    <TabsContent value="added">
+      <ScrollArea className="h-[360px] pr-3">
+        <div className="space-y-2">
+          {added.map((rule) => <RuleLine key={rule.id} rule={rule} />)}
+        </div>
+      </ScrollArea>
+    </TabsContent>
+
+    <TabsContent value="removed">
+      <ScrollArea className="h-[360px] pr-3">
+        <div className="space-y-2">
+          {removed.map((rule) => <RuleLine key={rule.id} rule={rule} />)}
+        </div>
+      </ScrollArea>
+    </TabsContent>
+  </Tabs>
+);
@@ -0,0 +1,51 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RuleDraftForm } from "@/lib/ruleDraft";
+
+interface RuleDraftFieldsProps {
+  value: RuleDraftForm;
+  onChange: (value: RuleDraftForm) => void;
+  // Page and section are only asked for rules written from scratch
+  showSource?: boolean;
+}
+
+export const RuleDraftFields = ({ value, onChange, showSource = false }: RuleDraftFieldsProps) => {
+  const set = (field: keyof RuleDraftForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    onChange({ ...value, [field]: e.target.value });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label>Règle</Label>
+        <Textarea value={value.text} onChange={set("text")} placeholder="Énoncé de la règle métier" />
+      </div>
+      <div className="space-y-1">
+        <Label>Conditions (une par ligne)</Label>
+        <Textarea value={value.conditions} onChange={set("conditions")} rows={3} />
+      </div>
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label>Domaine</Label>
+          <Input value={value.domain} onChange={set("domain")} />
+        </div>
+        <div className="space-y-1">
+          <Label>Tags</Label>
+          <Input value={value.tags} onChange={set("tags")} placeholder="tag1, tag2, ..." />
+        </div>
+      </div>
+      {showSource && (
+        <div className="grid gap-3 md:grid-cols-[120px_1fr]">
+          <div className="space-y-1">
+            <Label>Page</Label>
+            <Input type="number" min={1} value={value.page} onChange={set("page")} />
+          </div>
+          <div className="space-y-1">
+            <Label>Section</Label>
+            <Input value={value.section} onChange={set("section")} placeholder="Section 2.1 - ..." />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
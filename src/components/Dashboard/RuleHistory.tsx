@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { RuleRevision, RuleSnapshot } from "@/types/rule";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, RotateCcw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface RuleHistoryProps {
+  ruleId: string;
+  onReverted?: () => void;
+}
+
+const ACTION_LABELS: Record<RuleRevision["action"], string> = {
+  extracted: "Extraction",
+  baseline: "État initial",
+  update: "Modification",
+  revert: "Restauration",
+  manual: "Création manuelle",
+  merge: "Fusion",
+  split: "Scission",
+};
+
+const FIELD_LABELS: Record<keyof RuleSnapshot, string> = {
+  text: "Texte",
+  conditions: "Conditions",
+  domain: "Domaine",
+  tags: "Tags",
+};
+
+const formatValue = (value: RuleSnapshot[keyof RuleSnapshot]) => {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  return value || "—";
+};
+
+const changedFields = (revision: RuleRevision) =>
+  (Object.keys(FIELD_LABELS) as (keyof RuleSnapshot)[]).filter(
+    (field) => JSON.stringify(revision.before?.[field] ?? null) !== JSON.stringify(revision.after[field] ?? null)
+  );
+
+export const RuleHistory = ({ ruleId, onReverted }: RuleHistoryProps) => {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<RuleRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [revertTarget, setRevertTarget] = useState<RuleRevision | null>(null);
+  const [revertReason, setRevertReason] = useState("");
+
+  // Bumped to reload the history after a revert
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    supabase
+      .from("rule_revisions")
+      .select("*")
+      .eq("rule_id", ruleId)
+      .order("changed_at", { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching rule history:", error);
+        } else {
+          setRevisions((data || []) as unknown as RuleRevision[]);
+        }
+        setLoading(false);
+      });
+  }, [ruleId, reloadKey]);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setCurrentUserId(data.user?.id ?? null));
+  }, []);
+
+  const authorLabel = (revision: RuleRevision) => {
+    if (!revision.changed_by) return revision.action === "extracted" ? "Extraction automatique" : "Système";
+    return revision.changed_by === currentUserId ? "Vous" : `Utilisateur ${revision.changed_by.slice(0, 8)}`;
+  };
+
+  const handleRevert = async () => {
+    if (!revertTarget) return;
+
+    const { error } = await supabase.rpc("revert_rule", {
+      p_revision_id: revertTarget.id,
+      p_reason: revertReason.trim() || undefined,
+    });
+
+    if (error) {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Règle restaurée", description: "La version sélectionnée a été rétablie" });
+      setReloadKey((key) => key + 1);
+      onReverted?.();
+    }
+    setRevertTarget(null);
+    setRevertReason("");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">Aucun historique pour cette règle.</p>;
+  }
+
+  return (
+    <>
+      <ol className="space-y-3">
+        {revisions.map((revision, idx) => {
+          const fields = revision.before ? changedFields(revision) : [];
+
+          return (
+            <li key={revision.id} className="rounded-lg border p-4 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant={idx === 0 ? "default" : "outline"}>{ACTION_LABELS[revision.action]}</Badge>
+                  <span className="text-sm text-muted-foreground">
+                    {new Date(revision.changed_at).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" })}
+                    {" · "}
+                    {authorLabel(revision)}
+                  </span>
+                </div>
+                {idx > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => setRevertTarget(revision)}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restaurer
+                  </Button>
+                )}
+              </div>
+
+              {revision.reason && <p className="text-sm italic">« {revision.reason} »</p>}
+
+              {revision.before ? (
+                <dl className="space-y-1 text-sm">
+                  {fields.map((field) => (
+                    <div key={field}>
+                      <dt className="text-xs font-medium text-muted-foreground">{FIELD_LABELS[field]}</dt>
+                      <dd>
+                        <span className="text-red-700 line-through">{formatValue(revision.before![field])}</span>
+                        {" → "}
+                        <span className="text-green-700">{formatValue(revision.after[field])}</span>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              ) : (
+                <p className="text-sm text-muted-foreground">{revision.after.text}</p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <AlertDialog open={!!revertTarget} onOpenChange={(open) => !open && setRevertTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restaurer cette version ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              La règle reprendra le texte, les conditions, le domaine et les tags qu'elle avait à cette date.
+              La restauration est elle-même enregistrée dans l'historique.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={revertReason}
+            onChange={(e) => setRevertReason(e.target.value)}
+            placeholder="Motif de la restauration (optionnel)"
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevert}>Restaurer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { RuleLink, RuleOrigin } from "@/types/rule";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+
+interface RuleLineageProps {
+  ruleId: string;
+  origin: RuleOrigin;
+}
+
+const ORIGIN_LABELS: Record<RuleOrigin, string> = {
+  extracted: "Extraite du document",
+  manual: "Ajoutée manuellement",
+  merged: "Fusion des règles suivantes",
+  split: "Issue de la scission de",
+};
+
+export const RuleLineage = ({ ruleId, origin }: RuleLineageProps) => {
+  const [links, setLinks] = useState<RuleLink[]>([]);
+
+  useEffect(() => {
+    setLinks([]);
+    if (origin !== "merged" && origin !== "split") return;
+
+    supabase
+      .from("rule_links")
+      .select("*")
+      .eq("rule_id", ruleId)
+      .order("created_at")
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching rule links:", error);
+          return;
+        }
+        setLinks((data || []) as unknown as RuleLink[]);
+      });
+  }, [ruleId, origin]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">{ORIGIN_LABELS[origin]}</p>
+      {links.map((link) => (
+        <div key={link.id} className="rounded-lg border p-3 text-sm">
+          <p className="text-foreground">{link.source.text}</p>
+          <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {link.source.domain && <Badge variant="outline">{link.source.domain}</Badge>}
+            {link.source.source_page && <span>Page {link.source.source_page}</span>}
+            {link.source.confidence !== null && <span>Confiance {Math.round(link.source.confidence * 100)}%</span>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { ReviewStatus, Rule } from "@/types/rule";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ReviewStatusBadge } from "./ReviewStatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface RuleReviewProps {
+  rule: Rule;
+  onUpdated?: () => void;
+}
+
+export const RuleReview = ({ rule, onUpdated }: RuleReviewProps) => {
+  const { toast } = useToast();
+  const [reviewerEmail, setReviewerEmail] = useState("");
+  const [assignedEmail, setAssignedEmail] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Reviewer emails are only readable through get_rule_reviewers
+  useEffect(() => {
+    setAssignedEmail(null);
+    if (!rule.reviewerId) return;
+
+    supabase
+      .rpc("get_rule_reviewers", { p_document_id: rule.documentId })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching reviewers:", error);
+          return;
+        }
+        setAssignedEmail(data?.find((r) => r.id === rule.reviewerId)?.email ?? null);
+      });
+  }, [rule.documentId, rule.reviewerId]);
+
+  const setStatus = async (status: ReviewStatus, reason?: string) => {
+    setSaving(true);
+    const { error } = await supabase.rpc("set_rule_review_status", {
+      p_rule_id: rule.id,
+      p_status: status,
+      p_rejection_reason: reason,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+      return;
+    }
+    setRejecting(false);
+    setRejectionReason("");
+    onUpdated?.();
+  };
+
+  const assignReviewer = async (email: string | null) => {
+    setSaving(true);
+    const { error } = await supabase.rpc("assign_rule_reviewer", {
+      p_rule_id: rule.id,
+      p_reviewer_email: email,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+      return;
+    }
+    setReviewerEmail("");
+    toast({ title: email ? "Relecteur assigné" : "Relecteur retiré" });
+    onUpdated?.();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <ReviewStatusBadge status={rule.reviewStatus} />
+        {rule.reviewStatus === "draft" && (
+          <Button size="sm" variant="outline" disabled={saving} onClick={() => setStatus("in_review")}>
+            Soumettre en revue
+          </Button>
+        )}
+        {rule.reviewStatus !== "approved" && (
+          <Button size="sm" disabled={saving} onClick={() => setStatus("approved")}>
+            Approuver
+          </Button>
+        )}
+        {rule.reviewStatus !== "rejected" && !rejecting && (
+          <Button size="sm" variant="outline" disabled={saving} onClick={() => setRejecting(true)}>
+            Rejeter
+          </Button>
+        )}
+        {(rule.reviewStatus === "approved" || rule.reviewStatus === "rejected") && (
+          <Button size="sm" variant="ghost" disabled={saving} onClick={() => setStatus("draft")}>
+            Repasser en brouillon
+          </Button>
+        )}
+      </div>
+
+      {rule.reviewStatus === "rejected" && rule.rejectionReason && (
+        <p className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          Motif du rejet : {rule.rejectionReason}
+        </p>
+      )}
+
+      {rejecting && (
+        <div className="space-y-2">
+          <Textarea
+            value={rejectionReason}
+            onChange={(e) => setRejectionReason(e.target.value)}
+            placeholder="Motif du rejet (obligatoire)"
+          />
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={() => setRejecting(false)}>
+              Annuler
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={saving || !rejectionReason.trim()}
+              onClick={() => setStatus("rejected", rejectionReason.trim())}
+            >
+              Confirmer le rejet
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">
+          Relecteur : {rule.reviewerId ? assignedEmail ?? "…" : "non assigné"}
+        </span>
+        {rule.reviewerId && (
+          <Button size="sm" variant="link" className="h-auto p-0" disabled={saving} onClick={() => assignReviewer(null)}>
+            Retirer
+          </Button>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          type="email"
+          value={reviewerEmail}
+          onChange={(e) => setReviewerEmail(e.target.value)}
+          placeholder="Email du relecteur"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={saving || !reviewerEmail.trim()}
+          onClick={() => assignReviewer(reviewerEmail.trim())}
+        >
+          Assigner
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  DEADLINE_UNIT_LABELS,
+  MODALITY_CLASSES,
+  MODALITY_LABELS,
+  OPERATOR_LABELS,
+  formatConditionValue,
+} from "@/lib/ruleStructure";
+import { RuleStructure } from "@/types/rule";
+
+interface RuleStructureViewProps {
+  structure: RuleStructure;
+}
+
+export const RuleStructureView = ({ structure }: RuleStructureViewProps) => {
+  const { subject, modality, action, conditions, exceptions, deadline } = structure;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className={MODALITY_CLASSES[modality]}>
+          {MODALITY_LABELS[modality]}
+        </Badge>
+        {subject && <span className="font-medium">{subject}</span>}
+        <span>{action}</span>
+      </div>
+
+      {conditions.length > 0 && (
+        <div>
+          <p className="mb-1 text-xs font-medium text-muted-foreground">Si</p>
+          <ul className="space-y-1">
+            {conditions.map((condition, idx) => (
+              <li key={idx} className="flex flex-wrap items-center gap-1.5">
+                <span>{condition.field}</span>
+                <code className="rounded bg-muted px-1.5 py-0.5 text-xs">{OPERATOR_LABELS[condition.operator]}</code>
+                <span className="font-medium">{formatConditionValue(condition)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {exceptions.length > 0 && (
+        <div>
+          <p className="mb-1 text-xs font-medium text-muted-foreground">Sauf</p>
+          <ul className="list-inside list-disc space-y-1">
+            {exceptions.map((exception, idx) => (
+              <li key={idx}>{exception}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {deadline && (
+        <div>
+          <p className="mb-1 text-xs font-medium text-muted-foreground">Délai</p>
+          <p>
+            {deadline.value} {DEADLINE_UNIT_LABELS[deadline.unit]}
+            {deadline.reference && <span className="text-muted-foreground"> à compter de : {deadline.reference}</span>}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
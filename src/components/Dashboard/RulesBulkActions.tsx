@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { ReviewStatus, Rule } from "@/types/rule";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, Download, FlaskConical, Merge, Tag, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface RulesBulkActionsProps {
+  rules: Rule[];
+  onCompleted: () => void; // refresh the list and clear the selection
+  onClear: () => void;
+  onMerge?: (rules: Rule[]) => void;
+}
+
+const splitTags = (value: string) => value.split(",").map((t) => t.trim()).filter(Boolean);
+
+export const RulesBulkActions = ({ rules, onCompleted, onClear, onMerge }: RulesBulkActionsProps) => {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+  const [domain, setDomain] = useState("");
+  const [addTags, setAddTags] = useState("");
+  const [removeTags, setRemoveTags] = useState("");
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const ruleIds = rules.map((r) => r.id);
+
+  // Runs a bulk action, reports its outcome and refreshes the list on success
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      const description = await action();
+      toast({ title: "Action groupée terminée", description });
+      onCompleted();
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: error instanceof Error ? error.message : "L'action groupée a échoué",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateRules = (changes: { domain?: string; add_tags?: string[]; remove_tags?: string[] }) =>
+    run(async () => {
+      const { data, error } = await supabase.rpc("bulk_update_rules", { p_rule_ids: ruleIds, p_changes: changes });
+      if (error) throw new Error(error.message);
+      setDomain("");
+      setAddTags("");
+      setRemoveTags("");
+      return `${data} règle(s) mise(s) à jour.`;
+    });
+
+  const setReviewStatus = (status: ReviewStatus, reason?: string) =>
+    run(async () => {
+      const { data, error } = await supabase.rpc("bulk_set_review_status", {
+        p_rule_ids: ruleIds,
+        p_status: status,
+        p_rejection_reason: reason,
+      });
+      if (error) throw new Error(error.message);
+      setRejectionReason("");
+      return `${data} règle(s) ${status === "approved" ? "approuvée(s)" : "rejetée(s)"}.`;
+    });
+
+  const deleteRules = () =>
+    run(async () => {
+      const { data, error } = await supabase.rpc("delete_rules", { p_rule_ids: ruleIds });
+      if (error) throw new Error(error.message);
+      return `${data} règle(s) supprimée(s).`;
+    });
+
+  const generateTests = () =>
+    run(async () => {
+      const { data, error } = await supabase.functions.invoke("generate-tests", { body: { ruleIds } });
+      if (error) throw error;
+      return `${data.generated || 0} cas de test créés.`;
+    });
+
+  const exportRules = async () => {
+    setBusy(true);
+    try {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-rules?format=xlsx`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ruleIds }),
+      });
+
+      if (!response.ok) throw new Error("Export failed");
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "rules-selection.xlsx";
+      a.click();
+    } catch (error) {
+      toast({
+        title: "Erreur d'export",
+        description: error instanceof Error ? error.message : "Échec de l'export",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/50 px-3 py-2">
+      <span className="text-sm font-medium">{rules.length} sélectionnée(s)</span>
+      <Button variant="ghost" size="sm" onClick={onClear}>
+        <X className="h-4 w-4" />
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={busy}>Domaine</Button>
+        </PopoverTrigger>
+        <PopoverContent className="space-y-2">
+          <Input value={domain} onChange={(e) => setDomain(e.target.value)} placeholder="Nouveau domaine" />
+          <Button size="sm" className="w-full" disabled={busy || !domain.trim()} onClick={() => updateRules({ domain: domain.trim() })}>
+            Appliquer
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={busy}>
+            <Tag className="mr-2 h-4 w-4" />
+            Tags
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="space-y-2">
+          <Input value={addTags} onChange={(e) => setAddTags(e.target.value)} placeholder="Ajouter : tag1, tag2" />
+          <Input value={removeTags} onChange={(e) => setRemoveTags(e.target.value)} placeholder="Retirer : tag3" />
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={busy || (!addTags.trim() && !removeTags.trim())}
+            onClick={() => updateRules({ add_tags: splitTags(addTags), remove_tags: splitTags(removeTags) })}
+          >
+            Appliquer
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Button variant="outline" size="sm" disabled={busy} onClick={() => setReviewStatus("approved")}>
+        <Check className="mr-2 h-4 w-4" />
+        Approuver
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={busy}>Rejeter</Button>
+        </PopoverTrigger>
+        <PopoverContent className="space-y-2">
+          <Textarea
+            value={rejectionReason}
+            onChange={(e) => setRejectionReason(e.target.value)}
+            placeholder="Motif du rejet (obligatoire)"
+          />
+          <Button
+            size="sm"
+            variant="destructive"
+            className="w-full"
+            disabled={busy || !rejectionReason.trim()}
+            onClick={() => setReviewStatus("rejected", rejectionReason.trim())}
+          >
+            Rejeter la sélection
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      {onMerge && (
+        <Button variant="outline" size="sm" disabled={busy || rules.length < 2} onClick={() => onMerge(rules)}>
+          <Merge className="mr-2 h-4 w-4" />
+          Fusionner
+        </Button>
+      )}
+
+      <Button variant="outline" size="sm" disabled={busy} onClick={generateTests}>
+        <FlaskConical className="mr-2 h-4 w-4" />
+        Générer les tests
+      </Button>
+
+      <Button variant="outline" size="sm" disabled={busy} onClick={exportRules}>
+        <Download className="mr-2 h-4 w-4" />
+        Exporter
+      </Button>
+
+      <Button variant="outline" size="sm" disabled={busy} onClick={() => setConfirmDelete(true)}>
+        <Trash2 className="mr-2 h-4 w-4" />
+        Supprimer
+      </Button>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Supprimer {rules.length} règle(s) ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Les règles sélectionnées, leurs cas de test et leur historique seront définitivement supprimés.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteRules}>Supprimer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
-import { useState } from "react";
-import { Rule } from "@/types/rule";
+import { useEffect, useState } from "react";
+import { ReviewStatus, Rule } from "@/types/rule";
+import { REVIEW_STATUSES, REVIEW_STATUS_LABELS } from "@/lib/review";
+import { ReviewStatusBadge } from "./ReviewStatusBadge";
+import { RulesBulkActions } from "./RulesBulkActions";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import {
   Table,
@@ -18,28 +22,142 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Search, Eye } from "lucide-react";
+import { Search, Eye, Plus, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
 
 interface RulesTableProps {
   rules: Rule[];
+  // Document of the rules, for the server-side search of large documents
+  documentId?: string;
   onRuleClick: (rule: Rule) => void;
+  onCreateRule?: () => void;
+  onMergeRules?: (rules: Rule[]) => void;
+  // Enables the selection and its bulk actions; called once an action changed rules
+  onRulesChanged?: () => void;
 }
 
-export const RulesTable = ({ rules, onRuleClick }: RulesTableProps) => {
+interface ServerSearchResults {
+  ids: string[]; // by decreasing relevance
+  snippets: Record<string, string>;
+  total: number;
+}
+
+// Above this many rules, search goes through get-rules (French full-text search)
+const SERVER_SEARCH_MIN_RULES = 200;
+const SERVER_SEARCH_PAGE_SIZE = 100;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Search excerpt with the matched words in <mark>, rendered as text
+const Snippet = ({ html }: { html: string }) => (
+  <>
+    {html.split(/(<mark>.*?<\/mark>)/g).map((part, idx) =>
+      part.startsWith("<mark>") ? (
+        <mark key={idx} className="rounded bg-amber-100 px-0.5 text-foreground">
+          {part.slice(6, -7)}
+        </mark>
+      ) : (
+        <span key={idx}>{part}</span>
+      )
+    )}
+  </>
+);
+
+export const RulesTable = ({
+  rules,
+  documentId,
+  onRuleClick,
+  onCreateRule,
+  onMergeRules,
+  onRulesChanged,
+}: RulesTableProps) => {
   const [search, setSearch] = useState("");
+  const [serverResults, setServerResults] = useState<ServerSearchResults | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
   const [domainFilter, setDomainFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | "all">("all");
 
   const domains = Array.from(new Set(rules.map((r) => r.domain)));
 
-  const filteredRules = rules.filter((rule) => {
+  const serverSearch = !!documentId && rules.length >= SERVER_SEARCH_MIN_RULES && search.trim() !== "";
+
+  useEffect(() => {
+    setServerResults(null);
+    if (!serverSearch) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      const params = new URLSearchParams({
+        documentId: documentId!,
+        q: search,
+        domain: domainFilter,
+        reviewStatus: statusFilter,
+        pageSize: String(SERVER_SEARCH_PAGE_SIZE),
+      });
+      const { data, error } = await supabase.functions.invoke(`get-rules?${params}`, { method: "GET" });
+      if (cancelled) return;
+      setSearching(false);
+
+      if (error) {
+        console.error("Error searching rules:", error);
+        return;
+      }
+      const items: { id: string; snippet: string }[] = data?.items || [];
+      setServerResults({
+        ids: items.map((item) => item.id),
+        snippets: Object.fromEntries(items.map((item) => [item.id, item.snippet])),
+        total: data?.total || 0,
+      });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      setSearching(false);
+    };
+  }, [serverSearch, documentId, search, domainFilter, statusFilter, rules]);
+
+  const localResults = rules.filter((rule) => {
     const matchesSearch =
       search === "" ||
       rule.text.toLowerCase().includes(search.toLowerCase()) ||
       rule.tags.some((tag) => tag.toLowerCase().includes(search.toLowerCase()));
     const matchesDomain = domainFilter === "all" || rule.domain === domainFilter;
-    return matchesSearch && matchesDomain;
+    const matchesStatus = statusFilter === "all" || rule.reviewStatus === statusFilter;
+    return matchesSearch && matchesDomain && matchesStatus;
   });
 
+  const rulesById = new Map(rules.map((r) => [r.id, r]));
+  const filteredRules = serverSearch
+    ? (serverResults?.ids || []).map((id) => rulesById.get(id)).filter((r): r is Rule => !!r)
+    : localResults;
+
+  // Rules that disappeared (merged, split, deleted) drop out of the selection
+  const selectedRules = rules.filter((r) => selected.includes(r.id));
+
+  const toggleSelected = (ruleId: string) => {
+    setSelected((current) =>
+      current.includes(ruleId) ? current.filter((id) => id !== ruleId) : [...current, ruleId]
+    );
+  };
+
+  const allFilteredSelected = filteredRules.length > 0 && filteredRules.every((r) => selected.includes(r.id));
+
+  const toggleAllFiltered = () => {
+    const filteredIds = filteredRules.map((r) => r.id);
+    setSelected((current) =>
+      allFilteredSelected
+        ? current.filter((id) => !filteredIds.includes(id))
+        : Array.from(new Set([...current, ...filteredIds]))
+    );
+  };
+
+  const handleMerge = (mergedRules: Rule[]) => {
+    onMergeRules?.(mergedRules);
+    setSelected([]);
+  };
+
   const getConfidenceBadge = (confidence: number) => {
     if (confidence >= 0.9) return <Badge className="bg-success text-success-foreground">Haute</Badge>;
     if (confidence >= 0.8) return <Badge className="bg-warning text-warning-foreground">Moyenne</Badge>;
@@ -50,7 +168,11 @@ export const RulesTable = ({ rules, onRuleClick }: RulesTableProps) => {
     <div className="space-y-4">
       <div className="flex gap-4">
         <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          {searching ? (
+            <Loader2 className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+          ) : (
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          )}
           <Input
             placeholder="Rechercher dans les règles, tags..."
             value={search}
@@ -71,16 +193,57 @@ export const RulesTable = ({ rules, onRuleClick }: RulesTableProps) => {
             ))}
           </SelectContent>
         </Select>
+        <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as ReviewStatus | "all")}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Tous les statuts" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Tous les statuts</SelectItem>
+            {REVIEW_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {REVIEW_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {onCreateRule && (
+          <Button variant="outline" onClick={onCreateRule}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nouvelle règle
+          </Button>
+        )}
       </div>
 
+      {onRulesChanged && selectedRules.length > 0 && (
+        <RulesBulkActions
+          rules={selectedRules}
+          onClear={() => setSelected([])}
+          onCompleted={() => {
+            setSelected([]);
+            onRulesChanged();
+          }}
+          onMerge={onMergeRules ? handleMerge : undefined}
+        />
+      )}
+
       <div className="rounded-lg border bg-card">
         <Table>
           <TableHeader>
             <TableRow>
+              {onRulesChanged && (
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allFilteredSelected}
+                    onCheckedChange={toggleAllFiltered}
+                    aria-label="Sélectionner les règles affichées"
+                  />
+                </TableHead>
+              )}
               <TableHead className="w-[40%]">Règle</TableHead>
               <TableHead>Domaine</TableHead>
               <TableHead>Source</TableHead>
               <TableHead>Confiance</TableHead>
+              <TableHead>Revue</TableHead>
               <TableHead>Tags</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -88,8 +251,23 @@ export const RulesTable = ({ rules, onRuleClick }: RulesTableProps) => {
           <TableBody>
             {filteredRules.map((rule) => (
               <TableRow key={rule.id} className="group">
+                {onRulesChanged && (
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.includes(rule.id)}
+                      onCheckedChange={() => toggleSelected(rule.id)}
+                      aria-label="Sélectionner la règle"
+                    />
+                  </TableCell>
+                )}
                 <TableCell className="font-medium">
-                  <p className="line-clamp-2 text-base">{rule.text}</p>
+                  <p className="line-clamp-2 text-base">
+                    {serverSearch && serverResults?.snippets[rule.id] ? (
+                      <Snippet html={serverResults.snippets[rule.id]} />
+                    ) : (
+                      rule.text
+                    )}
+                  </p>
                 </TableCell>
                 <TableCell>
                   <Badge variant="outline" className="text-sm">{rule.domain}</Badge>
@@ -102,6 +280,9 @@ export const RulesTable = ({ rules, onRuleClick }: RulesTableProps) => {
                   </span>
                 </TableCell>
                 <TableCell>{getConfidenceBadge(rule.confidence)}</TableCell>
+                <TableCell>
+                  <ReviewStatusBadge status={rule.reviewStatus} title={rule.rejectionReason ?? undefined} />
+                </TableCell>
                 <TableCell>
                   <div className="flex flex-wrap gap-1">
                     {rule.tags.slice(0, 2).map((tag) => (
@@ -135,7 +316,9 @@ export const RulesTable = ({ rules, onRuleClick }: RulesTableProps) => {
 
       <div className="flex items-center justify-between text-base text-muted-foreground">
         <p>
-          Affichage de {filteredRules.length} sur {rules.length} règles
+          {serverSearch && serverResults
+            ? `${filteredRules.length} résultat(s) les plus pertinents sur ${serverResults.total}`
+            : `Affichage de ${filteredRules.length} sur ${rules.length} règles`}
         </p>
       </div>
     </div>
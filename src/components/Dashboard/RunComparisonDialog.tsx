@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { RunComparison, RunSummary } from "@/types/extraction";
+import { RuleDiffTabs } from "./RuleDiffTabs";
+
+interface RunComparisonDialogProps {
+  runA: string | null;
+  runB: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatPercent = (value: number | null) => (value !== null ? `${Math.round(value * 100)}%` : "—");
+
+const formatDelta = (delta: number) => {
+  const points = Math.round(delta * 100);
+  return `${points > 0 ? "+" : ""}${points} pts`;
+};
+
+const RunCard = ({ title, run }: { title: string; run: RunSummary }) => (
+  <Card className="p-4 space-y-2">
+    <div className="flex items-center justify-between">
+      <h4 className="font-semibold text-foreground">{title}</h4>
+      <span className="text-xs text-muted-foreground">
+        {new Date(run.createdAt).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" })}
+      </span>
+    </div>
+    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+      <dt className="text-muted-foreground">Modèle</dt>
+      <dd>{run.settings?.model || run.metrics?.model || "par défaut"}</dd>
+      <dt className="text-muted-foreground">Prompt / chunks</dt>
+      <dd>
+        {run.settings
+          ? `${run.settings.promptTemplate} · ${run.settings.chunkSize}/${run.settings.chunkOverlap}`
+          : "—"}
+      </dd>
+      <dt className="text-muted-foreground">Règles</dt>
+      <dd>{run.rulesCount}</dd>
+      <dt className="text-muted-foreground">Confiance moyenne</dt>
+      <dd>{formatPercent(run.avgConfidence)}</dd>
+      <dt className="text-muted-foreground">Coût</dt>
+      <dd>{run.costUsd !== null ? `${run.costUsd.toFixed(4)} $` : "—"}</dd>
+      <dt className="text-muted-foreground">Durée</dt>
+      <dd>{run.durationMs !== null ? `${(run.durationMs / 1000).toFixed(1)} s` : "—"}</dd>
+      {run.metrics?.inputTokens !== undefined && (
+        <>
+          <dt className="text-muted-foreground">Tokens (entrée / sortie)</dt>
+          <dd>{run.metrics.inputTokens} / {run.metrics.outputTokens ?? 0}</dd>
+        </>
+      )}
+    </dl>
+  </Card>
+);
+
+export const RunComparisonDialog = ({ runA, runB, open, onOpenChange }: RunComparisonDialogProps) => {
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !runA || !runB) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setComparison(null);
+
+    supabase.functions
+      .invoke("compare-runs", { body: { runA, runB } })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          setError(error.message);
+        } else {
+          setComparison(data as RunComparison);
+        }
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, runA, runB]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Comparaison des runs</DialogTitle>
+          <DialogDescription>
+            Règles alignées entre le run de référence (A) et le run comparé (B).
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {comparison && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <RunCard title="Run A (référence)" run={comparison.runA} />
+              <RunCard title="Run B" run={comparison.runB} />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                {comparison.summary.added} ajoutées
+              </Badge>
+              <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                {comparison.summary.removed} supprimées
+              </Badge>
+              <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                {comparison.summary.changed} modifiées
+              </Badge>
+              <Badge variant="outline">{comparison.summary.unchanged} identiques</Badge>
+              <Badge variant="outline">
+                Δ confiance moyenne : {formatDelta(comparison.summary.avgConfidenceDelta)}
+              </Badge>
+            </div>
+
+            <RuleDiffTabs added={comparison.added} removed={comparison.removed} changed={comparison.changed} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Rule } from "@/types/rule";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+
+interface SourceViewerDialogProps {
+  documentId: string;
+  documentName: string;
+  rules: Rule[];
+  // Rule to open the viewer on (its page and highlighted quote)
+  initialRuleId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRuleClick?: (rule: Rule) => void;
+}
+
+interface PageSpan {
+  page: number;
+  start: number;
+  end: number;
+}
+
+interface Segment {
+  text: string;
+  ruleIds: string[];
+}
+
+// Parsers join pages with this separator (upload-documents/parsing/types.ts)
+const PAGE_SEPARATOR = "\n\n===PAGE_SEPARATOR===\n\n";
+
+// Character range of every page in the parsed text, same offsets as rules.source_start/end
+const computePageSpans = (text: string): PageSpan[] => {
+  const spans: PageSpan[] = [];
+  let start = 0;
+  while (true) {
+    const separatorIndex = text.indexOf(PAGE_SEPARATOR, start);
+    const end = separatorIndex < 0 ? text.length : separatorIndex;
+    spans.push({ page: spans.length + 1, start, end });
+    if (separatorIndex < 0) break;
+    start = separatorIndex + PAGE_SEPARATOR.length;
+  }
+  return spans;
+};
+
+// Cut the page text at every rule boundary, each segment knowing the rules covering it
+const segmentPage = (text: string, span: PageSpan, rules: Rule[]): Segment[] => {
+  const ranges = rules
+    .filter((r) => r.source.start !== undefined && r.source.end !== undefined)
+    .map((r) => ({
+      id: r.id,
+      start: Math.max(r.source.start!, span.start),
+      end: Math.min(r.source.end!, span.end),
+    }))
+    .filter((r) => r.start < r.end);
+
+  const cuts = new Set<number>([span.start, span.end]);
+  ranges.forEach((r) => {
+    cuts.add(r.start);
+    cuts.add(r.end);
+  });
+  const points = [...cuts].sort((a, b) => a - b);
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const [from, to] = [points[i], points[i + 1]];
+    segments.push({
+      text: text.slice(from, to),
+      ruleIds: ranges.filter((r) => r.start <= from && r.end >= to).map((r) => r.id),
+    });
+  }
+  return segments;
+};
+
+const byPosition = (a: Rule, b: Rule) =>
+  (a.source.start ?? Number.MAX_SAFE_INTEGER) - (b.source.start ?? Number.MAX_SAFE_INTEGER);
+
+export const SourceViewerDialog = ({
+  documentId,
+  documentName,
+  rules,
+  initialRuleId,
+  open,
+  onOpenChange,
+  onRuleClick,
+}: SourceViewerDialogProps) => {
+  const [parsedText, setParsedText] = useState<string | null>(null);
+  const [isPdf, setIsPdf] = useState(false);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [page, setPage] = useState(1);
+  const [activeRuleId, setActiveRuleId] = useState<string | null>(null);
+  const activeMarkRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    setOriginalUrl(null);
+
+    supabase
+      .from("documents")
+      .select("parsed_text, mime_type")
+      .eq("id", documentId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching document text:", error);
+        }
+        setParsedText(data?.parsed_text ?? null);
+        setIsPdf(data?.mime_type === "application/pdf");
+        setLoading(false);
+      });
+  }, [open, documentId]);
+
+  // Open on the page of the requested rule
+  useEffect(() => {
+    if (!open) return;
+    const rule = rules.find((r) => r.id === initialRuleId);
+    setActiveRuleId(rule?.id ?? null);
+    setPage(rule?.source.page || 1);
+  }, [open, initialRuleId, rules]);
+
+  // Signed URL of the original, only fetched when the PDF tab can be shown
+  useEffect(() => {
+    if (!open || !isPdf || originalUrl) return;
+
+    supabase.functions
+      .invoke("download-document", { body: { documentId, inline: true } })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching original document:", error);
+          return;
+        }
+        setOriginalUrl(data?.url ?? null);
+      });
+  }, [open, isPdf, originalUrl, documentId]);
+
+  const pageSpans = useMemo(() => (parsedText ? computePageSpans(parsedText) : []), [parsedText]);
+  const pageCount = pageSpans.length;
+  const span = pageSpans[page - 1];
+
+  const pageRules = useMemo(
+    () => rules.filter((r) => r.source.page === page).sort(byPosition),
+    [rules, page]
+  );
+
+  const segments = useMemo(
+    () => (parsedText && span ? segmentPage(parsedText, span, pageRules) : []),
+    [parsedText, span, pageRules]
+  );
+
+  const activeIndex = pageRules.findIndex((r) => r.id === activeRuleId);
+  const activeRule = activeIndex >= 0 ? pageRules[activeIndex] : null;
+
+  useEffect(() => {
+    activeMarkRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [activeRuleId, page, segments]);
+
+  const goToPage = (target: number) => {
+    setPage(target);
+    const first = rules.filter((r) => r.source.page === target).sort(byPosition)[0];
+    setActiveRuleId(first?.id ?? null);
+  };
+
+  const stepRule = (offset: number) => {
+    const next = pageRules[activeIndex + offset];
+    if (next) setActiveRuleId(next.id);
+  };
+
+  // Only the first segment of the active rule gets the scroll ref
+  let activeMarked = false;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>{documentName}</DialogTitle>
+          <DialogDescription>
+            Source des règles extraites, page par page.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !parsedText ? (
+          <p className="text-sm text-muted-foreground">
+            Le texte de ce document n'est pas disponible.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" disabled={page <= 1} onClick={() => goToPage(page - 1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm font-medium">Page {page} / {pageCount}</span>
+                <Button variant="outline" size="icon" disabled={page >= pageCount} onClick={() => goToPage(page + 1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">
+                  {pageRules.length === 0
+                    ? "Aucune règle sur cette page"
+                    : `Règle ${activeIndex >= 0 ? activeIndex + 1 : "–"} / ${pageRules.length} sur cette page`}
+                </span>
+                <Button variant="outline" size="sm" disabled={activeIndex <= 0} onClick={() => stepRule(-1)}>
+                  Précédente
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pageRules.length === 0 || activeIndex >= pageRules.length - 1}
+                  onClick={() => (activeIndex < 0 ? setActiveRuleId(pageRules[0].id) : stepRule(1))}
+                >
+                  Suivante
+                </Button>
+              </div>
+            </div>
+
+            {activeRule && (
+              <div className="rounded-lg border border-primary/30 bg-primary/5 p-3 space-y-2">
+                <p className="text-sm font-medium text-foreground">{activeRule.text}</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{activeRule.domain}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    Confiance {Math.round(activeRule.confidence * 100)}%
+                  </span>
+                  {activeRule.source.start === undefined && (
+                    <span className="text-xs text-muted-foreground">
+                      · Citation non retrouvée dans le texte de la page
+                    </span>
+                  )}
+                  {onRuleClick && (
+                    <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onRuleClick(activeRule)}>
+                      Détails
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <Tabs defaultValue="text">
+              <TabsList>
+                <TabsTrigger value="text">Texte</TabsTrigger>
+                {isPdf && <TabsTrigger value="original">Original</TabsTrigger>}
+              </TabsList>
+
+              <TabsContent value="text">
+                <ScrollArea className="h-[480px] rounded-lg border p-4">
+                  <p className="whitespace-pre-wrap text-sm leading-relaxed text-muted-foreground">
+                    {segments.map((segment, idx) => {
+                      if (segment.ruleIds.length === 0) return <span key={idx}>{segment.text}</span>;
+
+                      const isActive = !!activeRuleId && segment.ruleIds.includes(activeRuleId);
+                      const ref = isActive && !activeMarked ? (el: HTMLElement | null) => { activeMarkRef.current = el; } : undefined;
+                      if (isActive) activeMarked = true;
+
+                      return (
+                        <mark
+                          key={idx}
+                          ref={ref}
+                          onClick={() => setActiveRuleId(isActive ? activeRuleId : segment.ruleIds[0])}
+                          className={`cursor-pointer rounded px-0.5 text-foreground ${
+                            isActive ? "bg-primary/30 ring-1 ring-primary" : "bg-amber-100 hover:bg-amber-200"
+                          }`}
+                        >
+                          {segment.text}
+                        </mark>
+                      );
+                    })}
+                  </p>
+                </ScrollArea>
+              </TabsContent>
+
+              {isPdf && (
+                <TabsContent value="original">
+                  {originalUrl ? (
+                    <iframe
+                      key={page}
+                      src={`${originalUrl}#page=${page}`}
+                      title={documentName}
+                      className="h-[480px] w-full rounded-lg border"
+                    />
+                  ) : (
+                    <p className="py-12 text-center text-sm text-muted-foreground">
+                      Le fichier original n'est pas disponible pour ce document.
+                    </p>
+                  )}
+                </TabsContent>
+              )}
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
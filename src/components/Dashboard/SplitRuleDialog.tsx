@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Rule } from "@/types/rule";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { RuleDraftForm, draftFormFromRule, toRuleDraft } from "@/lib/ruleDraft";
+import { RuleDraftFields } from "./RuleDraftFields";
+
+interface SplitRuleDialogProps {
+  rule: Rule | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSplit?: () => void;
+}
+
+export const SplitRuleDialog = ({ rule, ...props }: SplitRuleDialogProps) => {
+  if (!rule) return null;
+
+  // Keyed on the rule so the parts are rebuilt when another rule is split
+  return <SplitRule key={rule.id} rule={rule} {...props} />;
+};
+
+const SplitRule = ({ rule, open, onOpenChange, onSplit }: SplitRuleDialogProps & { rule: Rule }) => {
+  // Every part starts as a copy of the original, to be trimmed down
+  const [parts, setParts] = useState<RuleDraftForm[]>(() => [draftFormFromRule(rule), draftFormFromRule(rule)]);
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const updatePart = (index: number, part: RuleDraftForm) =>
+    setParts((current) => current.map((p, i) => (i === index ? part : p)));
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc("split_rule", {
+      p_rule_id: rule.id,
+      p_parts: parts.map(toRuleDraft),
+      p_reason: reason.trim() || undefined,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Règle scindée",
+      description: `${parts.length} règles créées. Les cas de test sont à régénérer pour chacune.`,
+    });
+    onSplit?.();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Scinder la règle</DialogTitle>
+          <DialogDescription>{rule.text}</DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[55vh] pr-3">
+          <div className="space-y-4">
+            {parts.map((part, index) => (
+              <div key={index} className="space-y-2">
+                {index > 0 && <Separator />}
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium">Partie {index + 1}</h4>
+                  {parts.length > 2 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setParts((current) => current.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <RuleDraftFields value={part} onChange={(value) => updatePart(index, value)} />
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <Button variant="outline" size="sm" onClick={() => setParts((current) => [...current, draftFormFromRule(rule)])}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter une partie
+        </Button>
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Motif de la scission (conservé dans l'historique)"
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Annuler</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || parts.some((p) => !p.text.trim())}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Scinder
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,7 @@
 import { FileText, CheckCircle2, AlertCircle, TrendingUp } from "lucide-react";
 import { Card } from "@/components/ui/card";
+import { ReviewStatus } from "@/types/rule";
+import { REVIEW_STATUSES, REVIEW_STATUS_LABELS } from "@/lib/review";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
 
 interface StatCardProps {
@@ -35,6 +37,7 @@ interface StatsCardsProps {
   rules?: Array<{
     domain: string | null;
     confidence?: number | null;
+    reviewStatus?: ReviewStatus;
   }>;
 }
 
@@ -64,6 +67,12 @@ export const StatsCards = ({ totalRules, totalDocuments, rules = [] }: StatsCard
 
   const domainsCount = Object.keys(domainCounts).length;
 
+  // Avancement de la revue
+  const reviewCounts = REVIEW_STATUSES.map((status) => ({
+    status,
+    count: rules.filter((r) => (r.reviewStatus ?? "draft") === status).length,
+  }));
+
   // Distribution de confiance par tranches
   const confidenceRanges = [
     { range: '0-20%', min: 0, max: 0.2, count: 0 },
@@ -103,6 +112,21 @@ export const StatsCards = ({ totalRules, totalDocuments, rules = [] }: StatsCard
         />
       </div>
 
+      {/* Review status counts */}
+      {rules.length > 0 && (
+        <Card className="p-6">
+          <h3 className="mb-4 text-lg font-semibold">Revue des règles</h3>
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+            {reviewCounts.map(({ status, count }) => (
+              <div key={status}>
+                <p className="text-sm font-medium text-muted-foreground">{REVIEW_STATUS_LABELS[status]}</p>
+                <p className="mt-1 text-2xl font-semibold text-foreground">{count}</p>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Charts */}
       {rules.length > 0 && (
         <div className="grid gap-6 md:grid-cols-2">
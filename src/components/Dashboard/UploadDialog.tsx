@@ -14,9 +14,12 @@ import { supabase } from "@/integrations/supabase/client";
 interface UploadDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  // Upload a single file as the next version of this document
+  parentDocument?: { id: string; name: string; version: number };
+  onUploaded?: (documentId: string) => void;
 }
 
-export const UploadDialog = ({ open, onOpenChange }: UploadDialogProps) => {
+export const UploadDialog = ({ open, onOpenChange, parentDocument, onUploaded }: UploadDialogProps) => {
   const [dragActive, setDragActive] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isUploading, setIsUploading] = useState(false);
@@ -38,15 +41,18 @@ export const UploadDialog = ({ open, onOpenChange }: UploadDialogProps) => {
     setDragActive(false);
 
     const files = Array.from(e.dataTransfer.files).filter(
-      (file) => file.type === "application/pdf" || file.name.endsWith(".pptx")
+      (file) =>
+        file.type === "application/pdf" ||
+        file.name.endsWith(".pptx") ||
+        file.name.endsWith(".docx")
     );
-    setSelectedFiles((prev) => [...prev, ...files]);
+    setSelectedFiles((prev) => (parentDocument ? files.slice(0, 1) : [...prev, ...files]));
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const files = Array.from(e.target.files);
-      setSelectedFiles((prev) => [...prev, ...files]);
+      setSelectedFiles((prev) => (parentDocument ? files.slice(0, 1) : [...prev, ...files]));
     }
   };
 
@@ -76,6 +82,9 @@ export const UploadDialog = ({ open, onOpenChange }: UploadDialogProps) => {
       for (const file of selectedFiles) {
         const formData = new FormData();
         formData.append("file", file);
+        if (parentDocument) {
+          formData.append("parentDocumentId", parentDocument.id);
+        }
 
         const { data, error } = await supabase.functions.invoke("upload-documents", {
           body: formData,
@@ -94,9 +103,12 @@ export const UploadDialog = ({ open, onOpenChange }: UploadDialogProps) => {
         }
 
         toast({
-          title: "Upload réussi",
+          title: parentDocument ? `Version ${parentDocument.version + 1} uploadée` : "Upload réussi",
           description: "Extraction en cours...",
         });
+        if (data?.documentId) {
+          onUploaded?.(data.documentId);
+        }
       }
 
       setSelectedFiles([]);
@@ -116,9 +128,13 @@ export const UploadDialog = ({ open, onOpenChange }: UploadDialogProps) => {
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Uploader des documents</DialogTitle>
+          <DialogTitle>
+            {parentDocument ? `Nouvelle version de ${parentDocument.name}` : "Uploader des documents"}
+          </DialogTitle>
           <DialogDescription>
-            Formats acceptés : PDF, PPTX. Les règles seront extraites automatiquement.
+            {parentDocument
+              ? `Le fichier sera enregistré comme version ${parentDocument.version + 1} et comparable à la version précédente.`
+              : "Formats acceptés : PDF, PPTX, DOCX. Les règles seront extraites automatiquement."}
           </DialogDescription>
         </DialogHeader>
 
@@ -137,11 +153,11 @@ export const UploadDialog = ({ open, onOpenChange }: UploadDialogProps) => {
           <p className="mt-4 font-medium text-foreground">
             Glissez vos fichiers ici ou cliquez pour sélectionner
           </p>
-          <p className="mt-1 text-sm text-muted-foreground">PDF et PPTX uniquement</p>
+          <p className="mt-1 text-sm text-muted-foreground">PDF, PPTX et DOCX uniquement</p>
           <input
             type="file"
-            multiple
-            accept=".pdf,.pptx"
+            multiple={!parentDocument}
+            accept=".pdf,.pptx,.docx"
             onChange={handleFileInput}
             className="absolute inset-0 cursor-pointer opacity-0"
           />
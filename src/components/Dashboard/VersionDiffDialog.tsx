@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { VersionComparison } from "@/types/rule";
+import { RuleDiffTabs } from "./RuleDiffTabs";
+
+interface VersionDiffDialogProps {
+  documentId: string | null;
+  // Defaults to the previous version of documentId
+  baseDocumentId?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const VersionDiffDialog = ({ documentId, baseDocumentId, open, onOpenChange }: VersionDiffDialogProps) => {
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !documentId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setComparison(null);
+
+    supabase.functions
+      .invoke("compare-versions", { body: { documentId, baseDocumentId: baseDocumentId ?? undefined } })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          setError(error.message);
+        } else {
+          setComparison(data as VersionComparison);
+        }
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, documentId, baseDocumentId]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>
+            {comparison
+              ? `Version ${comparison.base.version} → version ${comparison.target.version}`
+              : "Comparaison des versions"}
+          </DialogTitle>
+          <DialogDescription>
+            Règles ajoutées, supprimées ou modifiées entre les deux versions du document.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {comparison && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div className="rounded-md border border-border p-3">
+                <p className="font-medium text-foreground">v{comparison.base.version} · {comparison.base.name}</p>
+                <p className="text-muted-foreground">
+                  {new Date(comparison.base.createdAt).toLocaleDateString("fr-FR")} · {comparison.base.rulesCount} règles
+                </p>
+              </div>
+              <div className="rounded-md border border-border p-3">
+                <p className="font-medium text-foreground">v{comparison.target.version} · {comparison.target.name}</p>
+                <p className="text-muted-foreground">
+                  {new Date(comparison.target.createdAt).toLocaleDateString("fr-FR")} · {comparison.target.rulesCount} règles
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                {comparison.summary.added} ajoutées
+              </Badge>
+              <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                {comparison.summary.removed} supprimées
+              </Badge>
+              <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                {comparison.summary.changed} modifiées
+              </Badge>
+              <Badge variant="outline">{comparison.summary.unchanged} identiques</Badge>
+            </div>
+
+            <RuleDiffTabs added={comparison.added} removed={comparison.removed} changed={comparison.changed} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Input } from "@/components/ui/input";
 import {
   Table,
@@ -17,7 +17,7 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Search, ThumbsUp, ThumbsDown } from "lucide-react";
+import { Search, ThumbsUp, ThumbsDown, AlertTriangle, RefreshCw } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 
@@ -28,22 +28,43 @@ interface TestCase {
   inputs: any;
   expected: any;
   created_at: string;
-  feedback?: "up" | "down" | "none";
+  feedback?: string | null;
+  stale?: boolean;
+  stale_reason?: string | null;
 }
 
 interface TestsTableProps {
   testCases: TestCase[];
-  documentId: string;
+  documentId?: string;
   onExport?: (format: "playwright" | "gherkin") => void;
+  onRegenerated?: () => void; // callback to reload the tests after regeneration
 }
 
-export const TestsTable = ({ testCases: initialTestCases, documentId, onExport }: TestsTableProps) => {
+const STALE_REASONS: Record<string, string> = {
+  rule_updated: "La règle a été modifiée depuis la génération du test",
+  new_version: "La règle a changé dans une nouvelle version du document",
+  rule_removed: "La règle n'existe plus dans la nouvelle version du document",
+};
+
+export const TestsTable = ({ testCases: initialTestCases, onExport, onRegenerated }: TestsTableProps) => {
   const [testCases, setTestCases] = useState<TestCase[]>(initialTestCases);
   const [search, setSearch] = useState("");
   const [ruleFilter, setRuleFilter] = useState<string>("all");
+  const [staleFilter, setStaleFilter] = useState<"all" | "stale" | "current">("all");
   const [exportFormat, setExportFormat] = useState<"playwright" | "gherkin">("playwright");
+  const [isRegenerating, setIsRegenerating] = useState(false);
   const { toast } = useToast();
 
+  useEffect(() => {
+    setTestCases(initialTestCases);
+  }, [initialTestCases]);
+
+  // Stale tests that generate-tests can regenerate (the rule still exists)
+  const regenerableRuleIds = Array.from(
+    new Set(testCases.filter((tc) => tc.stale && tc.stale_reason !== "rule_removed").map((tc) => tc.rule_id))
+  );
+  const staleCount = testCases.filter((tc) => tc.stale).length;
+
   // Extract unique rule IDs
   const uniqueRuleIds = Array.from(new Set(testCases.map(tc => tc.rule_id)));
 
@@ -56,7 +77,11 @@ export const TestsTable = ({ testCases: initialTestCases, documentId, onExport }
 
     const matchesRule = ruleFilter === "all" || test.rule_id === ruleFilter;
 
-    return matchesSearch && matchesRule;
+    const matchesStale =
+      staleFilter === "all" ||
+      (staleFilter === "stale" ? !!test.stale : !test.stale);
+
+    return matchesSearch && matchesRule && matchesStale;
   });
 
   const formatJson = (data: any) => {
@@ -71,6 +96,31 @@ export const TestsTable = ({ testCases: initialTestCases, documentId, onExport }
     }
   };
 
+  const handleRegenerateStale = async () => {
+    setIsRegenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("generate-tests", {
+        body: { ruleIds: regenerableRuleIds, staleOnly: true },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Tests régénérés",
+        description: `${data.replaced || 0} test(s) obsolète(s) remplacé(s) par ${data.generated || 0} nouveau(x) cas.`,
+      });
+      onRegenerated?.();
+    } catch (error) {
+      toast({
+        title: "Erreur de régénération",
+        description: error instanceof Error ? error.message : "Échec de la régénération des tests",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
   const handleFeedback = async (testId: string, value: "up" | "down") => {
     const { error } = await supabase
       .from("test_cases")
@@ -122,6 +172,18 @@ export const TestsTable = ({ testCases: initialTestCases, documentId, onExport }
           </SelectContent>
         </Select>
 
+        {/* Stale filter */}
+        <Select value={staleFilter} onValueChange={(v) => setStaleFilter(v as typeof staleFilter)}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="État des tests" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Tous les tests</SelectItem>
+            <SelectItem value="current">À jour</SelectItem>
+            <SelectItem value="stale">Obsolètes ({staleCount})</SelectItem>
+          </SelectContent>
+        </Select>
+
         {/* Export format selector */}
         <Select
           value={exportFormat}
@@ -140,6 +202,13 @@ export const TestsTable = ({ testCases: initialTestCases, documentId, onExport }
         <Button onClick={handleExport} variant="outline">
           Exporter les tests
         </Button>
+
+        {regenerableRuleIds.length > 0 && (
+          <Button onClick={handleRegenerateStale} disabled={isRegenerating}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isRegenerating ? "animate-spin" : ""}`} />
+            {isRegenerating ? "Régénération..." : "Régénérer les obsolètes"}
+          </Button>
+        )}
       </div>
 
       {/* Table */}
@@ -167,6 +236,16 @@ export const TestsTable = ({ testCases: initialTestCases, documentId, onExport }
                 <TableRow key={test.id}>
                   <TableCell className="font-medium max-w-xs">
                     {test.notes || "Sans description"}
+                    {test.stale && (
+                      <Badge
+                        variant="outline"
+                        className="ml-2 bg-amber-50 text-amber-700 border-amber-200"
+                        title={STALE_REASONS[test.stale_reason ?? ""]}
+                      >
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        Obsolète
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Badge variant="outline" className="font-mono text-xs">
@@ -14,6 +14,128 @@ export type Database = {
   }
   public: {
     Tables: {
+      conflict_analyses: {
+        Row: {
+          completed_at: string | null
+          conflicts_found: number | null
+          cost_usd: number | null
+          created_at: string
+          document_id: string
+          error: string | null
+          id: string
+          include_other_documents: boolean
+          pairs_checked: number | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          conflicts_found?: number | null
+          cost_usd?: number | null
+          created_at?: string
+          document_id: string
+          error?: string | null
+          id?: string
+          include_other_documents?: boolean
+          pairs_checked?: number | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          conflicts_found?: number | null
+          cost_usd?: number | null
+          created_at?: string
+          document_id?: string
+          error?: string | null
+          id?: string
+          include_other_documents?: boolean
+          pairs_checked?: number | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conflict_analyses_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conflict_checked_pairs: {
+        Row: {
+          analysis_id: string | null
+          checked_at: string
+          document_a_id: string
+          document_b_id: string
+          rule_a_id: string
+          rule_a_revision: number
+          rule_b_id: string
+          rule_b_revision: number
+          user_id: string
+        }
+        Insert: {
+          analysis_id?: string | null
+          checked_at?: string
+          document_a_id: string
+          document_b_id: string
+          rule_a_id: string
+          rule_a_revision: number
+          rule_b_id: string
+          rule_b_revision: number
+          user_id: string
+        }
+        Update: {
+          analysis_id?: string | null
+          checked_at?: string
+          document_a_id?: string
+          document_b_id?: string
+          rule_a_id?: string
+          rule_a_revision?: number
+          rule_b_id?: string
+          rule_b_revision?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conflict_checked_pairs_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "conflict_analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conflict_checked_pairs_document_a_id_fkey"
+            columns: ["document_a_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conflict_checked_pairs_document_b_id_fkey"
+            columns: ["document_b_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conflict_checked_pairs_rule_a_id_fkey"
+            columns: ["rule_a_id"]
+            isOneToOne: false
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conflict_checked_pairs_rule_b_id_fkey"
+            columns: ["rule_b_id"]
+            isOneToOne: false
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           created_at: string
@@ -21,11 +143,14 @@ export type Database = {
           mime_type: string
           name: string
           pages: number | null
+          parent_document_id: string | null
+          parsed_text: string | null
           path: string
           size_bytes: number | null
           status: string
           summary: string | null
           user_id: string | null
+          version: number
         }
         Insert: {
           created_at?: string
@@ -33,11 +158,14 @@ export type Database = {
           mime_type: string
           name: string
           pages?: number | null
+          parent_document_id?: string | null
+          parsed_text?: string | null
           path: string
           size_bytes?: number | null
           status?: string
           summary?: string | null
           user_id?: string | null
+          version?: number
         }
         Update: {
           created_at?: string
@@ -45,11 +173,14 @@ export type Database = {
           mime_type?: string
           name?: string
           pages?: number | null
+          parent_document_id?: string | null
+          parsed_text?: string | null
           path?: string
           size_bytes?: number | null
           status?: string
           summary?: string | null
           user_id?: string | null
+          version?: number
         }
         Relationships: [
           {
@@ -61,34 +192,142 @@ export type Database = {
           },
         ]
       }
+      extraction_run_rules: {
+        Row: {
+          aliases: Json
+          conditions: Json | null
+          confidence: number | null
+          created_at: string
+          document_id: string
+          domain: string | null
+          grounding_score: number | null
+          id: string
+          job_id: string
+          source_end: number | null
+          source_page: number | null
+          source_quote: string | null
+          source_sect: string | null
+          source_start: number | null
+          structure: Json | null
+          tags: string[]
+          text: string
+          ungrounded: boolean
+        }
+        Insert: {
+          aliases?: Json
+          conditions?: Json | null
+          confidence?: number | null
+          created_at?: string
+          document_id: string
+          domain?: string | null
+          grounding_score?: number | null
+          id?: string
+          job_id: string
+          source_end?: number | null
+          source_page?: number | null
+          source_quote?: string | null
+          source_sect?: string | null
+          source_start?: number | null
+          structure?: Json | null
+          tags?: string[]
+          text: string
+          ungrounded?: boolean
+        }
+        Update: {
+          aliases?: Json
+          conditions?: Json | null
+          confidence?: number | null
+          created_at?: string
+          document_id?: string
+          domain?: string | null
+          grounding_score?: number | null
+          id?: string
+          job_id?: string
+          source_end?: number | null
+          source_page?: number | null
+          source_quote?: string | null
+          source_sect?: string | null
+          source_start?: number | null
+          structure?: Json | null
+          tags?: string[]
+          text?: string
+          ungrounded?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "extraction_run_rules_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extraction_run_rules_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       jobs: {
         Row: {
+          cancelled_at: string | null
+          completed_at: string | null
+          completed_batches: number
+          cost_usd: number | null
           created_at: string
           document_id: string
           error: string | null
           id: string
+          metrics: Json | null
           progress: number
+          request_id: string | null
+          rules_count: number | null
+          settings: Json | null
           status: string
+          total_batches: number | null
+          total_chunks: number | null
           type: string
           updated_at: string
         }
         Insert: {
+          cancelled_at?: string | null
+          completed_at?: string | null
+          completed_batches?: number
+          cost_usd?: number | null
           created_at?: string
           document_id: string
           error?: string | null
           id?: string
+          metrics?: Json | null
           progress?: number
+          request_id?: string | null
+          rules_count?: number | null
+          settings?: Json | null
           status?: string
+          total_batches?: number | null
+          total_chunks?: number | null
           type: string
           updated_at?: string
         }
         Update: {
+          cancelled_at?: string | null
+          completed_at?: string | null
+          completed_batches?: number
+          cost_usd?: number | null
           created_at?: string
           document_id?: string
           error?: string | null
           id?: string
+          metrics?: Json | null
           progress?: number
+          request_id?: string | null
+          rules_count?: number | null
+          settings?: Json | null
           status?: string
+          total_batches?: number | null
+          total_chunks?: number | null
           type?: string
           updated_at?: string
         }
@@ -120,45 +359,256 @@ export type Database = {
         }
         Relationships: []
       }
+      rule_conflicts: {
+        Row: {
+          analysis_id: string | null
+          created_at: string
+          document_a_id: string
+          document_b_id: string
+          explanation: string
+          id: string
+          kind: string
+          rule_a_id: string
+          rule_b_id: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          analysis_id?: string | null
+          created_at?: string
+          document_a_id: string
+          document_b_id: string
+          explanation: string
+          id?: string
+          kind: string
+          rule_a_id: string
+          rule_b_id: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          analysis_id?: string | null
+          created_at?: string
+          document_a_id?: string
+          document_b_id?: string
+          explanation?: string
+          id?: string
+          kind?: string
+          rule_a_id?: string
+          rule_b_id?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rule_conflicts_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "conflict_analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rule_conflicts_document_a_id_fkey"
+            columns: ["document_a_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rule_conflicts_document_b_id_fkey"
+            columns: ["document_b_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rule_conflicts_rule_a_id_fkey"
+            columns: ["rule_a_id"]
+            isOneToOne: false
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rule_conflicts_rule_b_id_fkey"
+            columns: ["rule_b_id"]
+            isOneToOne: false
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rule_links: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          rule_id: string
+          source: Json
+          source_rule_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: string
+          rule_id: string
+          source: Json
+          source_rule_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          rule_id?: string
+          source?: Json
+          source_rule_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rule_links_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rule_revisions: {
+        Row: {
+          action: string
+          after: Json
+          before: Json | null
+          changed_at: string
+          changed_by: string | null
+          id: string
+          reason: string | null
+          revision: number
+          rule_id: string
+        }
+        Insert: {
+          action: string
+          after: Json
+          before?: Json | null
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          reason?: string | null
+          revision: number
+          rule_id: string
+        }
+        Update: {
+          action?: string
+          after?: Json
+          before?: Json | null
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          reason?: string | null
+          revision?: number
+          rule_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rule_revisions_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rules: {
         Row: {
+          aliases: Json
           conditions: Json | null
           confidence: number | null
           created_at: string
           document_id: string
           document_name: string
           domain: string | null
+          embedding: string | null
+          embedding_model: string | null
+          grounding_score: number | null
           id: string
+          origin: string
+          rejection_reason: string | null
+          review_status: string
+          reviewed_at: string | null
+          reviewer_id: string | null
+          revision: number
+          search_vector: unknown | null
+          source_end: number | null
           source_page: number | null
+          source_quote: string | null
           source_sect: string | null
+          source_start: number | null
+          structure: Json | null
           tags: string[]
           text: string
+          ungrounded: boolean
         }
         Insert: {
+          aliases?: Json
           conditions?: Json | null
           confidence?: number | null
           created_at?: string
           document_id: string
           document_name: string
           domain?: string | null
+          embedding?: string | null
+          embedding_model?: string | null
+          grounding_score?: number | null
           id?: string
+          origin?: string
+          rejection_reason?: string | null
+          review_status?: string
+          reviewed_at?: string | null
+          reviewer_id?: string | null
+          revision?: number
+          search_vector?: unknown | null
+          source_end?: number | null
           source_page?: number | null
+          source_quote?: string | null
           source_sect?: string | null
+          source_start?: number | null
+          structure?: Json | null
           tags?: string[]
           text: string
+          ungrounded?: boolean
         }
         Update: {
+          aliases?: Json
           conditions?: Json | null
           confidence?: number | null
           created_at?: string
           document_id?: string
           document_name?: string
           domain?: string | null
+          embedding?: string | null
+          embedding_model?: string | null
+          grounding_score?: number | null
           id?: string
+          origin?: string
+          rejection_reason?: string | null
+          review_status?: string
+          reviewed_at?: string | null
+          reviewer_id?: string | null
+          revision?: number
+          search_vector?: unknown | null
+          source_end?: number | null
           source_page?: number | null
+          source_quote?: string | null
           source_sect?: string | null
+          source_start?: number | null
+          structure?: Json | null
           tags?: string[]
           text?: string
+          ungrounded?: boolean
         }
         Relationships: [
           {
@@ -174,26 +624,38 @@ export type Database = {
         Row: {
           created_at: string
           expected: Json
+          feedback: string | null
           id: string
           inputs: Json
           notes: string | null
           rule_id: string
+          rule_revision: number
+          stale: boolean
+          stale_reason: string | null
         }
         Insert: {
           created_at?: string
           expected: Json
+          feedback?: string | null
           id?: string
           inputs: Json
           notes?: string | null
           rule_id: string
+          rule_revision?: number
+          stale?: boolean
+          stale_reason?: string | null
         }
         Update: {
           created_at?: string
           expected?: Json
+          feedback?: string | null
           id?: string
           inputs?: Json
           notes?: string | null
           rule_id?: string
+          rule_revision?: number
+          stale?: boolean
+          stale_reason?: string | null
         }
         Relationships: [
           {
@@ -210,7 +672,131 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      assign_rule_reviewer: {
+        Args: { p_reviewer_email: string | null; p_rule_id: string }
+        Returns: Database["public"]["Tables"]["rules"]["Row"][]
+      }
+      bulk_set_review_status: {
+        Args: { p_rejection_reason?: string; p_rule_ids: string[]; p_status: string }
+        Returns: number
+      }
+      bulk_update_rules: {
+        Args: { p_changes: Json; p_reason?: string; p_rule_ids: string[] }
+        Returns: number
+      }
+      can_review_rule: {
+        Args: { p_rule_id: string }
+        Returns: boolean
+      }
+      create_rule: {
+        Args: { p_document_id: string; p_reason?: string; p_rule: Json }
+        Returns: Database["public"]["Tables"]["rules"]["Row"][]
+      }
+      delete_rules: {
+        Args: { p_rule_ids: string[] }
+        Returns: number
+      }
+      get_document_versions: {
+        Args: { p_document_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          parent_document_id: string | null
+          status: string
+          version: number
+        }[]
+      }
+      get_rule_context: {
+        Args: { p_context_chars?: number; p_rule_id: string }
+        Returns: {
+          after: string
+          before: string
+          quote: string
+        }[]
+      }
+      get_rule_reviewers: {
+        Args: { p_document_id: string }
+        Returns: {
+          email: string
+          id: string
+        }[]
+      }
+      is_valid_rule_structure: {
+        Args: { p_structure: Json }
+        Returns: boolean
+      }
+      match_rules: {
+        Args: {
+          p_document_id?: string
+          p_match_count?: number
+          p_min_similarity?: number
+          p_query_embedding: string
+        }
+        Returns: {
+          document_id: string
+          document_name: string
+          domain: string | null
+          id: string
+          review_status: string
+          similarity: number
+          source_page: number | null
+          source_sect: string | null
+          text: string
+        }[]
+      }
+      merge_rules: {
+        Args: { p_reason?: string; p_rule: Json; p_rule_ids: string[] }
+        Returns: Database["public"]["Tables"]["rules"]["Row"][]
+      }
+      owns_rule: {
+        Args: { p_rule_id: string }
+        Returns: boolean
+      }
+      owns_rules: {
+        Args: { p_rule_ids: string[] }
+        Returns: boolean
+      }
+      revert_rule: {
+        Args: { p_reason?: string; p_revision_id: string }
+        Returns: Database["public"]["Tables"]["rules"]["Row"][]
+      }
+      search_rules: {
+        Args: {
+          p_document_id?: string
+          p_domain?: string
+          p_limit?: number
+          p_offset?: number
+          p_query: string
+          p_review_status?: string
+        }
+        Returns: {
+          rank: number
+          rule: Database["public"]["Tables"]["rules"]["Row"]
+          snippet: string
+          total_count: number
+        }[]
+      }
+      set_rule_conflict_status: {
+        Args: { p_conflict_id: string; p_status: string }
+        Returns: Database["public"]["Tables"]["rule_conflicts"]["Row"][]
+      }
+      set_rule_embeddings: {
+        Args: { p_embeddings: string[]; p_model: string; p_rule_ids: string[] }
+        Returns: number
+      }
+      set_rule_review_status: {
+        Args: { p_rejection_reason?: string; p_rule_id: string; p_status: string }
+        Returns: Database["public"]["Tables"]["rules"]["Row"][]
+      }
+      split_rule: {
+        Args: { p_parts: Json; p_reason?: string; p_rule_id: string }
+        Returns: Database["public"]["Tables"]["rules"]["Row"][]
+      }
+      update_rule: {
+        Args: { p_changes: Json; p_reason?: string; p_rule_id: string }
+        Returns: Database["public"]["Tables"]["rules"]["Row"][]
+      }
     }
     Enums: {
       [_ in never]: never
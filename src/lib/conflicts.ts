@@ -0,0 +1,17 @@
+import { ConflictKind, ConflictStatus } from "@/types/rule";
+
+export const CONFLICT_KIND_LABELS: Record<ConflictKind, string> = {
+  contradiction: "Contradiction",
+  overlap: "Chevauchement",
+};
+
+export const CONFLICT_KIND_CLASSES: Record<ConflictKind, string> = {
+  contradiction: "bg-red-50 text-red-700 border-red-200",
+  overlap: "bg-amber-50 text-amber-700 border-amber-200",
+};
+
+export const CONFLICT_STATUS_LABELS: Record<ConflictStatus, string> = {
+  open: "À traiter",
+  resolved: "Résolu",
+  dismissed: "Ignoré",
+};
@@ -39,6 +39,9 @@ export const mockRules: Rule[] = [
     confidence: 0.95,
     source: { page: 3, section: "Section 2.1 - Délais de traitement" },
     createdAt: "2024-01-15T10:35:00Z",
+    reviewStatus: "draft",
+    origin: "extracted",
+    aliases: [],
   },
   {
     id: "rule-2",
@@ -51,6 +54,9 @@ export const mockRules: Rule[] = [
     confidence: 0.98,
     source: { page: 4, section: "Section 2.3 - Montants" },
     createdAt: "2024-01-15T10:35:00Z",
+    reviewStatus: "draft",
+    origin: "extracted",
+    aliases: [],
   },
   {
     id: "rule-3",
@@ -63,6 +69,9 @@ export const mockRules: Rule[] = [
     confidence: 0.92,
     source: { page: 7, section: "Slide 7 - Workflow d'approbation" },
     createdAt: "2024-01-14T14:25:00Z",
+    reviewStatus: "draft",
+    origin: "extracted",
+    aliases: [],
   },
   {
     id: "rule-4",
@@ -75,6 +84,9 @@ export const mockRules: Rule[] = [
     confidence: 0.88,
     source: { page: 9, section: "Slide 9 - Cas particuliers" },
     createdAt: "2024-01-14T14:25:00Z",
+    reviewStatus: "draft",
+    origin: "extracted",
+    aliases: [],
   },
   {
     id: "rule-5",
@@ -87,6 +99,9 @@ export const mockRules: Rule[] = [
     confidence: 0.91,
     source: { page: 12, section: "Chapitre 4 - Congés" },
     createdAt: "2024-01-10T09:20:00Z",
+    reviewStatus: "draft",
+    origin: "extracted",
+    aliases: [],
   },
   {
     id: "rule-6",
@@ -99,6 +114,9 @@ export const mockRules: Rule[] = [
     confidence: 0.96,
     source: { page: 8, section: "Section 3.2 - Frais de déplacement" },
     createdAt: "2024-01-15T10:35:00Z",
+    reviewStatus: "draft",
+    origin: "extracted",
+    aliases: [],
   },
   {
     id: "rule-7",
@@ -111,6 +129,9 @@ export const mockRules: Rule[] = [
     confidence: 0.94,
     source: { page: 5, section: "Section 1.4 - Délais de soumission" },
     createdAt: "2024-01-10T09:20:00Z",
+    reviewStatus: "draft",
+    origin: "extracted",
+    aliases: [],
   },
   {
     id: "rule-8",
@@ -123,5 +144,8 @@ export const mockRules: Rule[] = [
     confidence: 0.87,
     source: { page: 5, section: "Slide 5 - Fournisseurs" },
     createdAt: "2024-01-14T14:25:00Z",
+    reviewStatus: "draft",
+    origin: "extracted",
+    aliases: [],
   },
 ];
@@ -0,0 +1,29 @@
+import { DEADLINE_UNIT_LABELS } from "@/lib/ruleStructure";
+import { DeadlineUnit, Quantity, QuantityKind } from "@/types/rule";
+
+export const QUANTITY_KIND_LABELS: Record<QuantityKind, string> = {
+  amount: "Montant",
+  percentage: "Pourcentage",
+  duration: "Durée",
+  date: "Date",
+};
+
+// "1 000,00 €", "2,5 %", "5 jour(s) ouvré(s)", "01/03/2025"
+export const formatQuantity = (quantity: Quantity): string => {
+  const { kind, value, unit } = quantity;
+  if (kind === "date") return new Date(`${value}T00:00:00`).toLocaleDateString("fr-FR");
+
+  const number = Number(value);
+  switch (kind) {
+    case "amount":
+      try {
+        return number.toLocaleString("fr-FR", { style: "currency", currency: unit });
+      } catch {
+        return `${number.toLocaleString("fr-FR")} ${unit}`;
+      }
+    case "percentage":
+      return `${number.toLocaleString("fr-FR")} %`;
+    case "duration":
+      return `${number.toLocaleString("fr-FR")} ${DEADLINE_UNIT_LABELS[unit as DeadlineUnit] ?? unit}`;
+  }
+};
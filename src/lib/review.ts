@@ -0,0 +1,18 @@
+import { ReviewStatus } from "@/types/rule";
+
+// Review workflow order: draft -> in_review -> approved | rejected
+export const REVIEW_STATUSES: ReviewStatus[] = ["draft", "in_review", "approved", "rejected"];
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: "Brouillon",
+  in_review: "En revue",
+  approved: "Approuvée",
+  rejected: "Rejetée",
+};
+
+export const REVIEW_STATUS_CLASSES: Record<ReviewStatus, string> = {
+  draft: "bg-muted text-muted-foreground border-border",
+  in_review: "bg-blue-50 text-blue-700 border-blue-200",
+  approved: "bg-green-50 text-green-700 border-green-200",
+  rejected: "bg-red-50 text-red-700 border-red-200",
+};
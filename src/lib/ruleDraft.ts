@@ -0,0 +1,38 @@
+import { Rule, RuleDraft } from "@/types/rule";
+
+// Editable state of a rule form: conditions one per line, tags comma separated
+export interface RuleDraftForm {
+  text: string;
+  conditions: string;
+  domain: string;
+  tags: string;
+  page: string;
+  section: string;
+}
+
+export const emptyDraftForm = (): RuleDraftForm => ({
+  text: "",
+  conditions: "",
+  domain: "",
+  tags: "",
+  page: "",
+  section: "",
+});
+
+export const draftFormFromRule = (rule: Rule): RuleDraftForm => ({
+  text: rule.text,
+  conditions: rule.conditions.join("\n"),
+  domain: rule.domain ?? "",
+  tags: rule.tags.join(", "),
+  page: rule.source.page ? String(rule.source.page) : "",
+  section: rule.source.section,
+});
+
+export const toRuleDraft = (form: RuleDraftForm): RuleDraft => ({
+  text: form.text.trim(),
+  conditions: form.conditions.split("\n").map((c) => c.trim()).filter(Boolean),
+  domain: form.domain.trim(),
+  tags: form.tags.split(",").map((t) => t.trim()).filter(Boolean),
+  source_page: form.page ? Number(form.page) : null,
+  source_sect: form.section.trim() || null,
+});
@@ -0,0 +1,51 @@
+import { ConditionOperator, DeadlineUnit, RuleModality, StructuredCondition } from "@/types/rule";
+
+export const MODALITY_LABELS: Record<RuleModality, string> = {
+  must: "Obligation",
+  must_not: "Interdiction",
+  may: "Permission",
+};
+
+export const MODALITY_CLASSES: Record<RuleModality, string> = {
+  must: "bg-blue-50 text-blue-700 border-blue-200",
+  must_not: "bg-red-50 text-red-700 border-red-200",
+  may: "bg-green-50 text-green-700 border-green-200",
+};
+
+export const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  eq: "=",
+  neq: "≠",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  between: "entre",
+  in: "parmi",
+  not_in: "hors de",
+  contains: "contient",
+  exists: "renseigné",
+};
+
+export const DEADLINE_UNIT_LABELS: Record<DeadlineUnit, string> = {
+  hour: "heure(s)",
+  day: "jour(s)",
+  business_day: "jour(s) ouvré(s)",
+  week: "semaine(s)",
+  month: "mois",
+  year: "an(s)",
+};
+
+// "montant > 1000 EUR", "montant entre 100 et 500 EUR", "pays parmi FR, BE"
+export const formatConditionValue = (condition: StructuredCondition): string => {
+  const { operator, value, unit } = condition;
+  if (operator === "exists" || value === null) return "";
+
+  const suffix = unit ? ` ${unit}` : "";
+  if (Array.isArray(value)) {
+    return operator === "between" && value.length === 2
+      ? `${value[0]} et ${value[1]}${suffix}`
+      : `${value.join(", ")}${suffix}`;
+  }
+  if (typeof value === "boolean") return value ? "oui" : "non";
+  return `${value}${suffix}`;
+};
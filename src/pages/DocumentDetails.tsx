@@ -1,19 +1,43 @@
-import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { Rule } from "@/types/rule";
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
+import { AnswerCitation, DocumentVersion, Rule } from "@/types/rule";
+import { ExtractionRun, ExtractionSettings } from "@/types/extraction";
 import { Header } from "@/components/Dashboard/Header";
 import { StatsCards } from "@/components/Dashboard/StatsCards";
 import { RulesTable } from "@/components/Dashboard/RulesTable";
 import { RuleDetailsDialog } from "@/components/Dashboard/RuleDetailsDialog";
 import { UploadDialog } from "@/components/Dashboard/UploadDialog";
+import { ReExtractDialog } from "@/components/Dashboard/ReExtractDialog";
+import { ExtractionRunsList } from "@/components/Dashboard/ExtractionRunsList";
+import { RunComparisonDialog } from "@/components/Dashboard/RunComparisonDialog";
+import { SourceViewerDialog } from "@/components/Dashboard/SourceViewerDialog";
+import { CreateRuleDialog } from "@/components/Dashboard/CreateRuleDialog";
+import { MergeRulesDialog } from "@/components/Dashboard/MergeRulesDialog";
+import { SplitRuleDialog } from "@/components/Dashboard/SplitRuleDialog";
+import { DocumentVersionsList } from "@/components/Dashboard/DocumentVersionsList";
+import { VersionDiffDialog } from "@/components/Dashboard/VersionDiffDialog";
+import { DocumentChat } from "@/components/Dashboard/DocumentChat";
+import { ConflictsPanel } from "@/components/Dashboard/ConflictsPanel";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ArrowLeft, BookOpen, Download, FilePlus2, RefreshCw } from "lucide-react";
+
+// Everything but the embedding and search_vector columns, never used here
+const RULE_COLUMNS =
+  "id, document_id, document_name, text, conditions, domain, tags, confidence, origin, aliases, structure, revision, review_status, reviewer_id, reviewed_at, rejection_reason, grounding_score, ungrounded, source_page, source_sect, source_start, source_end, source_quote, created_at";
 
 const DocumentDetails = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [rules, setRules] = useState<Rule[]>([]);
   const [documentName, setDocumentName] = useState("");
   const [documentSummary, setDocumentSummary] = useState<string | null>(null);
@@ -21,16 +45,33 @@ const DocumentDetails = () => {
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [uploadOpen, setUploadOpen] = useState(false);
   const [isGeneratingTests, setIsGeneratingTests] = useState(false);
+  const [runs, setRuns] = useState<ExtractionRun[]>([]);
+  const [reExtractOpen, setReExtractOpen] = useState(false);
+  const [comparedRuns, setComparedRuns] = useState<[string, string] | null>(null);
+  const [viewerOpen, setViewerOpen] = useState(false);
+  const [viewerRuleId, setViewerRuleId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [newVersionOpen, setNewVersionOpen] = useState(false);
+  const [diffDocumentId, setDiffDocumentId] = useState<string | null>(null);
+  const [createRuleOpen, setCreateRuleOpen] = useState(false);
+  const [mergedRules, setMergedRules] = useState<Rule[]>([]);
+  const [splitRule, setSplitRule] = useState<Rule | null>(null);
   const { toast } = useToast();
 
+  // Open the rule requested by the global search (?rule=<id>) once rules are loaded
   useEffect(() => {
-    if (id) {
-      fetchDocument();
-      fetchRules();
-    }
-  }, [id]);
+    const ruleId = searchParams.get("rule");
+    if (!ruleId) return;
+
+    const rule = rules.find((r) => r.id === ruleId);
+    if (!rule) return;
+
+    setSelectedRule(rule);
+    setDetailsOpen(true);
+    setSearchParams({}, { replace: true });
+  }, [rules, searchParams, setSearchParams]);
 
-  const fetchDocument = async () => {
+  const fetchDocument = useCallback(async () => {
     const { data, error } = await supabase
       .from("documents")
       .select("name, summary")
@@ -50,12 +91,12 @@ const DocumentDetails = () => {
 
     setDocumentName(data.name || "");
     setDocumentSummary(data.summary || null);
-  };
+  }, [id, navigate]);
 
-  const fetchRules = async () => {
+  const fetchRules = useCallback(async () => {
     const { data, error } = await supabase
       .from("rules")
-      .select("*")
+      .select(RULE_COLUMNS)
       .eq("document_id", id);
 
     if (error) {
@@ -64,12 +105,99 @@ const DocumentDetails = () => {
     }
 
     if (data) {
-      setRules(data.map((r: any) => ({
+      const mapped: Rule[] = data.map((r: any) => ({
         ...r,
         conditions: r.conditions || [],
-        source: { page: r.source_page || 0, section: r.source_sect || "" },
-      })));
+        source: {
+          page: r.source_page || 0,
+          section: r.source_sect || "",
+          start: r.source_start ?? undefined,
+          end: r.source_end ?? undefined,
+          quote: r.source_quote ?? undefined,
+        },
+        reviewStatus: r.review_status ?? "draft",
+        reviewerId: r.reviewer_id,
+        rejectionReason: r.rejection_reason,
+        aliases: r.aliases || [],
+        structure: r.structure ?? null,
+      }));
+      setRules(mapped);
+      // Keep the open rule dialog on the saved (or reverted) values
+      setSelectedRule((current) => (current ? mapped.find((r) => r.id === current.id) ?? null : null));
+    }
+  }, [id]);
+
+  const fetchRuns = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("jobs")
+      .select("id, type, status, progress, settings, rules_count, cost_usd, created_at, completed_at, error")
+      .eq("document_id", id)
+      .in("type", ["extract", "re-extract"])
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching extraction runs:", error);
+      return;
+    }
+
+    setRuns((data || []).map((job) => ({
+      id: job.id,
+      type: job.type as ExtractionRun["type"],
+      status: job.status,
+      progress: job.progress,
+      settings: job.settings as unknown as ExtractionSettings | null,
+      rulesCount: job.rules_count,
+      costUsd: job.cost_usd,
+      createdAt: job.created_at,
+      completedAt: job.completed_at,
+      error: job.error,
+    })));
+  }, [id]);
+
+  const fetchVersions = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_document_versions", { p_document_id: id });
+
+    if (error) {
+      console.error("Error fetching document versions:", error);
+      return;
+    }
+
+    setVersions(data || []);
+  }, [id]);
+
+  useEffect(() => {
+    if (id) {
+      fetchDocument();
+      fetchRules();
+      fetchRuns();
+      fetchVersions();
+    }
+  }, [id, fetchDocument, fetchRules, fetchRuns, fetchVersions]);
+
+  // Refresh runs while an extraction is in progress
+  useEffect(() => {
+    const hasActiveRun = runs.some(run => run.status === "running" || run.status === "finalizing");
+    if (!hasActiveRun) return;
+
+    const interval = setInterval(fetchRuns, 3000);
+    return () => clearInterval(interval);
+  }, [runs, fetchRuns]);
+
+  const handleCancelRun = async (runId: string) => {
+    const { error } = await supabase.functions.invoke("cancel-job", {
+      body: { jobId: runId },
+    });
+
+    if (error) {
+      toast({
+        title: "Erreur d'annulation",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
     }
+
+    fetchRuns();
   };
 
   const handleRuleClick = (rule: Rule) => {
@@ -77,10 +205,10 @@ const DocumentDetails = () => {
     setDetailsOpen(true);
   };
 
-  const handleExport = async () => {
+  const handleExport = async (approvedOnly = false) => {
     try {
       const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-rules?format=xlsx&documentId=${id}`,
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-rules?format=xlsx&documentId=${id}${approvedOnly ? "&approvedOnly=true" : ""}`,
         {
           headers: {
             Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
@@ -94,7 +222,7 @@ const DocumentDetails = () => {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `rules-${documentName}.xlsx`;
+      a.download = `rules-${documentName}${approvedOnly ? "-approved" : ""}.xlsx`;
       a.click();
 
       toast({
@@ -110,6 +238,45 @@ const DocumentDetails = () => {
     }
   };
 
+  const currentVersion = versions.find((v) => v.id === id);
+
+  const openViewer = (rule: Rule | null) => {
+    setSelectedRule(null);
+    setViewerRuleId(rule?.id ?? null);
+    setViewerOpen(true);
+  };
+
+  const handleCitationClick = (citation: AnswerCitation) => {
+    const rule = citation.ruleId ? rules.find((r) => r.id === citation.ruleId) : undefined;
+    if (rule) {
+      handleRuleClick(rule);
+    } else {
+      openViewer(null);
+    }
+  };
+
+  const openSplit = (rule: Rule) => {
+    setSelectedRule(null);
+    setSplitRule(rule);
+  };
+
+  const handleDownloadOriginal = async () => {
+    const { data, error } = await supabase.functions.invoke("download-document", {
+      body: { documentId: id },
+    });
+
+    if (error || !data?.url) {
+      toast({
+        title: "Téléchargement impossible",
+        description: error?.message || "Le fichier original n'est pas disponible.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    window.open(data.url, "_blank", "noopener");
+  };
+
   const handleGenerateTests = async () => {
     setIsGeneratingTests(true);
     try {
@@ -152,11 +319,38 @@ const DocumentDetails = () => {
                 <ArrowLeft className="h-6 w-6" />
               </Button>
               <h1 className="text-3xl font-bold text-foreground">{documentName}</h1>
+              {currentVersion && versions.length > 1 && (
+                <Badge variant="outline">v{currentVersion.version}</Badge>
+              )}
             </div>
             <div className="flex gap-2">
-              <Button onClick={handleExport} variant="outline">
-                Exporter Excel
+              {currentVersion && !versions.some((v) => v.parent_document_id === id) && (
+                <Button onClick={() => setNewVersionOpen(true)} variant="outline">
+                  <FilePlus2 className="h-4 w-4 mr-2" />
+                  Nouvelle version
+                </Button>
+              )}
+              <Button onClick={() => setReExtractOpen(true)} variant="outline">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Ré-extraire
+              </Button>
+              <Button onClick={() => openViewer(null)} variant="outline">
+                <BookOpen className="h-4 w-4 mr-2" />
+                Visionneuse
               </Button>
+              <Button onClick={handleDownloadOriginal} variant="outline">
+                <Download className="h-4 w-4 mr-2" />
+                Original
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">Exporter Excel</Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuItem onClick={() => handleExport()}>Toutes les règles</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport(true)}>Règles approuvées</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button onClick={handleGenerateTests} disabled={isGeneratingTests}>
                 {isGeneratingTests ? "Génération..." : "Générer Scénarios"}
               </Button>
@@ -178,184 +372,140 @@ const DocumentDetails = () => {
             )
           }
 
+          {id && rules.length > 0 && (
+            <DocumentChat documentId={id} onCitationClick={handleCitationClick} />
+          )}
+
           <div>
             <div className="mb-4">
               <h2 className="text-2xl font-semibold text-foreground">Règles extraites</h2>
               <p className="text-sm text-muted-foreground">
                 Gérez et explorez les règles métier extraites
               </p>
-              import {useState, useEffect} from "react";
-              import {useParams, useNavigate} from "react-router-dom";
-              import {Rule} from "@/types/rule";
-              import {Header} from "@/components/Dashboard/Header";
-              import {StatsCards} from "@/components/Dashboard/StatsCards";
-              import {RulesTable} from "@/components/Dashboard/RulesTable";
-              import {RuleDetailsDialog} from "@/components/Dashboard/RuleDetailsDialog";
-              import {UploadDialog} from "@/components/Dashboard/UploadDialog";
-              import {useToast} from "@/hooks/use-toast";
-              import {supabase} from "@/integrations/supabase/client";
-              import {Button} from "@/components/ui/button";
-              import {ArrowLeft} from "lucide-react";
-
-const DocumentDetails = () => {
-  const {id} = useParams<{ id: string }>();
-              const navigate = useNavigate();
-              const [rules, setRules] = useState<Rule[]>([]);
-              const [documentName, setDocumentName] = useState("");
-              const [documentSummary, setDocumentSummary] = useState<string | null>(null);
-              const [selectedRule, setSelectedRule] = useState<Rule | null>(null);
-              const [detailsOpen, setDetailsOpen] = useState(false);
-              const [uploadOpen, setUploadOpen] = useState(false);
-              const [isGeneratingTests, setIsGeneratingTests] = useState(false);
-              const {toast} = useToast();
-
-  useEffect(() => {
-    if (id) {
-                fetchDocument();
-              fetchRules();
-    }
-  }, [id]);
-
-  const fetchDocument = async () => {
-    const {data, error} = await supabase
-              .from("documents")
-              .select("name, summary")
-              .eq("id", id)
-              .maybeSingle() as {data: {name: string; summary: string | null } | null; error: any };
-
-              if (error) {
-                console.error("Error fetching document:", error);
-              navigate("/");
-              return;
-    }
-
-              if (!data) {
-                navigate("/");
-              return;
-    }
-
-              setDocumentName(data.name || "");
-              setDocumentSummary(data.summary || null);
-  };
-
-  const fetchRules = async () => {
-    const {data, error} = await supabase
-              .from("rules")
-              .select("*")
-              .eq("document_id", id);
-
-              if (error) {
-                console.error("Error fetching rules:", error);
-              return;
-    }
-
-              if (data) {
-                setRules(data.map((r: any) => ({
-                  ...r,
-                  conditions: r.conditions || [],
-                  source: { page: r.source_page || 0, section: r.source_sect || "" },
-                })));
-    }
-  };
-
-  const handleRuleClick = (rule: Rule) => {
-                setSelectedRule(rule);
-              setDetailsOpen(true);
-  };
-
-  const handleExport = async () => {
-    try {
-      const response = await fetch(
-              `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-rules?format=xlsx&documentId=${id}`,
-              {
-                headers: {
-                Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-        }
-              );
-
-              if (!response.ok) throw new Error("Export failed");
-
-              const blob = await response.blob();
-              const url = window.URL.createObjectURL(blob);
-              const a = document.createElement("a");
-              a.href = url;
-              a.download = `rules-${documentName}.xlsx`;
-              a.click();
-
-              toast({
-                title: "Export réussi",
-              description: "Le fichier Excel a été téléchargé.",
-      });
-    } catch (error) {
-                toast({
-                  title: "Erreur d'export",
-                  description: error instanceof Error ? error.message : "Échec de l'export",
-                  variant: "destructive",
-                });
-    }
-  };
-
-  const handleGenerateTests = async () => {
-                setIsGeneratingTests(true);
-              try {
-      const ruleIds = rules.map(r => r.id);
-              const {data, error} = await supabase.functions.invoke("generate-tests", {
-                body: {ruleIds}
-      });
-
-              if (error) throw error;
-
-              toast({
-                title: "Tests générés",
-              description: `${data.generated || 0} cas de test ont été créés avec succès.`,
-      });
-    } catch (error) {
-                toast({
-                  title: "Erreur de génération",
-                  description: error instanceof Error ? error.message : "Échec de la génération des tests",
-                  variant: "destructive",
-                });
-    } finally {
-                setIsGeneratingTests(false);
-    }
-  };
-
             </div>
+            <RulesTable
+              rules={rules}
+              documentId={id}
+              onRuleClick={handleRuleClick}
+              onCreateRule={() => setCreateRuleOpen(true)}
+              onMergeRules={setMergedRules}
+              onRulesChanged={fetchRules}
+            />
+          </div>
 
-            <StatsCards totalRules={rules.length} totalDocuments={1} rules={rules} />
+          {id && rules.length > 1 && (
+            <div>
+              <div className="mb-4">
+                <h2 className="text-2xl font-semibold text-foreground">Conflits</h2>
+                <p className="text-sm text-muted-foreground">
+                  Règles contradictoires ou qui se recouvrent, dans ce document et avec vos autres documents
+                </p>
+              </div>
+              <ConflictsPanel documentId={id} rules={rules} onRuleClick={handleRuleClick} />
+            </div>
+          )}
 
-            {documentSummary && (
-              <div className="bg-white rounded-lg p-8 border border-border shadow-sm">
-                <h3 className="text-2xl font-bold text-black mb-4">
-                  Aperçu global du document
-                </h3>
-                <p className="text-lg text-black leading-relaxed">
-                  {documentSummary}
+          {versions.length > 1 && id && (
+            <div>
+              <div className="mb-4">
+                <h2 className="text-2xl font-semibold text-foreground">Versions</h2>
+                <p className="text-sm text-muted-foreground">
+                  Révisions successives de ce document et règles modifiées entre versions
                 </p>
               </div>
-            )}
+              <DocumentVersionsList versions={versions} currentId={id} onCompare={setDiffDocumentId} />
+            </div>
+          )}
 
+          {runs.length > 1 && (
             <div>
               <div className="mb-4">
-                <h2 className="text-2xl font-semibold text-foreground">Règles extraites</h2>
+                <h2 className="text-2xl font-semibold text-foreground">Runs d'extraction</h2>
                 <p className="text-sm text-muted-foreground">
-                  Gérez et explorez les règles métier extraites
+                  Historique des extractions de ce document et de leurs paramètres
                 </p>
               </div>
-              <RulesTable rules={rules} onRuleClick={handleRuleClick} />
+              <ExtractionRunsList
+                runs={runs}
+                onCancel={handleCancelRun}
+                onCompare={(runA, runB) => setComparedRuns([runA, runB])}
+              />
             </div>
-          </div>
-      </main >
+          )}
+        </div>
+      </main>
 
       <RuleDetailsDialog
         rule={selectedRule}
         open={!!selectedRule}
         onOpenChange={(open) => !open && setSelectedRule(null)}
         onRuleUpdated={fetchRules}
+        onViewSource={openViewer}
+        onSplit={openSplit}
+      />
+      {id && (
+        <CreateRuleDialog
+          documentId={id}
+          open={createRuleOpen}
+          onOpenChange={setCreateRuleOpen}
+          onCreated={fetchRules}
+        />
+      )}
+      <MergeRulesDialog
+        rules={mergedRules}
+        open={mergedRules.length > 1}
+        onOpenChange={(open) => !open && setMergedRules([])}
+        onMerged={fetchRules}
+      />
+      <SplitRuleDialog
+        rule={splitRule}
+        open={!!splitRule}
+        onOpenChange={(open) => !open && setSplitRule(null)}
+        onSplit={fetchRules}
       />
       <UploadDialog open={uploadOpen} onOpenChange={setUploadOpen} />
-    </div >
+      {id && (
+        <ReExtractDialog
+          documentId={id}
+          open={reExtractOpen}
+          onOpenChange={setReExtractOpen}
+          onStarted={fetchRuns}
+        />
+      )}
+      {id && (
+        <SourceViewerDialog
+          documentId={id}
+          documentName={documentName}
+          rules={rules}
+          initialRuleId={viewerRuleId}
+          open={viewerOpen}
+          onOpenChange={setViewerOpen}
+          onRuleClick={(rule) => {
+            setViewerOpen(false);
+            setSelectedRule(rule);
+          }}
+        />
+      )}
+      {currentVersion && (
+        <UploadDialog
+          open={newVersionOpen}
+          onOpenChange={setNewVersionOpen}
+          parentDocument={{ id: currentVersion.id, name: currentVersion.name, version: currentVersion.version }}
+          onUploaded={(documentId) => navigate(`/documents/${documentId}`)}
+        />
+      )}
+      <VersionDiffDialog
+        documentId={diffDocumentId}
+        open={!!diffDocumentId}
+        onOpenChange={(open) => !open && setDiffDocumentId(null)}
+      />
+      <RunComparisonDialog
+        runA={comparedRuns?.[0] ?? null}
+        runB={comparedRuns?.[1] ?? null}
+        open={!!comparedRuns}
+        onOpenChange={(open) => !open && setComparedRuns(null)}
+      />
+    </div>
   );
 };
 
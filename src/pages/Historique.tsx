@@ -12,7 +12,7 @@ interface Document {
   name: string;
   pages: number;
   created_at: string;
-  status: 'queued' | 'processing' | 'done' | 'error';
+  status: 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
 }
 
 const Historique = () => {
@@ -23,7 +23,7 @@ const Index = () => {
               <Upload className="h-10 w-10 text-primary mx-auto" />
             </div>
             <p className="text-muted-foreground text-lg mb-6 max-w-2xl">
-              Déposez un document PDF ou PPTX à analyser. L'extraction commencera automatiquement.
+              Déposez un document PDF, PPTX ou DOCX à analyser. L'extraction commencera automatiquement.
             </p>
             <Button 
               onClick={(e) => {
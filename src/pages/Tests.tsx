@@ -11,6 +11,9 @@ interface TestCase {
   inputs: any;
   expected: any;
   created_at: string;
+  feedback: string | null;
+  stale: boolean;
+  stale_reason: string | null;
 }
 
 const Tests = () => {
@@ -60,7 +63,7 @@ const Tests = () => {
               <p className="text-muted-foreground">Chargement des tests...</p>
             </div>
           ) : (
-            <TestsTable testCases={testCases} />
+            <TestsTable testCases={testCases} onRegenerated={loadTestCases} />
           )}
         </div>
       </main>
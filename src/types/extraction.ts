@@ -0,0 +1,83 @@
+export type PromptTemplate = 'default' | 'strict' | 'exhaustive';
+
+// Settings of an extraction run (jobs.settings)
+export interface ExtractionSettings {
+  model?: string;
+  chunkSize: number;
+  chunkOverlap: number;
+  promptTemplate: PromptTemplate;
+  confidenceThreshold: number;
+}
+
+export interface ExtractionRun {
+  id: string;
+  type: 'extract' | 're-extract';
+  status: string;
+  progress: number;
+  settings: ExtractionSettings | null;
+  rulesCount: number | null;
+  costUsd: number | null;
+  createdAt: string;
+  completedAt: string | null;
+  error: string | null;
+}
+
+export interface RunSummary {
+  id: string;
+  type: ExtractionRun['type'];
+  status: string;
+  settings: ExtractionSettings | null;
+  createdAt: string;
+  completedAt: string | null;
+  rulesCount: number;
+  avgConfidence: number | null;
+  costUsd: number | null;
+  durationMs: number | null;
+  metrics: {
+    model?: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    rulesUngrounded?: number;
+  } | null;
+}
+
+// Rule as returned by the diff endpoints (compare-runs, compare-versions)
+export interface DiffRule {
+  id: string;
+  text: string;
+  confidence: number | null;
+  domain: string | null;
+  conditions: string[] | null;
+  tags: string[];
+  source_page: number | null;
+  source_sect: string | null;
+}
+
+export interface RunRule extends DiffRule {
+  ungrounded: boolean;
+}
+
+export type RuleChange = 'text' | 'confidence' | 'domain' | 'conditions' | 'page';
+
+export interface RulePair<T extends DiffRule = RunRule> {
+  before: T;
+  after: T;
+  similarity: number;
+  confidenceDelta: number;
+  changes: RuleChange[];
+}
+
+export interface RunComparison {
+  runA: RunSummary;
+  runB: RunSummary;
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+    avgConfidenceDelta: number;
+  };
+  added: RunRule[];
+  removed: RunRule[];
+  changed: RulePair[];
+}
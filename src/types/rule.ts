@@ -1,6 +1,57 @@
+import { DiffRule, RulePair } from "./extraction";
+
 export interface RuleSource {
   page: number;
   section: string;
+  // Span of the quote in the parsed document text, when it could be located
+  start?: number;
+  end?: number;
+  quote?: string;
+}
+
+export type ReviewStatus = 'draft' | 'in_review' | 'approved' | 'rejected';
+
+export type RuleOrigin = 'extracted' | 'manual' | 'merged' | 'split';
+
+// Near-duplicate merged into the rule at extraction time
+export interface RuleAlias {
+  text: string;
+  confidence: number;
+  page: number;
+}
+
+export type RuleModality = 'must' | 'must_not' | 'may';
+
+export type ConditionOperator =
+  'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'between' | 'in' | 'not_in' | 'contains' | 'exists';
+
+export type DeadlineUnit = 'hour' | 'day' | 'business_day' | 'week' | 'month' | 'year';
+
+export interface StructuredCondition {
+  field: string;
+  operator: ConditionOperator;
+  value: string | number | boolean | Array<string | number> | null;
+  unit: string | null;
+}
+
+// Structured form of the rule extracted with its text (rules.structure)
+export interface RuleStructure {
+  subject: string | null;
+  modality: RuleModality;
+  action: string;
+  conditions: StructuredCondition[];
+  exceptions: string[];
+  deadline: { value: number; unit: DeadlineUnit; reference: string | null } | null;
+}
+
+export type QuantityKind = 'amount' | 'percentage' | 'duration' | 'date';
+
+// Amount, percentage, duration or date of a rule, normalized by get-rules
+export interface Quantity {
+  kind: QuantityKind;
+  value: number | string; // ISO date for dates
+  unit: string; // Currency code, "percent", a DeadlineUnit or "date"
+  raw: string;
 }
 
 export interface Rule {
@@ -14,17 +65,157 @@ export interface Rule {
   confidence: number;
   source: RuleSource;
   createdAt: string;
+  reviewStatus: ReviewStatus;
+  reviewerId?: string | null;
+  rejectionReason?: string | null;
+  origin: RuleOrigin;
+  aliases: RuleAlias[];
+  structure?: RuleStructure | null;
 }
 
 export interface Document {
   id: string;
   name: string;
-  type: 'pdf' | 'pptx';
+  type: 'pdf' | 'pptx' | 'docx';
   uploadedAt: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   rulesCount?: number;
 }
 
+// Audited fields of a rule (rule_revisions.before / after)
+export interface RuleSnapshot {
+  text: string;
+  conditions: string[] | null;
+  domain: string | null;
+  tags: string[];
+}
+
+export interface RuleRevision {
+  id: string;
+  rule_id: string;
+  revision: number;
+  action: 'extracted' | 'baseline' | 'update' | 'revert' | 'manual' | 'merge' | 'split';
+  changed_by: string | null;
+  changed_at: string;
+  reason: string | null;
+  before: RuleSnapshot | null;
+  after: RuleSnapshot;
+}
+
+// Fields of a rule written by hand, sent as JSON to create_rule / merge_rules / split_rule
+export type RuleDraft = {
+  text: string;
+  conditions: string[];
+  domain: string;
+  tags: string[];
+  source_page?: number | null;
+  source_sect?: string | null;
+};
+
+// Original of a merged or split rule (rule_links), kept after its deletion
+export interface RuleLink {
+  id: string;
+  rule_id: string;
+  source_rule_id: string;
+  kind: 'merge' | 'split';
+  source: RuleSnapshot & {
+    confidence: number | null;
+    source_page: number | null;
+    source_sect: string | null;
+    source_quote: string | null;
+    review_status: ReviewStatus;
+  };
+  created_at: string;
+}
+
+// Result of search-rules (semantic search across all documents)
+export interface RuleSearchResult {
+  id: string;
+  documentId: string;
+  documentName: string;
+  text: string;
+  domain: string | null;
+  page: number | null;
+  section: string | null;
+  reviewStatus: ReviewStatus;
+  similarity: number;
+}
+
+// Source cited by ask-document: an extracted rule or an excerpt of the text
+export interface AnswerCitation {
+  ref: string;
+  kind: 'rule' | 'excerpt';
+  ruleId?: string;
+  page: number | null;
+  section: string | null;
+}
+
+// One sentence of an ask-document answer
+export interface AnswerStatement {
+  text: string;
+  citations: AnswerCitation[];
+}
+
+export type ConflictKind = 'contradiction' | 'overlap';
+
+export type ConflictStatus = 'open' | 'resolved' | 'dismissed';
+
+// Contradiction or overlap between two rules (rule_conflicts), found by detect-conflicts
+export interface RuleConflict {
+  id: string;
+  rule_a_id: string;
+  rule_b_id: string;
+  document_a_id: string;
+  document_b_id: string;
+  kind: ConflictKind;
+  explanation: string;
+  status: ConflictStatus;
+  created_at: string;
+}
+
+// Run of detect-conflicts (conflict_analyses)
+export interface ConflictAnalysis {
+  id: string;
+  status: 'running' | 'done' | 'error';
+  pairs_checked: number | null;
+  conflicts_found: number | null;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// Entry of get_document_versions (oldest first)
+export interface DocumentVersion {
+  id: string;
+  name: string;
+  version: number;
+  status: string;
+  parent_document_id: string | null;
+  created_at: string;
+}
+
+export interface VersionSummary {
+  id: string;
+  name: string;
+  version: number;
+  createdAt: string;
+  rulesCount: number;
+}
+
+export interface VersionComparison {
+  base: VersionSummary;
+  target: VersionSummary;
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+  added: DiffRule[];
+  removed: DiffRule[];
+  changed: RulePair<DiffRule>[];
+}
+
 export interface TestCase {
   id: string;
   ruleId: string;
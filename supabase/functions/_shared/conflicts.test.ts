@@ -0,0 +1,87 @@
+/**
+ * Unit tests for conflict detection helpers (conflicts.ts)
+ *
+ * Run with: deno test conflicts.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  excludedDocuments,
+  findConflictCandidates,
+  isNegative,
+  pairKey,
+  parseConflictVerdicts,
+  type ConflictRule,
+} from "./conflicts.ts";
+
+function rule(id: string, text: string, documentId = "doc-1", domain: string | null = "Finance"): ConflictRule {
+  return { id, document_id: documentId, text, domain, conditions: [] };
+}
+
+const OPTIONS = { minSimilarity: 0.5, maxPairs: 10 };
+
+Deno.test("isNegative - prohibitions and negations", () => {
+  assertEquals(isNegative("Le télétravail n'est pas autorisé le vendredi"), true);
+  assertEquals(isNegative("Les paiements en espèces sont interdits"), true);
+  assertEquals(isNegative("Le télétravail est autorisé le vendredi"), false);
+});
+
+Deno.test("findConflictCandidates - different figures, then opposite polarity, on the same subject", () => {
+  const rules = [
+    rule("r1", "Le télétravail est autorisé le vendredi", "doc-1", "RH"),
+    rule("r2", "Les factures fournisseurs sont payées sous 30 jours"),
+    rule("r3", "Le télétravail n'est pas autorisé le vendredi", "doc-2", "RH"),
+    rule("r4", "Les factures fournisseurs sont payées sous 45 jours", "doc-2"),
+    rule("r5", "Les notes de frais sont validées par le manager"),
+  ];
+
+  const candidates = findConflictCandidates(rules, "doc-1", OPTIONS);
+
+  assertEquals(candidates.map((c) => [c.a.id, c.b.id, c.reason]), [
+    ["r2", "r4", "figures"],
+    ["r1", "r3", "polarity"],
+  ]);
+});
+
+Deno.test("findConflictCandidates - skips other documents, other domains and known pairs", () => {
+  const rules = [
+    rule("r1", "Les factures sont payées sous 30 jours"),
+    rule("r2", "Les factures sont payées sous 45 jours", "doc-2"),
+    rule("r3", "Les factures sont payées sous 60 jours", "doc-3"),
+    rule("r4", "Les factures sont payées sous 15 jours", "doc-1", "Achats"),
+  ];
+
+  const candidates = findConflictCandidates(rules, "doc-1", { ...OPTIONS, exclude: new Set([pairKey("r2", "r1")]) });
+
+  // r2/r3 don't involve doc-1, r4 is in another domain, r1/r2 is already known
+  assertEquals(candidates.map((c) => [c.a.id, c.b.id]), [["r1", "r3"]]);
+});
+
+Deno.test("parseConflictVerdicts - valid conflicts only", () => {
+  const content = JSON.stringify({
+    conflicts: [
+      { pair: 1, kind: "contradiction", explanation: "30 jours contre 45 jours" },
+      { pair: 1, kind: "overlap", explanation: "Doublon" },
+      { pair: 2, kind: "unknown", explanation: "?" },
+      { pair: 3, kind: "overlap", explanation: "" },
+      { pair: 9, kind: "overlap", explanation: "Hors limites" },
+    ],
+  });
+
+  assertEquals(parseConflictVerdicts(content, 3), [{ pair: 0, kind: "contradiction", explanation: "30 jours contre 45 jours" }]);
+  assertEquals(parseConflictVerdicts("{", 3), []);
+});
+
+Deno.test("excludedDocuments - versions, copies and older versions of other documents", () => {
+  const documents = [
+    { id: "v1", parent_document_id: null, file_hash: "h1" },
+    { id: "v2", parent_document_id: "v1", file_hash: "h2" },
+    { id: "v3", parent_document_id: "v2", file_hash: "h3" },
+    { id: "copy", parent_document_id: null, file_hash: "h2" },
+    { id: "other-v1", parent_document_id: null, file_hash: "h4" },
+    { id: "other-v2", parent_document_id: "other-v1", file_hash: "h5" },
+    { id: "unrelated", parent_document_id: null, file_hash: null },
+  ];
+
+  assertEquals([...excludedDocuments(documents, "v2")].sort(), ["copy", "other-v1", "v1", "v3"]);
+});
@@ -0,0 +1,222 @@
+/**
+ * Contradictions and overlaps between rules (detect-conflicts)
+ *
+ * Comparing every pair with the LLM would be too slow and too costly, so
+ * candidate pairs are selected first: rules of the same domain about the same
+ * subject (Jaccard on their significant words, figures and negations left
+ * out), ranked by the kind of conflict they suggest. The LLM then confirms
+ * each candidate and explains the conflict.
+ */
+
+import { tokenize } from "./document-qa.ts";
+import { jaccard, ruleFigures, ruleWords } from "./rule-diff.ts";
+
+export type ConflictKind = "contradiction" | "overlap";
+
+// What made the pair a candidate, sent to the LLM as a hint
+export type CandidateReason = "figures" | "polarity" | "overlap";
+
+export interface ConflictRule {
+  id: string;
+  document_id: string;
+  text: string;
+  domain: string | null;
+  conditions: unknown;
+}
+
+export interface ConflictCandidate<T extends ConflictRule> {
+  a: T; // Smallest id first, as stored in rule_conflicts
+  b: T;
+  similarity: number;
+  reason: CandidateReason;
+}
+
+export interface ConflictVerdict {
+  pair: number; // Index in the candidates sent
+  kind: ConflictKind;
+  explanation: string;
+}
+
+// Document of the user, to leave versions and copies out of the comparison
+export interface ConflictDocument {
+  id: string;
+  parent_document_id: string | null;
+  file_hash: string | null;
+}
+
+export interface CandidateOptions {
+  minSimilarity: number;
+  maxPairs: number;
+  exclude?: Set<string>; // Pair keys already known (see pairKey)
+}
+
+// Prohibitions and negations: "interdit", "ne peut pas", "n'est jamais"...
+const NEGATION = /\b(interdite?s?|prohibee?s?|(ne|n) \w+ (pas|jamais|aucun|aucune|plus)|non autorisee?s?)\b/;
+const POLARITY_WORDS = new Set(["ne", "pas", "jamais", "aucun", "aucune", "plus", "non", "interdit", "interdite", "interdits", "interdites"]);
+
+const REASON_PRIORITY: Record<CandidateReason, number> = { figures: 0, polarity: 1, overlap: 2 };
+
+/**
+ * Key of an unordered pair of rules
+ */
+export function pairKey(ruleId1: string, ruleId2: string): string {
+  return ruleId1 < ruleId2 ? `${ruleId1}:${ruleId2}` : `${ruleId2}:${ruleId1}`;
+}
+
+/**
+ * True when the rule states a prohibition or a negation
+ */
+export function isNegative(text: string): boolean {
+  return NEGATION.test(ruleWords(text).join(" "));
+}
+
+// Words describing what the rule is about: no stop words, figures or negations
+function subjectWords(text: string): Set<string> {
+  return new Set(tokenize(text).filter((word) => !/\d/.test(word) && !POLARITY_WORDS.has(word)));
+}
+
+/**
+ * Documents whose rules are not compared with those of `documentId`: its
+ * other versions and its copies (same file), where every change between
+ * versions would look like a contradiction and every copied rule like an
+ * overlap, and the older versions of the other documents (latest kept)
+ */
+export function excludedDocuments(documents: ConflictDocument[], documentId: string): Set<string> {
+  const byId = new Map(documents.map((d) => [d.id, d]));
+  const children = new Map<string, string[]>();
+  for (const doc of documents) {
+    if (doc.parent_document_id) {
+      children.set(doc.parent_document_id, [...(children.get(doc.parent_document_id) ?? []), doc.id]);
+    }
+  }
+
+  // Version chain of the document, up and down
+  const chain = new Set<string>();
+  const stack = [documentId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (chain.has(id)) continue;
+    chain.add(id);
+    const parentId = byId.get(id)?.parent_document_id;
+    if (parentId) stack.push(parentId);
+    stack.push(...(children.get(id) ?? []));
+  }
+
+  const fileHash = byId.get(documentId)?.file_hash;
+  const excluded = new Set<string>();
+  for (const doc of documents) {
+    if (doc.id === documentId) continue;
+    if (chain.has(doc.id) || (fileHash && doc.file_hash === fileHash) || children.has(doc.id)) {
+      excluded.add(doc.id);
+    }
+  }
+  return excluded;
+}
+
+function sameDomain(a: string | null, b: string | null): boolean {
+  return !a || !b || a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Pairs worth checking, involving at least one rule of the analysed document:
+ * different figures or polarity on the same subject first, then by similarity
+ */
+export function findConflictCandidates<T extends ConflictRule>(
+  rules: T[],
+  documentId: string,
+  options: CandidateOptions,
+): ConflictCandidate<T>[] {
+  const profiles = rules.map((rule) => ({
+    rule,
+    words: subjectWords(rule.text),
+    figures: ruleFigures(rule.text),
+    negative: isNegative(rule.text),
+  }));
+
+  const candidates: ConflictCandidate<T>[] = [];
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const p = profiles[i];
+      const q = profiles[j];
+      if (p.rule.document_id !== documentId && q.rule.document_id !== documentId) continue;
+      if (!sameDomain(p.rule.domain, q.rule.domain)) continue;
+      if (options.exclude?.has(pairKey(p.rule.id, q.rule.id))) continue;
+
+      const similarity = jaccard(p.words, q.words);
+      if (similarity < options.minSimilarity) continue;
+
+      const reason: CandidateReason = p.figures && q.figures && p.figures !== q.figures
+        ? "figures"
+        : p.negative !== q.negative ? "polarity" : "overlap";
+      const [a, b] = p.rule.id < q.rule.id ? [p.rule, q.rule] : [q.rule, p.rule];
+      candidates.push({ a, b, similarity, reason });
+    }
+  }
+
+  return candidates
+    .sort((x, y) => REASON_PRIORITY[x.reason] - REASON_PRIORITY[y.reason] || y.similarity - x.similarity)
+    .slice(0, options.maxPairs);
+}
+
+function describeRule(rule: ConflictRule): string {
+  const conditions = Array.isArray(rule.conditions) ? rule.conditions.filter((c) => typeof c === "string") : [];
+  return conditions.length > 0 ? `${rule.text} (Conditions : ${conditions.join(" ; ")})` : rule.text;
+}
+
+const REASON_HINTS: Record<CandidateReason, string> = {
+  figures: "valeurs chiffrées différentes",
+  polarity: "une interdiction face à une obligation ou une permission",
+  overlap: "même sujet",
+};
+
+/**
+ * Prompt asking which candidate pairs really conflict
+ */
+export function buildConflictPrompt<T extends ConflictRule>(candidates: ConflictCandidate<T>[]): string {
+  const pairs = candidates.map((c, i) =>
+    `Paire ${i + 1} (${REASON_HINTS[c.reason]}, ${c.a.document_id === c.b.document_id ? "même document" : "documents différents"}) :
+  A. ${describeRule(c.a)}
+  B. ${describeRule(c.b)}`
+  );
+
+  return `Pour chaque paire de règles métier ci-dessous, indique si elles sont en conflit :
+- "contradiction" : les deux règles ne peuvent pas être respectées en même temps pour un même cas
+  (ex. paiement sous 30 jours contre paiement sous 45 jours, interdiction contre autorisation) ;
+- "overlap" : leurs périmètres se recouvrent avec des exigences différentes ou redondantes,
+  ce qui rend la règle applicable ambiguë.
+Des règles dont les conditions ou le périmètre sont distincts ne sont pas en conflit.
+
+${pairs.join("\n\n")}
+
+Retourne un JSON strict, uniquement avec les paires en conflit :
+{
+  "conflicts": [
+    { "pair": 1, "kind": "contradiction", "explanation": "explication courte en français" }
+  ]
+}`;
+}
+
+/**
+ * Conflicts confirmed by the LLM, invalid entries dropped
+ */
+export function parseConflictVerdicts(content: string, pairCount: number): ConflictVerdict[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  const items = (parsed as { conflicts?: unknown })?.conflicts;
+  if (!Array.isArray(items)) return [];
+
+  const verdicts = new Map<number, ConflictVerdict>();
+  for (const item of items) {
+    const pair = Number(item?.pair) - 1;
+    if (!Number.isInteger(pair) || pair < 0 || pair >= pairCount || verdicts.has(pair)) continue;
+    if (item.kind !== "contradiction" && item.kind !== "overlap") continue;
+    if (typeof item.explanation !== "string" || !item.explanation.trim()) continue;
+    verdicts.set(pair, { pair, kind: item.kind, explanation: item.explanation.trim() });
+  }
+  return [...verdicts.values()];
+}
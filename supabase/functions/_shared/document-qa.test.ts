@@ -0,0 +1,50 @@
+/**
+ * Unit tests for document question answering helpers (document-qa.ts)
+ *
+ * Run with: deno test document-qa.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { buildSources, parseQAAnswer, rankByQuestion, tokenize, type QARule } from "./document-qa.ts";
+
+const RULES: QARule[] = [
+  { id: "r1", text: "Les remboursements supérieurs à 500 € sont approuvés par le manager", domain: "Finance", conditions: [], source_page: 12, source_sect: "4.2" },
+  { id: "r2", text: "Les congés sont posés deux semaines à l'avance", domain: "RH", conditions: null, source_page: 30, source_sect: null },
+  { id: "r3", text: "Tout remboursement exige un justificatif", domain: "Finance", conditions: ["Dépense professionnelle"], source_page: 13, source_sect: "4.3" },
+];
+
+Deno.test("tokenize - lowercase, no accents, no stop words", () => {
+  assertEquals(tokenize("Quel est le seuil d'approbation des remboursements ?"), ["seuil", "approbation", "remboursements"]);
+});
+
+Deno.test("rankByQuestion - best matches first, unrelated items excluded", () => {
+  const ranked = rankByQuestion("seuil d'approbation des remboursements", RULES, (r) => r.text, 5);
+
+  assertEquals(ranked.map((r) => r.id), ["r1", "r3"]);
+});
+
+Deno.test("buildSources - numbered rules then excerpts", () => {
+  const sources = buildSources([RULES[2]], [{ text: "Section 4 : frais", page_start: 11, page_end: 12 }]);
+
+  assertEquals(sources.map((s) => s.ref), ["R1", "E1"]);
+  assertEquals(sources[0].text, "Tout remboursement exige un justificatif (Conditions : Dépense professionnelle)");
+  assertEquals(sources[0].ruleId, "r3");
+  assertEquals(sources[1].page, 11);
+});
+
+Deno.test("parseQAAnswer - keeps cited statements only", () => {
+  const sources = buildSources(RULES.slice(0, 2), []);
+  const content = JSON.stringify({
+    statements: [
+      { text: "Au-delà de 500 €, le manager approuve.", sources: ["[R1]"] },
+      { text: "Phrase sans source.", sources: [] },
+      { text: "Source inconnue.", sources: ["R9"] },
+    ],
+  });
+
+  const statements = parseQAAnswer(content, sources);
+
+  assertEquals(statements.length, 1);
+  assertEquals(statements[0].citations.map((c) => [c.ruleId, c.page, c.section]), [["r1", 12, "4.2"]]);
+  assertEquals(parseQAAnswer("not json", sources), []);
+});
@@ -0,0 +1,173 @@
+/**
+ * Question answering over the rules of a document (ask-document)
+ *
+ * The context sent to the LLM is made of numbered sources: the rules closest
+ * to the question ([R1], [R2]...) and excerpts of the parsed text ([E1]...).
+ * The model answers in JSON, one statement per item with the sources it relies
+ * on; statements without a known source are dropped so every sentence shown
+ * to the user is cited.
+ */
+
+export interface QARule {
+  id: string;
+  text: string;
+  domain: string | null;
+  conditions: unknown;
+  source_page: number | null;
+  source_sect: string | null;
+}
+
+export interface QAChunk {
+  text: string;
+  page_start: number;
+  page_end: number;
+}
+
+export interface QASource {
+  ref: string; // R1, E1...
+  kind: "rule" | "excerpt";
+  ruleId?: string;
+  page: number | null;
+  section: string | null;
+  text: string;
+}
+
+export interface QAStatement {
+  text: string;
+  citations: QASource[];
+}
+
+export interface QAMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+const MAX_EXCERPT_CHARS = 1500;
+
+// Frequent French and English words, ignored when scoring rules and excerpts
+const STOP_WORDS = new Set([
+  "a", "au", "aux", "avec", "ce", "ces", "cette", "dans", "de", "des", "du", "elle", "en", "est", "et",
+  "il", "ils", "je", "la", "le", "les", "leur", "mais", "ne", "nous", "on", "ou", "par", "pas", "pour",
+  "qu", "que", "quel", "quelle", "quelles", "quels", "qui", "quoi", "sa", "se", "ses", "son", "sont",
+  "sur", "un", "une", "vous", "y", "comment", "combien", "quand", "faut", "doit", "peut",
+  "the", "of", "and", "or", "to", "in", "is", "are", "what", "which", "how", "for", "on", "with",
+]);
+
+/**
+ * Significant words of a text: lowercase, accents removed, stop words dropped
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Share of the question words found in a text (0-1). Words match on a common
+ * prefix of 5 letters so that "remboursement" matches "remboursements".
+ */
+export function lexicalScore(questionWords: string[], text: string): number {
+  if (questionWords.length === 0) return 0;
+  const stems = new Set(tokenize(text).map((word) => word.slice(0, 5)));
+  const matched = new Set(questionWords.filter((word) => stems.has(word.slice(0, 5))));
+  return matched.size / new Set(questionWords).size;
+}
+
+/**
+ * Most relevant items for the question, best first, items without any
+ * matching word excluded
+ */
+export function rankByQuestion<T>(question: string, items: T[], textOf: (item: T) => string, limit: number): T[] {
+  const words = tokenize(question);
+  return items
+    .map((item) => ({ item, score: lexicalScore(words, textOf(item)) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ item }) => item);
+}
+
+/**
+ * Number the rules and excerpts used as context
+ */
+export function buildSources(rules: QARule[], chunks: QAChunk[]): QASource[] {
+  return [
+    ...rules.map((rule, i): QASource => {
+      const conditions = Array.isArray(rule.conditions) ? rule.conditions.filter((c) => typeof c === "string") : [];
+      return {
+        ref: `R${i + 1}`,
+        kind: "rule",
+        ruleId: rule.id,
+        page: rule.source_page,
+        section: rule.source_sect,
+        text: conditions.length > 0 ? `${rule.text} (Conditions : ${conditions.join(" ; ")})` : rule.text,
+      };
+    }),
+    ...chunks.map((chunk, i): QASource => ({
+      ref: `E${i + 1}`,
+      kind: "excerpt",
+      page: chunk.page_start,
+      section: null,
+      text: chunk.text.slice(0, MAX_EXCERPT_CHARS),
+    })),
+  ];
+}
+
+/**
+ * Prompt listing the sources and the expected JSON answer
+ */
+export function buildQAPrompt(question: string, sources: QASource[]): string {
+  const lines = sources.map((s) => {
+    const location = [s.page ? `page ${s.page}` : null, s.section ? `section ${s.section}` : null]
+      .filter(Boolean).join(", ");
+    return `[${s.ref}]${location ? ` (${location})` : ""} ${s.text}`;
+  });
+
+  return `Réponds à la question en t'appuyant UNIQUEMENT sur les sources ci-dessous
+(règles métier extraites du document [R...] et extraits du texte [E...]).
+
+Sources :
+${lines.join("\n")}
+
+Question : ${question}
+
+Retourne un JSON strict :
+{
+  "statements": [
+    { "text": "une phrase de la réponse", "sources": ["R1", "E2"] }
+  ]
+}
+
+Chaque phrase doit citer au moins une source qui la justifie. Si les sources ne
+permettent pas de répondre, retourne { "statements": [] }.`;
+}
+
+/**
+ * Statements of the LLM answer with their sources, uncited ones dropped
+ */
+export function parseQAAnswer(content: string, sources: QASource[]): QAStatement[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  const items = (parsed as { statements?: unknown })?.statements;
+  if (!Array.isArray(items)) return [];
+
+  const byRef = new Map(sources.map((s) => [s.ref, s]));
+  const statements: QAStatement[] = [];
+  for (const item of items) {
+    if (typeof item?.text !== "string" || !item.text.trim() || !Array.isArray(item.sources)) continue;
+    const refs = new Set<string>(item.sources.map((ref: unknown) => String(ref).replace(/[[\]]/g, "").trim()));
+    const citations = [...refs].map((ref) => byRef.get(ref)).filter((s): s is QASource => !!s);
+    if (citations.length > 0) {
+      statements.push({ text: item.text.trim(), citations });
+    }
+  }
+  return statements;
+}
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for the rule embeddings helpers (embeddings.ts)
+ *
+ * Run with: deno test --allow-env embeddings.test.ts
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { embedTexts, ruleEmbeddingText, toPgVector, type EmbeddingConfig } from "./embeddings.ts";
+
+const CONFIG: EmbeddingConfig = { model: "text-embedding-3-small", apiKey: "sk-test", baseUrl: "https://api.test/v1" };
+
+function mockFetch(status: number, body: unknown, calls: RequestInit[] = []) {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+    calls.push(init!);
+    return Promise.resolve(new Response(JSON.stringify(body), { status }));
+  };
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+}
+
+Deno.test("ruleEmbeddingText - statement, domain and conditions", () => {
+  const text = ruleEmbeddingText({
+    id: "r1",
+    text: "Les factures sont payées sous 30 jours",
+    domain: "Finance",
+    conditions: ["Facture validée", "Montant < 10 000 €"],
+  });
+
+  assertEquals(text, "Les factures sont payées sous 30 jours\nDomaine : Finance\nConditions : Facture validée ; Montant < 10 000 €");
+  assertEquals(ruleEmbeddingText({ id: "r2", text: "Règle seule", domain: null, conditions: null }), "Règle seule");
+});
+
+Deno.test("embedTexts - one request, embeddings in input order", async () => {
+  const calls: RequestInit[] = [];
+  const restore = mockFetch(200, { data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] }, calls);
+  try {
+    const embeddings = await embedTexts(CONFIG, ["a", "b"]);
+
+    assertEquals(embeddings, [[1, 0], [0, 1]]);
+    assertEquals(calls.length, 1);
+    assertEquals(JSON.parse(String(calls[0].body)).input, ["a", "b"]);
+    assertEquals(toPgVector(embeddings[0]), "[1,0]");
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("embedTexts - throws on API errors", async () => {
+  const restore = mockFetch(429, { error: "rate limited" });
+  try {
+    await assertRejects(() => embedTexts(CONFIG, ["a"]), Error, "Embedding API error 429");
+  } finally {
+    restore();
+  }
+});
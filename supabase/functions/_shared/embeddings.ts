@@ -0,0 +1,134 @@
+/**
+ * Rule embeddings for semantic search (rules.embedding, pgvector)
+ *
+ * Embeddings come from an OpenAI-compatible /embeddings endpoint:
+ *   EMBEDDING_MODEL     text-embedding-3-small (default, 1536 dimensions)
+ *   EMBEDDING_API_KEY   defaults to OPENAI_API_KEY
+ *   EMBEDDING_BASE_URL  defaults to https://api.openai.com/v1
+ *
+ * The column is vector(1536): another model must produce vectors of the same
+ * size (text-embedding-3-* accept a `dimensions` parameter, which is sent).
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+const DEFAULT_EMBEDDING_BASE_URL = "https://api.openai.com/v1";
+const MAX_EMBEDDING_CHARS = 8000; // Truncate to stay under the token limit
+const EMBEDDING_BATCH_SIZE = 100;
+
+export interface EmbeddingConfig {
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+}
+
+export interface EmbeddableRule {
+  id: string;
+  text: string;
+  domain: string | null;
+  conditions: unknown;
+}
+
+/**
+ * Embedding endpoint from env, null when no API key is configured
+ */
+export function getEmbeddingConfig(): EmbeddingConfig | null {
+  const apiKey = Deno.env.get("EMBEDDING_API_KEY") || Deno.env.get("OPENAI_API_KEY");
+  if (!apiKey) return null;
+
+  return {
+    model: Deno.env.get("EMBEDDING_MODEL") || DEFAULT_EMBEDDING_MODEL,
+    apiKey,
+    baseUrl: (Deno.env.get("EMBEDDING_BASE_URL") || DEFAULT_EMBEDDING_BASE_URL).replace(/\/+$/, ""),
+  };
+}
+
+/**
+ * Text embedded for a rule: its statement, then domain and conditions
+ */
+export function ruleEmbeddingText(rule: EmbeddableRule): string {
+  const conditions = Array.isArray(rule.conditions) ? rule.conditions.filter((c) => typeof c === "string") : [];
+  return [
+    rule.text,
+    rule.domain ? `Domaine : ${rule.domain}` : "",
+    conditions.length > 0 ? `Conditions : ${conditions.join(" ; ")}` : "",
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * pgvector literal of an embedding ('[0.1,0.2,...]')
+ */
+export function toPgVector(embedding: number[]): string {
+  return `[${embedding.join(",")}]`;
+}
+
+/**
+ * Embed texts in one request, in input order. Throws on API errors.
+ */
+export async function embedTexts(config: EmbeddingConfig, texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  const response = await fetch(`${config.baseUrl}/embeddings`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${config.apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: config.model,
+      input: texts.map((t) => t.slice(0, MAX_EMBEDDING_CHARS)),
+      dimensions: EMBEDDING_DIMENSIONS,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Embedding API error ${response.status}: ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  return (data.data as { index: number; embedding: number[] }[])
+    .sort((a, b) => a.index - b.index)
+    .map((d) => d.embedding);
+}
+
+/**
+ * Embed the rules that have no embedding yet (new, edited or created by hand),
+ * for one document or all the documents of a user. Needs a service role client.
+ * Returns the number of rules embedded.
+ */
+export async function embedMissingRules(
+  client: SupabaseClient,
+  config: EmbeddingConfig,
+  scope: { documentId?: string; userId?: string },
+  limit = 500,
+): Promise<number> {
+  let query = client
+    .from("rules")
+    .select("id, text, domain, conditions, documents!inner(user_id)")
+    .is("embedding", null)
+    .limit(limit);
+  if (scope.documentId) query = query.eq("document_id", scope.documentId);
+  if (scope.userId) query = query.eq("documents.user_id", scope.userId);
+
+  const { data: rules, error } = await query;
+  if (error) throw new Error(`Failed to fetch rules to embed: ${error.message}`);
+
+  let embedded = 0;
+  for (let i = 0; i < (rules || []).length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = (rules as EmbeddableRule[]).slice(i, i + EMBEDDING_BATCH_SIZE);
+    const embeddings = await embedTexts(config, batch.map(ruleEmbeddingText));
+
+    const { error: updateError } = await client.rpc("set_rule_embeddings", {
+      p_rule_ids: batch.map((r) => r.id),
+      p_embeddings: embeddings.map(toPgVector),
+      p_model: config.model,
+    });
+    if (updateError) throw new Error(`Failed to store embeddings: ${updateError.message}`);
+    embedded += batch.length;
+  }
+
+  return embedded;
+}
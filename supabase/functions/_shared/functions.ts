@@ -0,0 +1,43 @@
+/**
+ * Call another Edge Function with the service role key
+ *
+ * Usage:
+ *   import { invokeFunction } from "../_shared/functions.ts";
+ *   await invokeFunction("generate-summary", { documentId, rules });
+ */
+
+/**
+ * Base URL of the Edge Functions of this project
+ */
+export function functionsUrl(): string {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") || "http://localhost:54321";
+  // Ensure we build the functions URL correctly regardless of SUPABASE_URL format
+  return supabaseUrl.includes("/rest/v1")
+    ? supabaseUrl.replace("/rest/v1", "/functions/v1")
+    : `${supabaseUrl}/functions/v1`;
+}
+
+/**
+ * POST `body` to the function `name`
+ * Throws if SUPABASE_SERVICE_ROLE_KEY is not configured or the call fails
+ */
+export async function invokeFunction(name: string, body: unknown): Promise<Response> {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY not configured");
+  }
+
+  const response = await fetch(`${functionsUrl()}/${name}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${serviceRoleKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${name} returned ${response.status}`);
+  }
+  return response;
+}
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the LLM provider layer (llm.ts)
+ *
+ * Run with: deno test --allow-env llm.test.ts
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createLLMProvider, getLLMConfig, LLMError } from "./llm.ts";
+
+const ENV_KEYS = [
+  "LLM_PROVIDER", "LLM_MODEL", "LLM_API_KEY", "LLM_BASE_URL",
+  "SUMMARY_LLM_PROVIDER", "SUMMARY_LLM_MODEL", "SUMMARY_LLM_BASE_URL",
+  "OPENAI_API_KEY", "AZURE_OPENAI_API_KEY", "AZURE_OPENAI_ENDPOINT",
+];
+
+function withEnv(vars: Record<string, string>, fn: () => void | Promise<void>) {
+  return async () => {
+    ENV_KEYS.forEach((key) => Deno.env.delete(key));
+    Object.entries(vars).forEach(([key, value]) => Deno.env.set(key, value));
+    try {
+      await fn();
+    } finally {
+      ENV_KEYS.forEach((key) => Deno.env.delete(key));
+    }
+  };
+}
+
+interface CapturedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+async function captureFetch(
+  responseBody: unknown,
+  fn: () => Promise<void>,
+  status = 200
+): Promise<CapturedRequest[]> {
+  const captured: CapturedRequest[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    captured.push({
+      url: String(input),
+      headers: init?.headers as Record<string, string>,
+      body: JSON.parse(String(init?.body)),
+    });
+    return Promise.resolve(new Response(JSON.stringify(responseBody), { status }));
+  };
+  try {
+    await fn();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+  return captured;
+}
+
+Deno.test("getLLMConfig - should default to OpenAI gpt-4o-mini", withEnv({ OPENAI_API_KEY: "sk-test" }, () => {
+  const config = getLLMConfig("extraction");
+
+  assertEquals(config.provider, "openai");
+  assertEquals(config.model, "gpt-4o-mini");
+  assertEquals(config.apiKey, "sk-test");
+  assertEquals(config.baseUrl, "https://api.openai.com/v1");
+}));
+
+Deno.test("getLLMConfig - should apply per-function overrides", withEnv({
+  LLM_MODEL: "gpt-4o",
+  SUMMARY_LLM_PROVIDER: "openai-compatible",
+  SUMMARY_LLM_MODEL: "mistral",
+  SUMMARY_LLM_BASE_URL: "http://vllm.internal:8000/v1/",
+}, () => {
+  assertEquals(getLLMConfig("tests").model, "gpt-4o");
+
+  const summary = getLLMConfig("summary");
+  assertEquals(summary.provider, "openai-compatible");
+  assertEquals(summary.model, "mistral");
+  assertEquals(summary.baseUrl, "http://vllm.internal:8000/v1");
+}));
+
+Deno.test("getLLMConfig - should reject unknown providers", withEnv({ LLM_PROVIDER: "gemini" }, () => {
+  assertThrows(() => getLLMConfig("tests"), Error, "Unknown LLM_PROVIDER");
+}));
+
+Deno.test("createLLMProvider - should require an API key except for local servers", () => {
+  assertThrows(
+    () => createLLMProvider({ provider: "anthropic", model: "m", baseUrl: "https://api.anthropic.com/v1" }),
+    Error,
+    "API key not configured"
+  );
+  createLLMProvider({ provider: "openai-compatible", model: "llama3.1", baseUrl: "http://localhost:11434/v1" });
+});
+
+Deno.test("chat - should call the Azure deployment endpoint", withEnv({
+  LLM_PROVIDER: "azure",
+  LLM_MODEL: "rules-gpt4o",
+  AZURE_OPENAI_API_KEY: "azure-key",
+  AZURE_OPENAI_ENDPOINT: "https://client.openai.azure.com",
+}, async () => {
+  const llm = createLLMProvider(getLLMConfig("extraction"));
+  const requests = await captureFetch(
+    { choices: [{ message: { content: "{\"rules\": []}" } }], usage: { prompt_tokens: 10, completion_tokens: 3 } },
+    async () => {
+      const response = await llm.chat({ messages: [{ role: "user", content: "texte" }], json: true });
+      assertEquals(response.content, "{\"rules\": []}");
+      assertEquals(response.usage, { inputTokens: 10, outputTokens: 3 });
+    }
+  );
+
+  assertEquals(
+    requests[0].url,
+    "https://client.openai.azure.com/openai/deployments/rules-gpt4o/chat/completions?api-version=2024-06-01"
+  );
+  assertEquals(requests[0].headers["api-key"], "azure-key");
+  assertEquals(requests[0].body.model, undefined);
+  assertEquals(requests[0].body.response_format, { type: "json_object" });
+}));
+
+Deno.test("chat - should map Anthropic system prompt and JSON prefill", async () => {
+  const llm = createLLMProvider({
+    provider: "anthropic",
+    model: "claude-3-5-haiku-latest",
+    apiKey: "ant-key",
+    baseUrl: "https://api.anthropic.com/v1",
+  });
+
+  const requests = await captureFetch(
+    { content: [{ type: "text", text: "\"tests\": []}" }], usage: { input_tokens: 5, output_tokens: 4 } },
+    async () => {
+      const response = await llm.chat({
+        messages: [{ role: "system", content: "Système" }, { role: "user", content: "Règle" }],
+        json: true,
+      });
+      assertEquals(response.content, "{\"tests\": []}");
+    }
+  );
+
+  assertEquals(requests[0].url, "https://api.anthropic.com/v1/messages");
+  assertEquals(requests[0].body.system, "Système");
+  assertEquals(requests[0].body.messages, [
+    { role: "user", content: "Règle" },
+    { role: "assistant", content: "{" },
+  ]);
+});
+
+Deno.test("chat - should throw LLMError with the HTTP status", async () => {
+  const llm = createLLMProvider({ provider: "openai", model: "gpt-4o-mini", apiKey: "k", baseUrl: "https://api.openai.com/v1" });
+
+  await captureFetch({ error: "rate limited" }, async () => {
+    const error = await assertRejects(() => llm.chat({ messages: [{ role: "user", content: "x" }] }), LLMError);
+    assertEquals(error.status, 429);
+    assertEquals(error.retryable, true);
+  }, 429);
+});
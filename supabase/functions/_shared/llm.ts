@@ -0,0 +1,215 @@
+/**
+ * LLM provider layer: chat completions against OpenAI, Azure OpenAI,
+ * Anthropic or any OpenAI-compatible server (Ollama, vLLM, ...)
+ *
+ * Configuration (env), each variable can be overridden per function with a
+ * scope prefix, e.g. EXTRACTION_LLM_MODEL, TESTS_LLM_PROVIDER, SUMMARY_LLM_BASE_URL,
+ * QA_LLM_MODEL, CONFLICTS_LLM_MODEL:
+ *   LLM_PROVIDER   openai (default) | azure | anthropic | openai-compatible
+ *   LLM_MODEL      model name (Azure: deployment name)
+ *   LLM_API_KEY    defaults to OPENAI_API_KEY / AZURE_OPENAI_API_KEY / ANTHROPIC_API_KEY
+ *   LLM_BASE_URL   API root, e.g. http://localhost:11434/v1 (Azure: AZURE_OPENAI_ENDPOINT)
+ *   AZURE_OPENAI_API_VERSION
+ *
+ * Usage:
+ *   import { createLLMProvider, getLLMConfig } from "../_shared/llm.ts";
+ *   const llm = createLLMProvider(getLLMConfig("summary"));
+ *   const { content } = await llm.chat({ messages: [{ role: "user", content: "..." }] });
+ */
+
+export type LLMProviderName = "openai" | "azure" | "anthropic" | "openai-compatible";
+
+export type LLMScope = "extraction" | "tests" | "summary" | "qa" | "conflicts";
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl: string;
+  apiVersion?: string; // Azure only
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a single JSON object
+}
+
+export interface ChatResponse {
+  content: string | null;
+  model: string;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+/**
+ * Non-2xx response from the provider
+ */
+export class LLMError extends Error {
+  constructor(message: string, public status: number, public provider: LLMProviderName) {
+    super(message);
+    this.name = "LLMError";
+  }
+
+  // Rate limiting and server errors are worth retrying
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+const PROVIDERS: LLMProviderName[] = ["openai", "azure", "anthropic", "openai-compatible"];
+
+const DEFAULTS: Record<LLMProviderName, { model: string; baseUrl: string; apiKeyEnv?: string }> = {
+  "openai": { model: "gpt-4o-mini", baseUrl: "https://api.openai.com/v1", apiKeyEnv: "OPENAI_API_KEY" },
+  "azure": { model: "gpt-4o-mini", baseUrl: "", apiKeyEnv: "AZURE_OPENAI_API_KEY" },
+  "anthropic": { model: "claude-3-5-haiku-latest", baseUrl: "https://api.anthropic.com/v1", apiKeyEnv: "ANTHROPIC_API_KEY" },
+  "openai-compatible": { model: "llama3.1", baseUrl: "http://localhost:11434/v1" },
+};
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Resolve the provider config of a function from env
+ */
+export function getLLMConfig(scope: LLMScope): LLMConfig {
+  const env = (name: string) =>
+    Deno.env.get(`${scope.toUpperCase()}_${name}`) || Deno.env.get(name) || undefined;
+
+  const providerName = env("LLM_PROVIDER") || "openai";
+  if (!PROVIDERS.includes(providerName as LLMProviderName)) {
+    throw new Error(`Unknown LLM_PROVIDER "${providerName}". Expected one of: ${PROVIDERS.join(", ")}`);
+  }
+  const provider = providerName as LLMProviderName;
+  const defaults = DEFAULTS[provider];
+
+  return {
+    provider,
+    model: env("LLM_MODEL") || defaults.model,
+    apiKey: env("LLM_API_KEY") || (defaults.apiKeyEnv ? Deno.env.get(defaults.apiKeyEnv) : undefined),
+    baseUrl: (env("LLM_BASE_URL") || (provider === "azure" ? Deno.env.get("AZURE_OPENAI_ENDPOINT") : undefined) ||
+      defaults.baseUrl).replace(/\/+$/, ""),
+    apiVersion: provider === "azure" ? Deno.env.get("AZURE_OPENAI_API_VERSION") || "2024-06-01" : undefined,
+  };
+}
+
+/**
+ * Create a provider client, throws if the config is incomplete
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  // Local OpenAI-compatible servers usually don't require a key
+  if (!config.apiKey && config.provider !== "openai-compatible") {
+    throw new Error(`API key not configured for LLM provider "${config.provider}"`);
+  }
+  if (!config.baseUrl) {
+    throw new Error(`Base URL not configured for LLM provider "${config.provider}"`);
+  }
+
+  const chat = config.provider === "anthropic" ? anthropicChat : openAIChat;
+  return {
+    name: config.provider,
+    model: config.model,
+    chat: (request) => chat(config, request),
+  };
+}
+
+/**
+ * OpenAI chat completions API (also used by Azure and compatible servers)
+ */
+async function openAIChat(config: LLMConfig, request: ChatRequest): Promise<ChatResponse> {
+  let url = `${config.baseUrl}/chat/completions`;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+
+  if (config.provider === "azure") {
+    // The deployment is part of the URL, not the body
+    url = `${config.baseUrl}/openai/deployments/${encodeURIComponent(config.model)}/chat/completions` +
+      `?api-version=${config.apiVersion}`;
+    headers["api-key"] = config.apiKey!;
+  } else if (config.apiKey) {
+    headers["Authorization"] = `Bearer ${config.apiKey}`;
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      ...(config.provider === "azure" ? {} : { model: config.model }),
+      messages: request.messages,
+      ...(request.json ? { response_format: { type: "json_object" } } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new LLMError(await response.text(), response.status, config.provider);
+  }
+
+  const data = await response.json();
+  return {
+    content: data.choices?.[0]?.message?.content ?? null,
+    model: data.model || config.model,
+    usage: data.usage
+      ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+      : undefined,
+  };
+}
+
+/**
+ * Anthropic messages API
+ *
+ * No JSON mode: the answer is prefilled with "{" so the model continues a
+ * JSON object, and the brace is added back to the content.
+ */
+async function anthropicChat(config: LLMConfig, request: ChatRequest): Promise<ChatResponse> {
+  const system = request.messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+  const messages = request.messages.filter((m) => m.role !== "system");
+  if (request.json) {
+    messages.push({ role: "assistant", content: "{" });
+  }
+
+  const response = await fetch(`${config.baseUrl}/messages`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": config.apiKey!,
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify({
+      model: config.model,
+      ...(system ? { system } : {}),
+      messages,
+      max_tokens: request.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new LLMError(await response.text(), response.status, config.provider);
+  }
+
+  const data = await response.json();
+  const text = (data.content ?? [])
+    .filter((block: { type: string }) => block.type === "text")
+    .map((block: { text: string }) => block.text)
+    .join("");
+
+  return {
+    content: text ? (request.json ? `{${text}` : text) : null,
+    model: data.model || config.model,
+    usage: data.usage
+      ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+      : undefined,
+  };
+}
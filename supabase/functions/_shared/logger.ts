@@ -64,8 +64,16 @@ export interface ExtractionCompletedContext {
   durationMs: number;
   rulesExtracted: number;
   uniqueRules: number;
+  rulesLocated?: number; // Rules anchored to a span of the parsed text
+  rulesUngrounded?: number; // Rules failing the grounding check (flagged or dropped)
+  rulesUngroundedDropped?: number; // Ungrounded rules discarded (GROUNDING_MODE=drop)
   costUsd: number;
   cacheHit: boolean;
+  inputTokens?: number;
+  outputTokens?: number;
+  batches?: number;
+  batchesFailed?: number;
+  model?: string;
 }
 
 export interface SummaryContext {
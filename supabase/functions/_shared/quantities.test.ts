@@ -0,0 +1,57 @@
+/**
+ * Unit tests for threshold and unit normalization (quantities.ts)
+ *
+ * Run with: deno test quantities.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { extractQuantities, parseNumber, quantityKey, ruleQuantities } from "./quantities.ts";
+
+const keys = (text: string) => extractQuantities(text).map(quantityKey);
+
+Deno.test("parseNumber - French and plain notations", () => {
+  assertEquals(parseNumber("1 000,50"), 1000.5);
+  assertEquals(parseNumber("1 000"), 1000);
+  assertEquals(parseNumber("1.000"), 1000);
+  assertEquals(parseNumber("2.5"), 2.5);
+  assertEquals(parseNumber("0,5"), 0.5);
+});
+
+Deno.test("parseNumber - English thousands", () => {
+  assertEquals(parseNumber("1,000"), 1000);
+  assertEquals(parseNumber("1,000,000"), 1000000);
+  assertEquals(parseNumber("1,000.50"), 1000.5);
+  assertEquals(parseNumber("0,500"), 0.5);
+});
+
+Deno.test("extractQuantities - same amount however it is written", () => {
+  for (const text of ["au-delà de 1 000 €", "au-delà de 1000 euros", "au-delà de 1 000€", "au-delà de 1 k€", "au-delà de €1000"]) {
+    assertEquals(keys(text), ["1000 EUR"], text);
+  }
+  assertEquals(keys("un budget de 2,5 millions d'euros et 300 USD"), ["2500000 EUR", "300 USD"]);
+  for (const text of ["above $1,000", "above 1,000 USD", "above USD 1,000.00"]) {
+    assertEquals(keys(text), ["1000 USD"], text);
+  }
+  assertEquals(keys("up to £2,500,000"), ["2500000 GBP"]);
+});
+
+Deno.test("extractQuantities - durations, percentages and dates", () => {
+  assertEquals(extractQuantities("Remboursement sous 5 jours ouvrés"), [
+    { kind: "duration", value: 5, unit: "business_day", raw: "5 jours ouvrés" },
+  ]);
+  assertEquals(keys("payé sous 30 (trente) jours, 30 days or 2 weeks"), ["30 day", "30 day", "2 week"]);
+  assertEquals(keys("une commission de 2,5 % pendant 1 an"), ["2.5 percent", "1 year"]);
+  assertEquals(keys("applicable du 1er mars 2025 au 31/12/2025"), ["2025-03-01 date", "2025-12-31 date"]);
+  assertEquals(keys("avant le 2025-02-30"), []); // Not a date
+});
+
+Deno.test("extractQuantities - ignores bare numbers", () => {
+  assertEquals(extractQuantities("Selon l'article 12, le formulaire B3 est requis"), []);
+});
+
+Deno.test("ruleQuantities - text and conditions, each threshold once", () => {
+  const quantities = ruleQuantities("Validation requise au-delà de 1 000 € HT", ["montant > 1000 euros", "délai de 48 heures", 3]);
+
+  assertEquals(quantities.map(quantityKey), ["1000 EUR", "48 hour"]);
+  assertEquals(quantities[0].raw, "1 000 €");
+});
@@ -0,0 +1,175 @@
+/**
+ * Amounts, percentages, durations and dates stated by a rule, normalized
+ *
+ * "1 000 €", "1000 euros" and "1 k€" are the same threshold:
+ * { kind: "amount", value: 1000, unit: "EUR" }. Durations use the deadline
+ * units of rules.structure ("5 jours ouvrés" -> { value: 5, unit: "business_day" }),
+ * dates are ISO ("1er mars 2025" -> { value: "2025-03-01", unit: "date" }).
+ * Numbers are read the French way: space or dot between thousands, comma
+ * before decimals. Commas between groups of three digits are English
+ * thousands ("$1,000", "1,000,000.50 USD"); "0,500" stays a decimal.
+ */
+
+export type QuantityKind = "amount" | "percentage" | "duration" | "date";
+
+export type DurationUnit = "hour" | "day" | "business_day" | "week" | "month" | "year";
+
+export interface Quantity {
+  kind: QuantityKind;
+  value: number | string; // ISO date (YYYY-MM-DD) for dates
+  unit: string; // Currency code for amounts, "percent", a DurationUnit or "date"
+  raw: string; // As written in the rule
+}
+
+// Thousands grouped by spaces (incl. non-breaking), dots or commas (English),
+// or a plain number
+const NUMBER = "\\d{1,3}(?:[ \\u00a0\\u202f.]\\d{3})+(?:,\\d+)?|[1-9]\\d{0,2}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:[.,]\\d+)?";
+// Amount spelled out after the figures: "30 (trente) jours"
+const SPELLED = "(?:\\s*\\([^()\\d]{1,40}\\))?";
+const NOT_AFTER_NUMBER = "(?<![\\d\\p{L}.,])";
+const END = "(?![\\p{L}\\d])";
+
+const CURRENCIES: [RegExp, string][] = [
+  [/^(€|eur|euros?)$/, "EUR"],
+  [/^(\$|usd|dollars?)$/, "USD"],
+  [/^(£|gbp|livres? sterling)$/, "GBP"],
+  [/^(chf|francs? suisses?)$/, "CHF"],
+];
+const CURRENCY = "€|euros?|EUR|\\$|dollars?|USD|£|GBP|livres? sterling|CHF|francs? suisses?";
+const MULTIPLIER = "k|K|M|Md|mille|millions?|milliards?";
+
+const DURATION_WORDS = "heures?|hours?|jours?\\s+(?:ouvrés|ouvres|ouvrables|calendaires)|(?:business|working|calendar)\\s+days?" +
+  "|jours?|days?|semaines?|weeks?|mois|months?|années?|annees?|ans?|years?";
+
+const MONTHS = ["janvier", "fevrier", "mars", "avril", "mai", "juin", "juillet", "aout", "septembre", "octobre", "novembre", "decembre"];
+
+const PATTERNS: { kind: QuantityKind; regex: RegExp }[] = [
+  { kind: "date", regex: /(?<!\d)(\d{4})-(\d{2})-(\d{2})(?!\d)/gu },
+  { kind: "date", regex: /(?<![\d/.-])(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?!\d)/gu },
+  {
+    kind: "date",
+    regex: /(?<![\p{L}\d])(1er|\d{1,2})\s+(janvier|février|fevrier|mars|avril|mai|juin|juillet|août|aout|septembre|octobre|novembre|décembre|decembre)\s+(\d{4})(?!\d)/giu,
+  },
+  {
+    kind: "amount",
+    regex: new RegExp(`${NOT_AFTER_NUMBER}(${NUMBER})${SPELLED}\\s?(${MULTIPLIER})?(?:\\s+d['’]\\s?|\\s+de\\s+)?\\s?(${CURRENCY})(?![\\p{L}])`, "gu"),
+  },
+  { kind: "amount", regex: new RegExp(`(?<![\\p{L}])(€|\\$|£|EUR|USD|GBP|CHF)\\s?(${NUMBER})\\s?(k|K|M)?${END}`, "gu") },
+  { kind: "percentage", regex: new RegExp(`${NOT_AFTER_NUMBER}(${NUMBER})${SPELLED}\\s?(?:%|pour\\s?cents?${END}|percent${END})`, "gu") },
+  { kind: "duration", regex: new RegExp(`${NOT_AFTER_NUMBER}(${NUMBER})${SPELLED}\\s?(${DURATION_WORDS})${END}`, "giu") },
+];
+
+function fold(text: string): string {
+  return text.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/\s+/g, " ");
+}
+
+/**
+ * "1 000,50" -> 1000.5, "1.000" -> 1000, "2.5" -> 2.5, "1,000.50" -> 1000.5
+ */
+export function parseNumber(raw: string): number {
+  const compact = raw.replace(/[\s\u00a0\u202f]/g, "");
+  if (/^\d{1,3}(\.\d{3})+(,\d+)?$/.test(compact)) {
+    return Number(compact.replace(/\./g, "").replace(",", "."));
+  }
+  if (/^[1-9]\d{0,2}(,\d{3})+(\.\d+)?$/.test(compact)) {
+    return Number(compact.replace(/,/g, ""));
+  }
+  return Number(compact.replace(",", "."));
+}
+
+function multiplier(word: string | undefined): number {
+  if (!word) return 1;
+  if (/^(k|mille)$/i.test(word)) return 1e3;
+  if (/^md|^milliard/i.test(word)) return 1e9;
+  return 1e6; // M, million(s)
+}
+
+function currencyCode(symbol: string): string {
+  const folded = fold(symbol);
+  return CURRENCIES.find(([pattern]) => pattern.test(folded))?.[1] ?? symbol.toUpperCase();
+}
+
+function durationUnit(word: string): DurationUnit {
+  const folded = fold(word);
+  if (/^(heure|hour)/.test(folded)) return "hour";
+  if (/ouvr|business|working/.test(folded)) return "business_day";
+  if (/^(jour|day|calendar)/.test(folded)) return "day";
+  if (/^(semaine|week)/.test(folded)) return "week";
+  if (/^(mois|month)/.test(folded)) return "month";
+  return "year";
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function toQuantity(kind: QuantityKind, match: RegExpMatchArray): Quantity | null {
+  const raw = match[0].trim();
+  switch (kind) {
+    case "date": {
+      const [, a, b, c] = match;
+      const value = /^\d{4}$/.test(a)
+        ? isoDate(Number(a), Number(b), Number(c))
+        : /^\d+$/.test(b)
+        ? isoDate(Number(c), Number(b), Number(a))
+        : isoDate(Number(c), MONTHS.indexOf(fold(b)) + 1, a.toLowerCase() === "1er" ? 1 : Number(a));
+      return value ? { kind, value, unit: "date", raw } : null;
+    }
+    case "amount": {
+      // Symbol after the figures, or before them ("€1000", "USD 50")
+      const [number, mult, symbol] = /^\d/.test(match[1]) ? [match[1], match[2], match[3]] : [match[2], match[3], match[1]];
+      const value = parseNumber(number) * multiplier(mult);
+      return { kind, value: Number(value.toFixed(2)), unit: currencyCode(symbol), raw };
+    }
+    case "percentage":
+      return { kind, value: parseNumber(match[1]), unit: "percent", raw };
+    case "duration":
+      return { kind, value: parseNumber(match[1]), unit: durationUnit(match[2]), raw };
+  }
+}
+
+/**
+ * Quantities found in a text, in reading order. Dates win over amounts,
+ * amounts over percentages and durations when their spans overlap.
+ */
+export function extractQuantities(text: string): Quantity[] {
+  const spans: { start: number; end: number; quantity: Quantity }[] = [];
+
+  for (const { kind, regex } of PATTERNS) {
+    for (const match of text.matchAll(regex)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (spans.some((s) => start < s.end && end > s.start)) continue;
+
+      const quantity = toQuantity(kind, match);
+      if (quantity && (typeof quantity.value === "string" || Number.isFinite(quantity.value))) {
+        spans.push({ start, end, quantity });
+      }
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start).map((s) => s.quantity);
+}
+
+/**
+ * Same threshold, however it is written: "1000 EUR", "5 business_day"
+ */
+export function quantityKey(quantity: Quantity): string {
+  return `${quantity.value} ${quantity.unit}`;
+}
+
+/**
+ * Quantities of a rule text and its conditions, each threshold once
+ */
+export function ruleQuantities(text: string, conditions: unknown): Quantity[] {
+  const sources = [text, ...(Array.isArray(conditions) ? conditions.filter((c) => typeof c === "string") : [])];
+  const seen = new Set<string>();
+  return sources.flatMap(extractQuantities).filter((quantity) => {
+    const key = quantityKey(quantity);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the rule alignment (rule-diff.ts)
+ *
+ * Run with: deno test rule-diff.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { diffRules, ruleFigures, ruleWords, type ComparableRule } from "./rule-diff.ts";
+
+function rule(id: string, text: string, overrides: Partial<ComparableRule> = {}): ComparableRule {
+  return { id, text, confidence: 0.9, domain: "Finance", conditions: [], source_page: 1, ...overrides };
+}
+
+Deno.test("ruleWords - lowercase words without accents and punctuation", () => {
+  assertEquals(ruleWords("Délai : 5 jours ouvrés."), ["delai", "5", "jours", "ouvres"]);
+});
+
+Deno.test("diffRules - classifies added, removed, changed and unchanged rules", () => {
+  const before = [
+    rule("a1", "Les notes de frais doivent être soumises avant le 5 du mois suivant"),
+    rule("a2", "Au-delà de 1000 €, une validation du directeur financier est requise", { confidence: 0.7 }),
+    rule("a3", "Les badges perdus sont facturés 20 euros"),
+  ];
+  const after = [
+    rule("b1", "Les notes de frais doivent être soumises avant le 5 du mois suivant"),
+    rule("b2", "Au-delà de 1000 €, une validation du directeur financier est obligatoire", { confidence: 0.9 }),
+    rule("b3", "Le télétravail est limité à deux jours par semaine", { domain: "RH" }),
+  ];
+
+  const diff = diffRules(before, after);
+
+  assertEquals(diff.unchanged.map((p) => [p.before.id, p.after.id]), [["a1", "b1"]]);
+  assertEquals(diff.changed.length, 1);
+  assertEquals(diff.changed[0].before.id, "a2");
+  assertEquals(diff.changed[0].after.id, "b2");
+  assertEquals(diff.changed[0].changes, ["text", "confidence"]);
+  assertEquals(diff.changed[0].confidenceDelta, 0.2);
+  assertEquals(diff.removed.map((r) => r.id), ["a3"]);
+  assertEquals(diff.added.map((r) => r.id), ["b3"]);
+});
+
+Deno.test("diffRules - each rule is matched at most once, best pair first", () => {
+  const before = [rule("a1", "La commission est calculée à 2% du montant HT")];
+  const after = [
+    rule("b1", "La commission est calculée à 3% du montant HT"),
+    rule("b2", "La commission est calculée à 2% du montant HT"),
+  ];
+
+  const diff = diffRules(before, after);
+
+  assertEquals(diff.unchanged.map((p) => p.after.id), ["b2"]);
+  assertEquals(diff.added.map((r) => r.id), ["b1"]);
+});
+
+Deno.test("diffRules - metadata changes are reported on identical texts", () => {
+  const diff = diffRules(
+    [rule("a1", "Le délai maximum de traitement est de 5 jours ouvrés", { source_page: 3, conditions: ["si urgent"] })],
+    [rule("b1", "Le délai maximum de traitement est de 5 jours ouvrés", { source_page: 4, conditions: [] })]
+  );
+
+  assertEquals(diff.changed[0].changes, ["conditions", "page"]);
+  assertEquals(diff.changed[0].similarity, 1);
+});
+
+Deno.test("ruleFigures - same thresholds however they are written", () => {
+  assertEquals(ruleFigures("Au-delà de 1 000 € sous 30 jours"), ruleFigures("au-delà de 1000 euros sous 30 days"));
+  assertEquals(ruleFigures("1 000,50 € sous 5 jours ouvrés, article 12"), "1000.5 EUR|12|5 business_day");
+  // Calendar days and business days are different deadlines
+  assertEquals(ruleFigures("sous 5 jours") === ruleFigures("sous 5 jours ouvrés"), false);
+});
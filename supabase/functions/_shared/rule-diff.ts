@@ -0,0 +1,143 @@
+/**
+ * Align two sets of rules (two extraction runs, two versions of a document)
+ * and classify them as added, removed, changed or unchanged
+ *
+ * Rules are paired greedily by decreasing text similarity (Jaccard on
+ * normalized words); pairs below `minSimilarity` are not matched.
+ */
+
+import { extractQuantities, quantityKey } from "./quantities.ts";
+
+export interface ComparableRule {
+  id: string;
+  text: string;
+  confidence: number | null;
+  domain: string | null;
+  conditions: unknown;
+  source_page: number | null;
+}
+
+export type RuleChange = "text" | "confidence" | "domain" | "conditions" | "page";
+
+export interface RulePair<T extends ComparableRule> {
+  before: T;
+  after: T;
+  similarity: number;
+  confidenceDelta: number; // after - before
+  changes: RuleChange[];
+}
+
+export interface RuleDiff<T extends ComparableRule> {
+  added: T[];
+  removed: T[];
+  changed: RulePair<T>[];
+  unchanged: RulePair<T>[];
+}
+
+export interface RuleDiffOptions {
+  minSimilarity?: number;
+  confidenceTolerance?: number; // Smaller confidence differences are not a change
+}
+
+const DEFAULT_MIN_SIMILARITY = 0.5;
+const DEFAULT_CONFIDENCE_TOLERANCE = 0.01;
+
+/**
+ * Lowercase words without accents or punctuation
+ */
+export function ruleWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\w\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Figures stated by a rule, normalized and sorted: amounts, durations,
+ * percentages and dates with their unit (see quantities.ts), then the other
+ * numbers: "1 000,50 € sous 30 jours, article 12" -> "1000.5 EUR|12|30 day"
+ */
+export function ruleFigures(text: string): string {
+  const quantities = extractQuantities(text);
+  const rest = quantities.reduce((remaining, q) => remaining.replace(q.raw, " "), text);
+  const numbers = rest.replace(/(\d)[\s .](?=\d{3}\b)/g, "$1").match(/\d+(?:,\d+)?/g) || [];
+  return Array.from(new Set([...quantities.map(quantityKey), ...numbers.map((n) => n.replace(",", "."))])).sort().join("|");
+}
+
+/**
+ * Jaccard similarity of two word sets (0-1)
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  for (const word of a) {
+    if (b.has(word)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+function normalizedConditions(conditions: unknown): string {
+  if (!Array.isArray(conditions)) return "";
+  return conditions.map((c) => ruleWords(String(c)).join(" ")).sort().join("|");
+}
+
+function detectChanges(before: ComparableRule, after: ComparableRule, tolerance: number): RuleChange[] {
+  const changes: RuleChange[] = [];
+  if (ruleWords(before.text).join(" ") !== ruleWords(after.text).join(" ")) changes.push("text");
+  if (Math.abs((after.confidence ?? 0) - (before.confidence ?? 0)) > tolerance) changes.push("confidence");
+  if ((before.domain ?? null) !== (after.domain ?? null)) changes.push("domain");
+  if (normalizedConditions(before.conditions) !== normalizedConditions(after.conditions)) changes.push("conditions");
+  if ((before.source_page ?? null) !== (after.source_page ?? null)) changes.push("page");
+  return changes;
+}
+
+/**
+ * Diff `before` (reference run or version) against `after`
+ */
+export function diffRules<T extends ComparableRule>(
+  before: T[],
+  after: T[],
+  options: RuleDiffOptions = {}
+): RuleDiff<T> {
+  const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  const tolerance = options.confidenceTolerance ?? DEFAULT_CONFIDENCE_TOLERANCE;
+
+  const beforeWords = before.map((r) => new Set(ruleWords(r.text)));
+  const afterWords = after.map((r) => new Set(ruleWords(r.text)));
+
+  const candidates: Array<{ i: number; j: number; similarity: number }> = [];
+  for (let i = 0; i < before.length; i++) {
+    for (let j = 0; j < after.length; j++) {
+      const similarity = jaccard(beforeWords[i], afterWords[j]);
+      if (similarity >= minSimilarity) candidates.push({ i, j, similarity });
+    }
+  }
+  // Best pairs first; ties keep document order
+  candidates.sort((x, y) => y.similarity - x.similarity || x.i - y.i || x.j - y.j);
+
+  const matchedBefore = new Set<number>();
+  const matchedAfter = new Set<number>();
+  const diff: RuleDiff<T> = { added: [], removed: [], changed: [], unchanged: [] };
+
+  for (const { i, j, similarity } of candidates) {
+    if (matchedBefore.has(i) || matchedAfter.has(j)) continue;
+    matchedBefore.add(i);
+    matchedAfter.add(j);
+
+    const pair: RulePair<T> = {
+      before: before[i],
+      after: after[j],
+      similarity: Math.round(similarity * 100) / 100,
+      confidenceDelta: Math.round(((after[j].confidence ?? 0) - (before[i].confidence ?? 0)) * 100) / 100,
+      changes: detectChanges(before[i], after[j], tolerance),
+    };
+    (pair.changes.length > 0 ? diff.changed : diff.unchanged).push(pair);
+  }
+
+  diff.removed = before.filter((_, i) => !matchedBefore.has(i));
+  diff.added = after.filter((_, j) => !matchedAfter.has(j));
+  return diff;
+}
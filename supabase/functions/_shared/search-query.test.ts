@@ -0,0 +1,35 @@
+/**
+ * Unit tests for the search query parser (search-query.ts)
+ *
+ * Run with: deno test search-query.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { MAX_SEARCH_TERMS, parseSearchQuery } from "./search-query.ts";
+
+Deno.test("parseSearchQuery - words are required, the last one as a prefix", () => {
+  assertEquals(parseSearchQuery("délai rembours"), "'délai' & 'rembours':*");
+  assertEquals(parseSearchQuery("  Remboursement  "), "'remboursement':*");
+});
+
+Deno.test("parseSearchQuery - phrases, exclusions and OR", () => {
+  assertEquals(
+    parseSearchQuery('"note de frais" -voyage validation OU approbation'),
+    "('note' <-> 'de' <-> 'frais') & !'voyage' & ('validation' | 'approbation':*)",
+  );
+  assertEquals(parseSearchQuery("a OR b c or d or e"), "('a' | 'b') & ('c' | 'd' | 'e':*)");
+  assertEquals(parseSearchQuery("l'achat"), "('l' <-> 'achat')");
+});
+
+Deno.test("parseSearchQuery - tsquery syntax and PostgREST filters are not interpreted", () => {
+  assertEquals(parseSearchQuery("a:* & !b (c"), "'a' & 'b' & 'c':*");
+  assertEquals(parseSearchQuery("%'),tags.cs.{x}"), "('tags' <-> 'cs' <-> 'x')");
+  assertEquals(parseSearchQuery("*** ||| --"), null);
+  assertEquals(parseSearchQuery("-voyage"), null);
+  assertEquals(parseSearchQuery(""), null);
+});
+
+Deno.test("parseSearchQuery - the number of terms is bounded", () => {
+  const query = parseSearchQuery(Array.from({ length: 40 }, (_, i) => `mot${i}`).join(" "))!;
+  assertEquals(query.split(" & ").length, MAX_SEARCH_TERMS);
+});
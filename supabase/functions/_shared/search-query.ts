@@ -0,0 +1,74 @@
+/**
+ * Turn a user search string into a PostgreSQL tsquery expression
+ *
+ * Supported syntax: words (all required), "quoted phrases", -exclusions and
+ * OR / OU between two terms. The last plain word is matched as a prefix so
+ * that results follow the typing. Only letters and digits reach the query:
+ * tsquery operators typed by the user are dropped instead of being
+ * interpreted, so any input yields a valid expression (or null).
+ */
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const TOKEN = /(-?)"([^"]*)"?|(\S+)/g;
+const OR_KEYWORDS = new Set(["or", "ou", "|"]);
+
+export const MAX_SEARCH_TERMS = 16;
+
+interface Term {
+  words: string[];
+  negated: boolean;
+  quoted: boolean;
+  or: boolean; // joined to the previous term with OR
+}
+
+function words(text: string): string[] {
+  return (text.toLowerCase().match(WORD) || []).slice(0, MAX_SEARCH_TERMS);
+}
+
+function termExpression(term: Term, prefix: boolean): string {
+  const lexemes = term.words.map((w) => `'${w}'`);
+  let expr = lexemes.length === 1 ? lexemes[0] : `(${lexemes.join(" <-> ")})`;
+  if (prefix) expr += ":*";
+  return term.negated ? `!${expr}` : expr;
+}
+
+export function parseSearchQuery(input: string): string | null {
+  const terms: Term[] = [];
+  let pendingOr = false;
+
+  for (const match of input.matchAll(TOKEN)) {
+    if (terms.length >= MAX_SEARCH_TERMS) break;
+
+    const [, minus, phrase, raw] = match;
+    if (raw !== undefined && OR_KEYWORDS.has(raw.toLowerCase())) {
+      pendingOr = terms.length > 0;
+      continue;
+    }
+
+    const quoted = phrase !== undefined;
+    const negated = quoted ? minus === "-" : raw.length > 1 && raw.startsWith("-");
+    const termWords = words(quoted ? phrase : raw);
+    if (termWords.length === 0) continue;
+
+    terms.push({ words: termWords, negated, quoted, or: pendingOr });
+    pendingOr = false;
+  }
+
+  // Only exclusions would match nearly every rule
+  if (!terms.some((t) => !t.negated)) return null;
+
+  const last = terms[terms.length - 1];
+  const prefixLast = !last.quoted && !last.negated && last.words.length === 1;
+
+  // & binds tighter than | in tsquery: each run of OR-joined terms is grouped
+  const groups: string[][] = [];
+  for (const term of terms) {
+    const expr = termExpression(term, prefixLast && term === last);
+    if (term.or) groups[groups.length - 1].push(expr);
+    else groups.push([expr]);
+  }
+
+  return groups
+    .map((group) => (group.length === 1 ? group[0] : `(${group.join(" | ")})`))
+    .join(" & ");
+}
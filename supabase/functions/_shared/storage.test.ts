@@ -0,0 +1,26 @@
+/**
+ * Unit tests for the document storage helpers (storage.ts)
+ *
+ * Run with: deno test --allow-env storage.test.ts
+ */
+
+import { assert, assertEquals, assertMatch } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { documentObjectPath, isStoredObjectPath, safeFileName } from "./storage.ts";
+
+Deno.test("safeFileName - strips folders, accents and special characters", () => {
+  assertEquals(safeFileName("Procédure d'achat (v2).pdf"), "Procedure_d_achat_v2_.pdf");
+  assertEquals(safeFileName("../../etc/passwd"), "passwd");
+  assertEquals(safeFileName("..."), "document");
+});
+
+Deno.test("documentObjectPath - user folder first, unique per upload", () => {
+  const path = documentObjectPath("user-1", "Règlement.docx");
+  assertMatch(path, /^user-1\/[0-9a-f-]{36}-Reglement\.docx$/);
+  assert(path !== documentObjectPath("user-1", "Règlement.docx"));
+});
+
+Deno.test("isStoredObjectPath - placeholder paths are not stored", () => {
+  assertEquals(isStoredObjectPath("/uploads/abc-file.pdf"), false);
+  assertEquals(isStoredObjectPath(null), false);
+  assertEquals(isStoredObjectPath("user-1/abc-file.pdf"), true);
+});
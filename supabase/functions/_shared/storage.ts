@@ -0,0 +1,44 @@
+/**
+ * Original documents in Supabase Storage
+ *
+ * Files are kept in a private bucket under `<userId>/<uuid>-<fileName>`: the
+ * first folder is the owner, which is what the bucket RLS policies check.
+ * `documents.path` stores the object key; clients only get signed URLs.
+ *
+ * Usage:
+ *   import { DOCUMENTS_BUCKET, documentObjectPath } from "../_shared/storage.ts";
+ *   await supabase.storage.from(DOCUMENTS_BUCKET).upload(documentObjectPath(user.id, file.name), file);
+ */
+
+export const DOCUMENTS_BUCKET = "documents";
+
+// Lifetime of the download links returned by download-document
+export const SIGNED_URL_TTL_SECONDS = parseInt(Deno.env.get("SIGNED_URL_TTL_SECONDS") || "300", 10);
+
+/**
+ * File name safe for a storage key: no folders, accents or special characters
+ */
+export function safeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() || "";
+  const cleaned = base
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\w.-]+/g, "_")
+    .replace(/^[._]+/, "");
+  return cleaned || "document";
+}
+
+/**
+ * Object key of a new upload, unique per upload
+ */
+export function documentObjectPath(userId: string, fileName: string): string {
+  return `${userId}/${crypto.randomUUID()}-${safeFileName(fileName)}`;
+}
+
+/**
+ * Whether `path` points to a stored object (documents uploaded before the
+ * originals were kept have a placeholder `/uploads/...` path)
+ */
+export function isStoredObjectPath(path: string | null | undefined): path is string {
+  return !!path && !path.startsWith("/");
+}
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for carrying test cases over to a new document version (test-carry-over.ts)
+ *
+ * Run with: deno test test-carry-over.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { diffRules } from "./rule-diff.ts";
+import { planTestCarryOver, type RevisedRule } from "./test-carry-over.ts";
+
+function rule(id: string, text: string, overrides: Partial<RevisedRule> = {}): RevisedRule {
+  return { id, text, confidence: 0.9, domain: "Finance", conditions: [], source_page: 1, revision: 1, ...overrides };
+}
+
+Deno.test("planTestCarryOver - tests follow their rule, stale only on substantive changes", () => {
+  const previous = [
+    rule("a1", "Les notes de frais doivent être soumises avant le 5 du mois suivant"),
+    rule("a2", "Au-delà de 1000 €, une validation du directeur financier est requise"),
+    rule("a3", "Les badges perdus sont facturés 20 euros"),
+  ];
+  const current = [
+    rule("b1", "Les notes de frais doivent être soumises avant le 5 du mois suivant", { source_page: 2, confidence: 0.8 }),
+    rule("b2", "Au-delà de 1000 €, une validation du directeur financier est obligatoire"),
+  ];
+
+  const plan = planTestCarryOver(diffRules(previous, current), new Set(["a1", "a2", "a3"]));
+
+  assertEquals(plan.moves, [
+    { fromRuleId: "a1", toRuleId: "b1", toRevision: 1, stale: false },
+    { fromRuleId: "a2", toRuleId: "b2", toRevision: 1, stale: true },
+  ]);
+  assertEquals(plan.removedRuleIds, ["a3"]);
+});
+
+Deno.test("planTestCarryOver - rules without tests are ignored", () => {
+  const previous = [rule("a1", "Le télétravail est limité à deux jours par semaine"), rule("a2", "Les badges perdus sont facturés 20 euros")];
+  const current = [rule("b1", "Le télétravail est limité à trois jours par semaine")];
+
+  const plan = planTestCarryOver(diffRules(previous, current), new Set(["a1"]));
+
+  assertEquals(plan.moves.map((m) => [m.fromRuleId, m.toRuleId, m.stale]), [["a1", "b1", true]]);
+  assertEquals(plan.removedRuleIds, []);
+});
@@ -0,0 +1,110 @@
+/**
+ * Carry test cases over to a new version of a document
+ *
+ * When a new version is extracted, its rules are aligned with the previous
+ * version (rule-diff.ts). Test cases follow their rule to the new version:
+ * unchanged rules keep their tests as they are, rules whose text, conditions
+ * or domain changed get their tests flagged stale, and tests of rules the new
+ * version dropped stay on the old rule, flagged stale.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { diffRules, type ComparableRule, type RuleChange, type RuleDiff } from "./rule-diff.ts";
+
+export interface RevisedRule extends ComparableRule {
+  revision: number;
+}
+
+export interface TestMove {
+  fromRuleId: string;
+  toRuleId: string;
+  toRevision: number;
+  stale: boolean;
+}
+
+export interface CarryOverPlan {
+  moves: TestMove[];
+  removedRuleIds: string[];
+}
+
+// Changes that don't affect what a test case checks
+const COSMETIC_CHANGES: RuleChange[] = ["confidence", "page"];
+
+const RULE_COLUMNS = "id, text, confidence, domain, conditions, source_page, revision";
+
+/**
+ * Moves and stale flags for the tests of `testedRuleIds`
+ */
+export function planTestCarryOver(diff: RuleDiff<RevisedRule>, testedRuleIds: Set<string>): CarryOverPlan {
+  const moves = diff.changed.concat(diff.unchanged)
+    .filter((pair) => testedRuleIds.has(pair.before.id))
+    .map((pair) => ({
+      fromRuleId: pair.before.id,
+      toRuleId: pair.after.id,
+      toRevision: pair.after.revision,
+      stale: pair.changes.some((change) => !COSMETIC_CHANGES.includes(change)),
+    }));
+
+  const removedRuleIds = diff.removed
+    .map((rule) => rule.id)
+    .filter((id) => testedRuleIds.has(id));
+
+  return { moves, removedRuleIds };
+}
+
+/**
+ * Move the tests of `parentDocumentId` rules to the matching rules of `documentId`
+ * Returns the number of rules whose tests were moved and flagged stale
+ */
+export async function carryTestsForward(
+  client: SupabaseClient,
+  parentDocumentId: string,
+  documentId: string
+): Promise<{ moved: number; stale: number }> {
+  const [{ data: previous, error: previousError }, { data: current, error: currentError }] = await Promise.all([
+    client.from("rules").select(RULE_COLUMNS).eq("document_id", parentDocumentId),
+    client.from("rules").select(RULE_COLUMNS).eq("document_id", documentId),
+  ]);
+  if (previousError) throw new Error(`Failed to load previous rules: ${previousError.message}`);
+  if (currentError) throw new Error(`Failed to load rules: ${currentError.message}`);
+  if (!previous || previous.length === 0) return { moved: 0, stale: 0 };
+
+  const { data: tests, error: testsError } = await client
+    .from("test_cases")
+    .select("rule_id")
+    .in("rule_id", previous.map((r) => r.id));
+  if (testsError) throw new Error(`Failed to load test cases: ${testsError.message}`);
+
+  const testedRuleIds = new Set((tests || []).map((t) => t.rule_id as string));
+  if (testedRuleIds.size === 0) return { moved: 0, stale: 0 };
+
+  const plan = planTestCarryOver(
+    diffRules(previous as RevisedRule[], (current || []) as RevisedRule[]),
+    testedRuleIds
+  );
+
+  for (const move of plan.moves) {
+    const { error } = await client
+      .from("test_cases")
+      .update({
+        rule_id: move.toRuleId,
+        rule_revision: move.toRevision,
+        ...(move.stale ? { stale: true, stale_reason: "new_version" } : {}),
+      })
+      .eq("rule_id", move.fromRuleId);
+    if (error) throw new Error(`Failed to move test cases: ${error.message}`);
+  }
+
+  if (plan.removedRuleIds.length > 0) {
+    const { error } = await client
+      .from("test_cases")
+      .update({ stale: true, stale_reason: "rule_removed" })
+      .in("rule_id", plan.removedRuleIds);
+    if (error) throw new Error(`Failed to flag test cases: ${error.message}`);
+  }
+
+  return {
+    moved: plan.moves.length,
+    stale: plan.moves.filter((m) => m.stale).length + plan.removedRuleIds.length,
+  };
+}
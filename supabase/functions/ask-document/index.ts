@@ -0,0 +1,253 @@
+/**
+ * Answer a question about a document from its rules, with citations
+ *
+ * Retrieves the rules closest to the question (embeddings when configured,
+ * lexical otherwise) and the most relevant excerpts of the parsed text, then
+ * asks the LLM for an answer where every statement cites its sources
+ * (rule, page, section).
+ *
+ * Expects POST body: { documentId: string, question: string, history?: Array<{ role, content }> }
+ */
+
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { logger, generateRequestId, calculateCost } from "../_shared/logger.ts";
+import { createLLMProvider, getLLMConfig, LLMError, type ChatMessage, type LLMProvider } from "../_shared/llm.ts";
+import { checkRateLimit } from "../_shared/rate-limit.ts";
+import { embedMissingRules, embedTexts, getEmbeddingConfig, toPgVector } from "../_shared/embeddings.ts";
+import {
+  buildQAPrompt,
+  buildSources,
+  parseQAAnswer,
+  rankByQuestion,
+  type QAChunk,
+  type QAMessage,
+  type QARule,
+} from "../_shared/document-qa.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_QUESTION_CHARS = 1000;
+const MAX_RULES = 12;
+const MAX_EXCERPTS = 3;
+const MAX_HISTORY_MESSAGES = 6;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { documentId, question, history } = await req.json().catch(() => ({}));
+
+    if (!documentId || typeof question !== 'string' || question.trim() === '') {
+      return new Response(
+        JSON.stringify({ error: 'Invalid request body. Expected { documentId, question }' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const rateLimitOk = await checkRateLimit(user.id, "ask");
+    if (!rateLimitOk) {
+      return new Response(
+        JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // RLS: only the documents of the user are visible
+    const { data: document } = await supabaseClient
+      .from('documents')
+      .select('id')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (!document) {
+      return new Response(
+        JSON.stringify({ error: 'Document not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const trimmedQuestion = question.trim().slice(0, MAX_QUESTION_CHARS);
+    const rules = await retrieveRules(supabaseClient, documentId, trimmedQuestion, requestId);
+    const chunks = await retrieveExcerpts(supabaseClient, documentId, trimmedQuestion);
+    const sources = buildSources(rules, chunks);
+
+    if (sources.length === 0) {
+      return new Response(
+        JSON.stringify({ statements: [], answered: false }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let llm: LLMProvider;
+    try {
+      llm = createLLMProvider(getLLMConfig("qa"));
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : 'LLM provider not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Previous turns of the conversation, for follow-up questions
+    const previous: ChatMessage[] = (Array.isArray(history) ? history as QAMessage[] : [])
+      .filter((m) => (m?.role === 'user' || m?.role === 'assistant') && typeof m.content === 'string')
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map((m) => ({ role: m.role, content: m.content.slice(0, MAX_QUESTION_CHARS) }));
+
+    const { content, usage } = await llm.chat({
+      json: true,
+      temperature: 0,
+      messages: [
+        { role: "system", content: "Tu réponds aux questions d'analystes métier sur un document, en citant tes sources." },
+        ...previous,
+        { role: "user", content: buildQAPrompt(trimmedQuestion, sources) },
+      ],
+    });
+
+    if (usage) {
+      const cost = calculateCost(usage.inputTokens, usage.outputTokens, llm.model);
+      logger.info({ requestId, costUsd: cost, tokens: usage, llmProvider: llm.name, llmModel: llm.model }, "Q&A cost");
+    }
+
+    const statements = parseQAAnswer(content || '', sources).map((statement) => ({
+      text: statement.text,
+      citations: statement.citations.map(({ ref, kind, ruleId, page, section }) => ({ ref, kind, ruleId, page, section })),
+    }));
+
+    logger.info({
+      requestId,
+      userId: user.id,
+      documentId,
+      rules: rules.length,
+      excerpts: chunks.length,
+      statements: statements.length,
+    }, "Document question answered");
+
+    return new Response(
+      JSON.stringify({ statements, answered: statements.length > 0 }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    logger.error({
+      requestId,
+      status: error instanceof LLMError ? error.status : undefined,
+      error: error instanceof Error ? error.message : String(error),
+    }, "Error answering document question");
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+/**
+ * Rules closest to the question: semantic matches first (when embeddings are
+ * configured), completed by lexical matches
+ */
+async function retrieveRules(
+  supabaseClient: SupabaseClient,
+  documentId: string,
+  question: string,
+  requestId: string,
+): Promise<QARule[]> {
+  const { data: rules, error } = await supabaseClient
+    .from('rules')
+    .select('id, text, domain, conditions, source_page, source_sect')
+    .eq('document_id', documentId);
+
+  if (error) throw new Error(`Failed to fetch rules: ${error.message}`);
+  const allRules = (rules || []) as QARule[];
+
+  const semanticIds: string[] = [];
+  const config = getEmbeddingConfig();
+  if (config && allRules.length > 0) {
+    try {
+      const serviceClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+      await embedMissingRules(serviceClient, config, { documentId });
+
+      const [queryEmbedding] = await embedTexts(config, [question]);
+      const { data: matches, error: matchError } = await supabaseClient.rpc('match_rules', {
+        p_query_embedding: toPgVector(queryEmbedding),
+        p_match_count: MAX_RULES,
+        p_document_id: documentId,
+      });
+      if (matchError) throw matchError;
+      semanticIds.push(...((matches || []) as { id: string }[]).map((m) => m.id));
+    } catch (err) {
+      logger.warn({ requestId, error: err instanceof Error ? err.message : String(err) }, "Semantic retrieval failed, lexical only");
+    }
+  }
+
+  const byId = new Map(allRules.map((r) => [r.id, r]));
+  const lexical = rankByQuestion(question, allRules, (r) => `${r.text} ${r.domain ?? ''} ${r.source_sect ?? ''}`, MAX_RULES);
+  const ids = Array.from(new Set([...semanticIds, ...lexical.map((r) => r.id)])).slice(0, MAX_RULES);
+  return ids.map((id) => byId.get(id)).filter((r): r is QARule => !!r);
+}
+
+/**
+ * Most relevant chunks of the latest extraction of the document
+ */
+async function retrieveExcerpts(
+  supabaseClient: SupabaseClient,
+  documentId: string,
+  question: string,
+): Promise<QAChunk[]> {
+  const { data: latest } = await supabaseClient
+    .from('document_chunks')
+    .select('job_id')
+    .eq('document_id', documentId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!latest) return [];
+
+  const { data: chunks, error } = await supabaseClient
+    .from('document_chunks')
+    .select('text, page_start, page_end')
+    .eq('job_id', latest.job_id)
+    .order('chunk_index');
+
+  if (error) throw new Error(`Failed to fetch document chunks: ${error.message}`);
+  return rankByQuestion(question, (chunks || []) as QAChunk[], (c) => c.text, MAX_EXCERPTS);
+}
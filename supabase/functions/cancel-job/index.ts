@@ -0,0 +1,141 @@
+/**
+ * Cancel a running extraction job
+ *
+ * Batches not claimed yet are cancelled; batches already sent to the LLM
+ * finish and are billed, and their cost is added to the job when they
+ * complete. The document is marked cancelled and can then be deleted.
+ *
+ * Expects POST body: { jobId: string }
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { logger, generateRequestId } from "../_shared/logger.ts";
+import { cancelPendingBatches, recordJobCost } from "../upload-documents/extraction/queue.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { jobId } = await req.json();
+
+    if (!jobId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing jobId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Verify ownership through the job's document
+    const { data: job, error: jobError } = await supabaseClient
+      .from('jobs')
+      .select('id, document_id, status, type, documents!inner(user_id)')
+      .eq('id', jobId)
+      .eq('documents.user_id', user.id)
+      .maybeSingle();
+
+    if (jobError || !job) {
+      return new Response(
+        JSON.stringify({ error: 'Job not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Queue tables are written by the backend only
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!serviceRoleKey) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY not configured');
+    }
+    const serviceClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // Only running jobs can be cancelled (a finalizing job is already writing its rules)
+    const { data: cancelled, error: cancelError } = await serviceClient
+      .from('jobs')
+      .update({ status: 'cancelled', cancelled_at: new Date().toISOString(), error: 'Cancelled by user' })
+      .eq('id', jobId)
+      .in('status', ['queued', 'running'])
+      .select('id');
+
+    if (cancelError) throw cancelError;
+
+    if (!cancelled || cancelled.length === 0) {
+      return new Response(
+        JSON.stringify({ error: `Job cannot be cancelled (status: ${job.status})` }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const batchesCancelled = await cancelPendingBatches(serviceClient, jobId);
+
+    // A cancelled re-extraction leaves the document and its current rules as they are
+    if (job.type === 'extract') {
+      await serviceClient
+        .from('documents')
+        .update({ status: 'cancelled' })
+        .eq('id', job.document_id);
+    }
+
+    const costUsd = await recordJobCost(serviceClient, jobId);
+
+    logger.info({
+      requestId,
+      jobId,
+      documentId: job.document_id,
+      userId: user.id,
+      batchesCancelled,
+      costUsd,
+    }, "Extraction job cancelled");
+
+    return new Response(
+      JSON.stringify({ jobId, status: 'cancelled', batchesCancelled, costUsd }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    logger.error({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }, "Error cancelling job");
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
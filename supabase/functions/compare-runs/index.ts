@@ -0,0 +1,221 @@
+/**
+ * Compare two extraction runs of a document
+ *
+ * Aligns the rules of run A (reference) and run B and returns the added,
+ * removed and changed rules with their confidence deltas, plus the cost and
+ * latency of each run (extraction_completed metrics stored on the job).
+ *
+ * Expects POST body: { runA: string, runB: string } (job ids)
+ */
+
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { logger, generateRequestId } from "../_shared/logger.ts";
+import { diffRules, type ComparableRule } from "../_shared/rule-diff.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const RULE_COLUMNS = 'id, text, confidence, domain, conditions, tags, source_page, source_sect, ungrounded';
+
+interface RunRow {
+  id: string;
+  document_id: string;
+  type: string;
+  status: string;
+  settings: Record<string, unknown> | null;
+  metrics: Record<string, unknown> | null;
+  rules_count: number | null;
+  cost_usd: number | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface RunRule extends ComparableRule {
+  tags: string[];
+  source_sect: string | null;
+  ungrounded: boolean;
+}
+
+/**
+ * Rules of a run: document rules for the upload run, extraction_run_rules for a re-extraction
+ */
+async function loadRunRules(supabaseClient: SupabaseClient, run: RunRow): Promise<RunRule[]> {
+  if (run.type === 're-extract') {
+    const { data, error } = await supabaseClient
+      .from('extraction_run_rules')
+      .select(RULE_COLUMNS)
+      .eq('job_id', run.id)
+      .order('source_page', { ascending: true });
+    if (error) throw new Error(`Failed to load run rules: ${error.message}`);
+    return (data || []) as RunRule[];
+  }
+
+  const { data, error } = await supabaseClient
+    .from('rules')
+    .select(RULE_COLUMNS)
+    .eq('job_id', run.id)
+    .order('source_page', { ascending: true });
+  if (error) throw new Error(`Failed to load run rules: ${error.message}`);
+  if (data && data.length > 0) return data as RunRule[];
+
+  // Documents extracted before rules were linked to their job
+  const { data: legacy, error: legacyError } = await supabaseClient
+    .from('rules')
+    .select(RULE_COLUMNS)
+    .eq('document_id', run.document_id)
+    .is('job_id', null)
+    .order('source_page', { ascending: true });
+  if (legacyError) throw new Error(`Failed to load run rules: ${legacyError.message}`);
+  return (legacy || []) as RunRule[];
+}
+
+function runSummary(run: RunRow, rules: RunRule[]) {
+  const confidences = rules.map((r) => r.confidence ?? 0);
+  return {
+    id: run.id,
+    type: run.type,
+    status: run.status,
+    settings: run.settings,
+    createdAt: run.created_at,
+    completedAt: run.completed_at,
+    rulesCount: rules.length,
+    avgConfidence: confidences.length > 0
+      ? Math.round((confidences.reduce((a, b) => a + b, 0) / confidences.length) * 100) / 100
+      : null,
+    costUsd: run.cost_usd,
+    durationMs: (run.metrics?.durationMs as number | undefined)
+      ?? (run.completed_at ? new Date(run.completed_at).getTime() - new Date(run.created_at).getTime() : null),
+    metrics: run.metrics,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { runA, runB } = await req.json();
+
+    if (!runA || !runB || runA === runB) {
+      return new Response(
+        JSON.stringify({ error: 'Expected two different runs { runA, runB }' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Both runs must belong to the same document of the user
+    const { data: runs, error: runsError } = await supabaseClient
+      .from('jobs')
+      .select('id, document_id, type, status, settings, metrics, rules_count, cost_usd, created_at, completed_at, documents!inner(user_id)')
+      .in('id', [runA, runB])
+      .eq('documents.user_id', user.id);
+
+    if (runsError) throw runsError;
+
+    const a = runs?.find((r) => r.id === runA) as RunRow | undefined;
+    const b = runs?.find((r) => r.id === runB) as RunRow | undefined;
+
+    if (!a || !b) {
+      return new Response(
+        JSON.stringify({ error: 'Run not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (a.document_id !== b.document_id) {
+      return new Response(
+        JSON.stringify({ error: 'Runs belong to different documents' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (a.status !== 'done' || b.status !== 'done') {
+      return new Response(
+        JSON.stringify({ error: 'Both runs must be completed' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const [rulesA, rulesB] = await Promise.all([
+      loadRunRules(supabaseClient, a),
+      loadRunRules(supabaseClient, b),
+    ]);
+
+    const diff = diffRules(rulesA, rulesB);
+    const deltas = diff.changed.concat(diff.unchanged).map((p) => p.confidenceDelta);
+
+    logger.info({
+      requestId,
+      documentId: a.document_id,
+      runA,
+      runB,
+      added: diff.added.length,
+      removed: diff.removed.length,
+      changed: diff.changed.length,
+    }, "Extraction runs compared");
+
+    return new Response(
+      JSON.stringify({
+        runA: runSummary(a, rulesA),
+        runB: runSummary(b, rulesB),
+        summary: {
+          added: diff.added.length,
+          removed: diff.removed.length,
+          changed: diff.changed.length,
+          unchanged: diff.unchanged.length,
+          avgConfidenceDelta: deltas.length > 0
+            ? Math.round((deltas.reduce((x, y) => x + y, 0) / deltas.length) * 100) / 100
+            : 0,
+        },
+        added: diff.added,
+        removed: diff.removed,
+        changed: diff.changed,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    logger.error({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }, "Error comparing runs");
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
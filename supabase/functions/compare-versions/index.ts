@@ -0,0 +1,202 @@
+/**
+ * Compare two versions of a document
+ *
+ * Aligns the rules of the base version and the target version by text
+ * similarity and returns the rules added, removed and modified in between.
+ *
+ * Expects POST body: { documentId: string, baseDocumentId?: string }
+ * (baseDocumentId defaults to the previous version of documentId)
+ */
+
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { logger, generateRequestId } from "../_shared/logger.ts";
+import { diffRules, type ComparableRule } from "../_shared/rule-diff.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const RULE_COLUMNS = 'id, document_id, text, confidence, domain, conditions, tags, source_page, source_sect';
+const RULES_PAGE_SIZE = 1000; // PostgREST max rows per response
+
+interface VersionRow {
+  id: string;
+  name: string;
+  version: number;
+  status: string;
+  parent_document_id: string | null;
+  created_at: string;
+}
+
+interface VersionRule extends ComparableRule {
+  document_id: string;
+  tags: string[];
+  source_sect: string | null;
+}
+
+function versionSummary(doc: VersionRow, rules: VersionRule[]) {
+  return {
+    id: doc.id,
+    name: doc.name,
+    version: doc.version,
+    createdAt: doc.created_at,
+    rulesCount: rules.length,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { documentId, baseDocumentId } = await req.json();
+
+    if (!documentId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing documentId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: target, error: targetError } = await supabaseClient
+      .from('documents')
+      .select('id, name, version, status, parent_document_id, created_at')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (targetError) throw targetError;
+
+    if (!target) {
+      return new Response(
+        JSON.stringify({ error: 'Document not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const baseId = baseDocumentId || target.parent_document_id;
+    if (!baseId || baseId === documentId) {
+      return new Response(
+        JSON.stringify({ error: 'No previous version to compare with' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: base, error: baseError } = await supabaseClient
+      .from('documents')
+      .select('id, name, version, status, parent_document_id, created_at')
+      .eq('id', baseId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (baseError) throw baseError;
+
+    if (!base) {
+      return new Response(
+        JSON.stringify({ error: 'Base version not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (base.status !== 'done' || target.status !== 'done') {
+      return new Response(
+        JSON.stringify({ error: 'Both versions must be fully extracted' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const baseRules = await fetchRules(supabaseClient, base.id);
+    const targetRules = await fetchRules(supabaseClient, target.id);
+
+    const diff = diffRules(baseRules, targetRules);
+
+    logger.info({
+      requestId,
+      documentId,
+      baseDocumentId: base.id,
+      added: diff.added.length,
+      removed: diff.removed.length,
+      changed: diff.changed.length,
+    }, "Document versions compared");
+
+    return new Response(
+      JSON.stringify({
+        base: versionSummary(base as VersionRow, baseRules),
+        target: versionSummary(target as VersionRow, targetRules),
+        summary: {
+          added: diff.added.length,
+          removed: diff.removed.length,
+          changed: diff.changed.length,
+          unchanged: diff.unchanged.length,
+        },
+        added: diff.added,
+        removed: diff.removed,
+        changed: diff.changed,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    logger.error({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }, "Error comparing document versions");
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+/**
+ * All the rules of a version, page by page so large documents are not truncated
+ */
+async function fetchRules(supabaseClient: SupabaseClient, documentId: string): Promise<VersionRule[]> {
+  const rules: VersionRule[] = [];
+  for (let from = 0; ; from += RULES_PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from('rules')
+      .select(RULE_COLUMNS)
+      .eq('document_id', documentId)
+      .order('source_page', { ascending: true })
+      .order('id')
+      .range(from, from + RULES_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rules.push(...((data || []) as VersionRule[]));
+    if (!data || data.length < RULES_PAGE_SIZE) return rules;
+  }
+}
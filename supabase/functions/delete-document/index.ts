@@ -1,4 +1,5 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { DOCUMENTS_BUCKET, isStoredObjectPath } from "../_shared/storage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -52,6 +53,19 @@ Deno.serve(async (req) => {
 
     console.log('Deleting document:', documentId);
 
+    const { data: document } = await supabase
+      .from('documents')
+      .select('path, parent_document_id')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    // Next version of this document, relinked to the previous one after deletion
+    const { data: nextVersion } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('parent_document_id', documentId)
+      .maybeSingle();
+
     // Delete all test cases related to rules from this document
     const { data: rules } = await supabase
       .from('rules')
@@ -77,6 +91,27 @@ Deno.serve(async (req) => {
     
     if (error) throw error;
 
+    if (nextVersion) {
+      await supabase
+        .from('documents')
+        .update({ parent_document_id: document?.parent_document_id ?? null })
+        .eq('id', nextVersion.id);
+      console.log('Relinked next version:', nextVersion.id);
+    }
+
+    // Remove the original file; a leftover object is not worth failing the deletion
+    if (isStoredObjectPath(document?.path)) {
+      const { error: storageError } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .remove([document.path]);
+
+      if (storageError) {
+        console.error('Error deleting original file:', document.path, storageError);
+      } else {
+        console.log('Deleted original file:', document.path);
+      }
+    }
+
     console.log('Document deleted successfully:', documentId);
 
     return new Response(
@@ -0,0 +1,389 @@
+/**
+ * Detect contradictions and overlaps between rules
+ *
+ * Starts an analysis (conflict_analyses) of the rules of a document, compared
+ * with each other and, unless disabled, with the rules of the other documents
+ * of the user. Candidate pairs (see _shared/conflicts.ts) are confirmed and
+ * explained by the LLM, confirmed conflicts are stored in rule_conflicts.
+ * Responds 202 with the analysis id, the analysis runs in the background.
+ *
+ * Expects POST body: { documentId: string, includeOtherDocuments?: boolean }
+ */
+
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { logger, generateRequestId, calculateCost } from "../_shared/logger.ts";
+import { createLLMProvider, getLLMConfig, type LLMProvider } from "../_shared/llm.ts";
+import { checkRateLimit } from "../_shared/rate-limit.ts";
+import {
+  buildConflictPrompt,
+  excludedDocuments,
+  findConflictCandidates,
+  pairKey,
+  parseConflictVerdicts,
+  type ConflictDocument,
+  type ConflictRule,
+} from "../_shared/conflicts.ts";
+
+// Supabase Edge Runtime: keeps the worker alive after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MIN_SUBJECT_SIMILARITY = 0.5;
+const MAX_PAIRS = 60; // Checked per analysis, most suspicious first
+const PAIRS_PER_CALL = 10;
+const PAGE_SIZE = 1000; // PostgREST max rows per response
+// A running analysis older than this is considered lost (runtime recycled)
+const STALE_ANALYSIS_MINUTES = 10;
+
+interface AnalysedRule extends ConflictRule {
+  revision: number;
+}
+
+interface CheckedPair {
+  rule_a_id: string;
+  rule_b_id: string;
+  rule_a_revision: number;
+  rule_b_revision: number;
+}
+
+interface AnalysisContext {
+  analysisId: string;
+  userId: string;
+  documentId: string;
+  includeOtherDocuments: boolean;
+  requestId: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const documentId = body?.documentId;
+    const includeOtherDocuments = body?.includeOtherDocuments !== false;
+
+    if (!documentId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing documentId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: document } = await supabaseClient
+      .from('documents')
+      .select('id')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!document) {
+      return new Response(
+        JSON.stringify({ error: 'Document not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!serviceRoleKey) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY not configured');
+    }
+    const serviceClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // One analysis at a time per document
+    const staleBefore = new Date(Date.now() - STALE_ANALYSIS_MINUTES * 60 * 1000).toISOString();
+    const { data: running } = await serviceClient
+      .from('conflict_analyses')
+      .select('id')
+      .eq('document_id', documentId)
+      .eq('status', 'running')
+      .gt('created_at', staleBefore)
+      .limit(1)
+      .maybeSingle();
+
+    if (running) {
+      return new Response(
+        JSON.stringify({ analysisId: running.id, alreadyRunning: true }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const rateLimitOk = await checkRateLimit(user.id, "conflicts");
+    if (!rateLimitOk) {
+      return new Response(
+        JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let llm: LLMProvider;
+    try {
+      llm = createLLMProvider(getLLMConfig("conflicts"));
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : 'LLM provider not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: analysis, error: analysisError } = await serviceClient
+      .from('conflict_analyses')
+      .insert({ user_id: user.id, document_id: documentId, include_other_documents: includeOtherDocuments })
+      .select('id')
+      .single();
+
+    if (analysisError || !analysis) {
+      throw new Error(`Failed to create analysis: ${analysisError?.message}`);
+    }
+
+    const context: AnalysisContext = {
+      analysisId: analysis.id,
+      userId: user.id,
+      documentId,
+      includeOtherDocuments,
+      requestId,
+    };
+
+    const work = runAnalysis(serviceClient, llm, context).catch(async (error) => {
+      logger.error({
+        requestId,
+        analysisId: analysis.id,
+        error: error instanceof Error ? error.message : String(error),
+      }, "Conflict analysis failed");
+
+      await serviceClient
+        .from('conflict_analyses')
+        .update({ status: 'error', error: error instanceof Error ? error.message : 'Unknown error', completed_at: new Date().toISOString() })
+        .eq('id', analysis.id);
+    });
+
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(work);
+    } else {
+      await work;
+    }
+
+    return new Response(
+      JSON.stringify({ analysisId: analysis.id }),
+      { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    logger.error({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }, "Error starting conflict analysis");
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+/**
+ * Select candidate pairs, have the LLM confirm them and store the conflicts
+ */
+async function runAnalysis(
+  supabaseClient: SupabaseClient,
+  llm: LLMProvider,
+  context: AnalysisContext,
+): Promise<void> {
+  const { analysisId, userId, documentId, requestId } = context;
+  const startTime = Date.now();
+
+  const rules = await fetchRules(supabaseClient, context);
+  const revisions = new Map(rules.map((r) => [r.id, r.revision]));
+
+  // Pairs already stored as conflicts (including dismissed ones) are not
+  // checked again, nor pairs already checked whose rules did not change
+  const exclude = new Set<string>();
+  const known = await fetchPages<{ rule_a_id: string; rule_b_id: string }>((from, to) =>
+    supabaseClient
+      .from('rule_conflicts')
+      .select('rule_a_id, rule_b_id')
+      .eq('user_id', userId)
+      .or(`document_a_id.eq.${documentId},document_b_id.eq.${documentId}`)
+      .order('id')
+      .range(from, to)
+  );
+  for (const k of known) exclude.add(pairKey(k.rule_a_id, k.rule_b_id));
+
+  const checked = await fetchPages<CheckedPair>((from, to) =>
+    supabaseClient
+      .from('conflict_checked_pairs')
+      .select('rule_a_id, rule_b_id, rule_a_revision, rule_b_revision')
+      .eq('user_id', userId)
+      .or(`document_a_id.eq.${documentId},document_b_id.eq.${documentId}`)
+      .order('rule_a_id')
+      .order('rule_b_id')
+      .range(from, to)
+  );
+  for (const c of checked) {
+    if (revisions.get(c.rule_a_id) === c.rule_a_revision && revisions.get(c.rule_b_id) === c.rule_b_revision) {
+      exclude.add(pairKey(c.rule_a_id, c.rule_b_id));
+    }
+  }
+
+  const candidates = findConflictCandidates(rules, documentId, {
+    minSimilarity: MIN_SUBJECT_SIMILARITY,
+    maxPairs: MAX_PAIRS,
+    exclude,
+  });
+
+  let costUsd = 0;
+  let conflictsFound = 0;
+  for (let i = 0; i < candidates.length; i += PAIRS_PER_CALL) {
+    const batch = candidates.slice(i, i + PAIRS_PER_CALL);
+    const { content, usage } = await llm.chat({
+      json: true,
+      temperature: 0,
+      messages: [
+        { role: "system", content: "Tu détectes les incohérences entre règles métier." },
+        { role: "user", content: buildConflictPrompt(batch) },
+      ],
+    });
+    if (usage) costUsd += calculateCost(usage.inputTokens, usage.outputTokens, llm.model);
+
+    const conflicts = parseConflictVerdicts(content || '', batch.length).map((verdict) => {
+      const { a, b } = batch[verdict.pair];
+      return {
+        user_id: userId,
+        rule_a_id: a.id,
+        rule_b_id: b.id,
+        document_a_id: a.document_id,
+        document_b_id: b.document_id,
+        kind: verdict.kind,
+        explanation: verdict.explanation,
+        analysis_id: analysisId,
+      };
+    });
+
+    // Stored batch by batch: pairs are only marked checked once their conflicts are saved
+    if (conflicts.length > 0) {
+      const { error: insertError } = await supabaseClient
+        .from('rule_conflicts')
+        .upsert(conflicts, { onConflict: 'rule_a_id,rule_b_id', ignoreDuplicates: true });
+      if (insertError) throw new Error(`Failed to store conflicts: ${insertError.message}`);
+      conflictsFound += conflicts.length;
+    }
+
+    const { error: checkedError } = await supabaseClient
+      .from('conflict_checked_pairs')
+      .upsert(batch.map(({ a, b }) => ({
+        rule_a_id: a.id,
+        rule_b_id: b.id,
+        user_id: userId,
+        document_a_id: a.document_id,
+        document_b_id: b.document_id,
+        rule_a_revision: a.revision,
+        rule_b_revision: b.revision,
+        analysis_id: analysisId,
+        checked_at: new Date().toISOString(),
+      })), { onConflict: 'rule_a_id,rule_b_id' });
+    if (checkedError) throw new Error(`Failed to store checked pairs: ${checkedError.message}`);
+  }
+
+  await supabaseClient
+    .from('conflict_analyses')
+    .update({
+      status: 'done',
+      pairs_checked: candidates.length,
+      conflicts_found: conflictsFound,
+      cost_usd: Number(costUsd.toFixed(6)),
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', analysisId);
+
+  logger.info({
+    requestId,
+    analysisId,
+    documentId,
+    rules: rules.length,
+    pairsChecked: candidates.length,
+    pairsSkipped: exclude.size,
+    conflictsFound,
+    costUsd,
+    durationMs: Date.now() - startTime,
+  }, "Conflict analysis completed");
+}
+
+/**
+ * Rules of the document, or of all the documents of the user except the
+ * other versions and copies of the document (see excludedDocuments)
+ */
+async function fetchRules(supabaseClient: SupabaseClient, context: AnalysisContext): Promise<AnalysedRule[]> {
+  const rules = await fetchPages<AnalysedRule>((from, to) => {
+    let query = supabaseClient
+      .from('rules')
+      .select('id, document_id, text, domain, conditions, revision, documents!inner(user_id)')
+      .eq('documents.user_id', context.userId)
+      .order('id')
+      .range(from, to);
+    if (!context.includeOtherDocuments) query = query.eq('document_id', context.documentId);
+    return query;
+  });
+  if (!context.includeOtherDocuments) return rules;
+
+  const documents = await fetchPages<ConflictDocument>((from, to) =>
+    supabaseClient
+      .from('documents')
+      .select('id, parent_document_id, file_hash')
+      .eq('user_id', context.userId)
+      .order('id')
+      .range(from, to)
+  );
+  const excluded = excludedDocuments(documents, context.documentId);
+  return rules.filter((rule) => !excluded.has(rule.document_id));
+}
+
+/**
+ * All the rows of a query, page by page
+ */
+async function fetchPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to fetch rows: ${error.message}`);
+
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Download the original file of a document
+ *
+ * Returns a short-lived signed URL to the object in the private documents
+ * bucket; the bucket itself is never exposed.
+ *
+ * Expects POST body: { documentId: string, inline?: boolean }
+ * (inline: URL meant for an embedded viewer instead of a file download)
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { logger, generateRequestId } from "../_shared/logger.ts";
+import { DOCUMENTS_BUCKET, SIGNED_URL_TTL_SECONDS, isStoredObjectPath } from "../_shared/storage.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { documentId, inline } = await req.json();
+
+    if (!documentId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing documentId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: document, error: docError } = await supabaseClient
+      .from('documents')
+      .select('id, name, path, mime_type')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (docError) throw docError;
+
+    if (!document) {
+      return new Response(
+        JSON.stringify({ error: 'Document not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isStoredObjectPath(document.path)) {
+      return new Response(
+        JSON.stringify({ error: 'Original file not available for this document' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: signed, error: signError } = await supabaseClient.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrl(document.path, SIGNED_URL_TTL_SECONDS, inline ? undefined : { download: document.name });
+
+    if (signError || !signed) {
+      logger.warn({ requestId, documentId, error: signError?.message }, "Original file not found in storage");
+      return new Response(
+        JSON.stringify({ error: 'Original file not available for this document' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    logger.info({ requestId, documentId, userId: user.id }, "Signed download URL created");
+
+    return new Response(
+      JSON.stringify({
+        url: signed.signedUrl,
+        name: document.name,
+        mimeType: document.mime_type,
+        expiresIn: SIGNED_URL_TTL_SECONDS,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    logger.error({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }, "Error creating download URL");
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
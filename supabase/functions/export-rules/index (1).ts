@@ -15,6 +15,11 @@ Deno.serve(async (req) => {
     const url = new URL(req.url);
     const format = url.searchParams.get('format') || 'json';
     const documentId = url.searchParams.get('documentId');
+    // Client deliverables: only rules that went through review
+    const approvedOnly = url.searchParams.get('approvedOnly') === 'true';
+    // Selection export (RulesTable bulk action): ids are posted, a URL can't hold hundreds of them
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const ruleIds: string[] | null = Array.isArray(body.ruleIds) ? body.ruleIds : null;
 
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -25,6 +30,12 @@ Deno.serve(async (req) => {
     if (documentId) {
       query = query.eq('document_id', documentId);
     }
+    if (approvedOnly) {
+      query = query.eq('review_status', 'approved');
+    }
+    if (ruleIds) {
+      query = query.in('id', ruleIds);
+    }
 
     const { data: rules, error } = await query;
 
@@ -43,7 +54,8 @@ Deno.serve(async (req) => {
         conditions: JSON.stringify(r.conditions || []),
         confidence: r.confidence || 0,
         page: r.source_page || 0,
-        section: r.source_sect || ''
+        section: r.source_sect || '',
+        review_status: r.review_status || 'draft'
       })) || [];
 
       const wb = XLSX.utils.book_new();
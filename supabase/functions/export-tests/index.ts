@@ -14,6 +14,8 @@ Deno.serve(async (req) => {
         const url = new URL(req.url);
         const documentId = url.searchParams.get('documentId');
         const format = url.searchParams.get('format') || 'playwright';
+        // Client deliverables: only tests of rules that went through review
+        const approvedOnly = url.searchParams.get('approvedOnly') === 'true';
 
         if (!documentId) {
             return new Response(
@@ -32,18 +34,25 @@ Deno.serve(async (req) => {
             }
         );
 
-        // Fetch test cases with rule details
-        const { data: testCases, error } = await supabase
+        // Fetch test cases with rule details (inner join: only rules of the document)
+        let query = supabase
             .from('test_cases')
             .select(`
         *,
-        rules (
+        rules!inner (
           text,
-          domain
+          domain,
+          review_status
         )
       `)
             .eq('rules.document_id', documentId);
 
+        if (approvedOnly) {
+            query = query.eq('rules.review_status', 'approved');
+        }
+
+        const { data: testCases, error } = await query;
+
         if (error) throw error;
 
         if (!testCases || testCases.length === 0) {
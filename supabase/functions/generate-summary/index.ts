@@ -9,6 +9,7 @@
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { logger, generateRequestId, calculateCost, type SummaryContext } from "../_shared/logger.ts";
+import { createLLMProvider, getLLMConfig, LLMError, type LLMProvider } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -110,9 +111,11 @@ Deno.serve(async (req) => {
 });
 
 async function generateSummary(rules: Rule[], requestId: string): Promise<string | null> {
-  const apiKey = Deno.env.get("OPENAI_API_KEY");
-  if (!apiKey) {
-    logger.error({ requestId }, "OPENAI_API_KEY not configured");
+  let llm: LLMProvider;
+  try {
+    llm = createLLMProvider(getLLMConfig("summary"));
+  } catch (error) {
+    logger.error({ requestId, error: error instanceof Error ? error.message : String(error) }, "LLM provider not configured");
     return null;
   }
 
@@ -132,40 +135,29 @@ en restant factuel et synthétique, sans ajout d'information externe.
   `;
 
   try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: "Tu résumes des documents métier." },
-          { role: "user", content: summaryPrompt },
-        ],
-        temperature: 0.3,
-        max_tokens: 500,
-      }),
+    const { content, usage } = await llm.chat({
+      messages: [
+        { role: "system", content: "Tu résumes des documents métier." },
+        { role: "user", content: summaryPrompt },
+      ],
+      temperature: 0.3,
+      maxTokens: 500,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      logger.error({ requestId, status: response.status, error: errorText }, "OpenAI API error for summary");
-      return null;
-    }
-
-    const data = await response.json();
-    const summary = data?.choices?.[0]?.message?.content?.trim() ?? null;
+    const summary = content?.trim() || null;
 
     // Log cost
-    if (data.usage) {
-      const cost = calculateCost(data.usage.prompt_tokens, data.usage.completion_tokens, "gpt-4o-mini");
-      logger.info({ requestId, costUsd: cost, tokens: data.usage }, "Summary cost");
+    if (usage) {
+      const cost = calculateCost(usage.inputTokens, usage.outputTokens, llm.model);
+      logger.info({ requestId, costUsd: cost, tokens: usage, llmProvider: llm.name, llmModel: llm.model }, "Summary cost");
     }
 
     return summary;
   } catch (error) {
+    if (error instanceof LLMError) {
+      logger.error({ requestId, status: error.status, provider: error.provider, error: error.message }, "LLM API error for summary");
+      return null;
+    }
     logger.error(
       { requestId, error: error instanceof Error ? error.message : String(error) },
       "Error generating summary"
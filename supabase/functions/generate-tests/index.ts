@@ -1,4 +1,6 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { createLLMProvider, getLLMConfig, type LLMProvider } from "../_shared/llm.ts";
+import { quantityKey, ruleQuantities } from "../_shared/quantities.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,24 +13,84 @@ Deno.serve(async (req) => {
   }
 
   try {
+    // Get user from authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "No authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } },
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
     const body = await req.json().catch(() => ({}));
-    const { ruleIds } = body;
+    const { ruleIds, staleOnly } = body;
 
     // If no ruleIds provided, fetch all rules (limited to 50)
-    const fetchAllRules = !ruleIds || !Array.isArray(ruleIds) || ruleIds.length === 0;
+    let fetchAllRules = !ruleIds || !Array.isArray(ruleIds) || ruleIds.length === 0;
 
+    // Service role for the writes: every read below is restricted to the caller's documents
     const supabaseClient = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
     );
 
+    // Regeneration of stale tests: only the rules (among ruleIds) that have some.
+    // Tests of rules dropped by a new document version can't be regenerated.
+    let staleRuleIds: string[] = [];
+    let staleTestIds: { id: string; rule_id: string }[] = [];
+    if (staleOnly) {
+      let staleQuery = supabaseClient
+        .from("test_cases")
+        .select("id, rule_id, rules!inner(documents!inner(user_id))")
+        .eq("rules.documents.user_id", user.id)
+        .eq("stale", true)
+        .neq("stale_reason", "rule_removed");
+      if (!fetchAllRules) {
+        staleQuery = staleQuery.in("rule_id", ruleIds);
+      }
+
+      const { data: staleTests, error: staleError } = await staleQuery;
+      if (staleError) {
+        console.error("Failed to fetch stale test cases:", staleError);
+        return new Response(
+          JSON.stringify({ error: "Failed to fetch stale test cases" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      staleTestIds = (staleTests || []).map((t) => ({ id: t.id as string, rule_id: t.rule_id as string }));
+      staleRuleIds = Array.from(new Set(staleTestIds.map((t) => t.rule_id)));
+      if (staleRuleIds.length === 0) {
+        return new Response(
+          JSON.stringify({ generated: 0, replaced: 0, message: "No stale test cases" }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+      fetchAllRules = false;
+    }
+
     // Fetch rules
     let query = supabaseClient
       .from("rules")
-      .select("id, text, conditions, domain");
+      .select("id, text, conditions, domain, structure, revision, documents!inner(user_id)")
+      .eq("documents.user_id", user.id);
 
     if (!fetchAllRules) {
-      query = query.in("id", ruleIds);
+      query = query.in("id", staleOnly ? staleRuleIds : ruleIds);
     } else {
       query = query.limit(50); // Limit to 50 rules when fetching all
     }
@@ -52,10 +114,12 @@ Deno.serve(async (req) => {
 
     console.log(`Generating tests for ${rules.length} rules`);
 
-    const apiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!apiKey) {
+    let llm: LLMProvider;
+    try {
+      llm = createLLMProvider(getLLMConfig("tests"));
+    } catch (error) {
       return new Response(
-        JSON.stringify({ error: "OPENAI_API_KEY not configured" }),
+        JSON.stringify({ error: error instanceof Error ? error.message : "LLM provider not configured" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
       );
     }
@@ -63,39 +127,26 @@ Deno.serve(async (req) => {
     const allTests: any[] = [];
 
     for (const rule of rules) {
-      const prompt = `Génère entre 3 et 5 cas de test variés pour cette règle métier, incluant :\n- Un cas nominal (succès)\n- Un cas limite (edge case)\n- Un cas d'erreur\n\nRègle: ${rule.text}\nConditions: ${JSON.stringify(rule.conditions)}\nDomaine: ${rule.domain}\n\nRetourne un JSON strict avec le tableau "tests" contenant chaque objet test avec les champs:\n{\n  "description": string,\n  "inputs": object,\n  "expected": string\n}\n\nExemple de réponse:\n{\n  "tests": [\n    {\n      "description": "Cas nominal",\n      "inputs": { "example": "value" },\n      "expected": "résultat attendu"\n    }\n  ]\n}`;
+      // Normalized thresholds, so the edge cases test exactly at, below and above them
+      const thresholds = ruleQuantities(rule.text, rule.conditions).map(quantityKey);
+      const prompt = `Génère entre 3 et 5 cas de test variés pour cette règle métier, incluant :\n- Un cas nominal (succès)\n- Un cas limite (edge case)\n- Un cas d'erreur\n\nRègle: ${rule.text}\nConditions: ${JSON.stringify(rule.conditions)}\nDomaine: ${rule.domain}\n${rule.structure ? `Structure (conditions typées, délai): ${JSON.stringify(rule.structure)}\n` : ""}${thresholds.length > 0 ? `Seuils normalisés: ${thresholds.join(", ")} (cas limites à la valeur exacte, juste en dessous et juste au-dessus)\n` : ""}\nRetourne un JSON strict avec le tableau "tests" contenant chaque objet test avec les champs:\n{\n  "description": string,\n  "inputs": object,\n  "expected": string\n}\n\nExemple de réponse:\n{\n  "tests": [\n    {\n      "description": "Cas nominal",\n      "inputs": { "example": "value" },\n      "expected": "résultat attendu"\n    }\n  ]\n}`;
 
       try {
-        const response = await fetch("https://api.openai.com/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "gpt-4o-mini",
-            response_format: { type: "json_object" },
-            messages: [
-              { role: "system", content: "Tu génères des cas de test pour des règles métier." },
-              { role: "user", content: prompt },
-            ],
-          }),
+        const { content } = await llm.chat({
+          json: true,
+          messages: [
+            { role: "system", content: "Tu génères des cas de test pour des règles métier." },
+            { role: "user", content: prompt },
+          ],
         });
 
-        if (!response.ok) {
-          console.error(`OpenAI error for rule ${rule.id}: ${response.status}`);
-          continue;
-        }
-
-        const data = await response.json();
-        const content = data.choices?.[0]?.message?.content;
-
         if (content) {
           const parsed = JSON.parse(content);
           if (parsed.tests && Array.isArray(parsed.tests)) {
             for (const test of parsed.tests) {
               allTests.push({
                 rule_id: rule.id,
+                rule_revision: rule.revision,
                 notes: test.description,
                 inputs: test.inputs,
                 expected: test.expected,
@@ -123,8 +174,29 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Stale tests are replaced by the new ones (only for rules that got new tests).
+    // Deleted after the insert and by id, so a failure never loses them.
+    let replaced = 0;
+    if (staleOnly && allTests.length > 0) {
+      const regeneratedRuleIds = new Set(allTests.map((t) => t.rule_id));
+      const replacedIds = staleTestIds.filter((t) => regeneratedRuleIds.has(t.rule_id)).map((t) => t.id);
+      const { count, error: deleteError } = await supabaseClient
+        .from("test_cases")
+        .delete({ count: "exact" })
+        .in("id", replacedIds);
+
+      if (deleteError) {
+        console.error("Error deleting stale test cases:", deleteError);
+        return new Response(
+          JSON.stringify({ error: "Failed to replace stale test cases" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+      replaced = count ?? 0;
+    }
+
     return new Response(
-      JSON.stringify({ generated: allTests.length, tests: allTests }),
+      JSON.stringify({ generated: allTests.length, replaced, tests: allTests }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } },
     );
   } catch (error) {
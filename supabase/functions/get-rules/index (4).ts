@@ -1,10 +1,50 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { parseSearchQuery } from "../_shared/search-query.ts";
+import { ruleQuantities } from "../_shared/quantities.ts";
+
+// Listed columns: the embedding and search_vector are not sent to the client
+const RULE_COLUMNS = 'id, document_id, document_name, text, conditions, domain, tags, confidence, origin, aliases, structure, revision, review_status, reviewer_id, reviewed_at, rejection_reason, grounding_score, ungrounded, source_page, source_sect, source_start, source_end, source_quote, created_at';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Row of public.rules, as listed below and nested in the search_rules results
+interface RuleRow {
+  id: string;
+  text: string;
+  conditions: unknown;
+  source_page: number | null;
+  source_start: number | null;
+  source_end: number | null;
+  source_quote: string | null;
+  search_vector?: unknown;
+  embedding?: unknown;
+  [column: string]: unknown;
+}
+
+interface SearchMatch {
+  rule: RuleRow;
+  rank: number;
+  snippet: string;
+  total_count: number;
+}
+
+// Row without the embedding and search_vector (search_rules returns whole rows).
+// Span of the rule quote in the parsed document text (null if not located)
+// and amounts, durations, percentages and dates of the rule, normalized
+function toItem(r: RuleRow) {
+  const { search_vector: _searchVector, embedding: _embedding, ...rule } = r;
+  return {
+    ...rule,
+    span: r.source_start !== null && r.source_start !== undefined
+      ? { page: r.source_page, start: r.source_start, end: r.source_end, quote: r.source_quote }
+      : null,
+    quantities: ruleQuantities(r.text ?? '', r.conditions),
+  };
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -13,28 +53,76 @@ Deno.serve(async (req) => {
   try {
     const url = new URL(req.url);
     const documentId = url.searchParams.get('documentId');
+    const ruleId = url.searchParams.get('ruleId');
     const q = url.searchParams.get('q') || '';
     const domain = url.searchParams.get('domain');
+    const reviewStatus = url.searchParams.get('reviewStatus');
     const page = parseInt(url.searchParams.get('page') || '1');
     const pageSize = Math.min(parseInt(url.searchParams.get('pageSize') || '50'), 100);
 
+    // Caller's rights: rules are filtered by RLS
+    const authHeader = req.headers.get('Authorization');
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      authHeader ? { global: { headers: { Authorization: authHeader } } } : undefined
     );
 
-    let query = supabaseClient.from('rules').select('*', { count: 'exact' });
+    // Full-text search: ranked by relevance, with highlighted excerpts
+    const tsQuery = parseSearchQuery(q);
+    if (q.trim() && !tsQuery) {
+      // Only stop words, punctuation or exclusions: nothing can match
+      return new Response(
+        JSON.stringify({ items: [], total: 0, page, pageSize }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (tsQuery) {
+      const { data: matches, error } = await supabaseClient.rpc('search_rules', {
+        p_query: tsQuery,
+        p_document_id: documentId,
+        p_domain: domain && domain !== 'all' ? domain : null,
+        p_review_status: reviewStatus && reviewStatus !== 'all' ? reviewStatus : null,
+        p_limit: pageSize,
+        p_offset: (page - 1) * pageSize,
+      });
+
+      if (error) {
+        console.error('Search error:', error);
+        return new Response(
+          JSON.stringify({ error: 'Failed to search rules' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const results = (matches || []) as SearchMatch[];
+      return new Response(
+        JSON.stringify({
+          items: results.map((m) => ({ ...toItem(m.rule), rank: m.rank, snippet: m.snippet })),
+          total: results[0]?.total_count ?? 0,
+          page,
+          pageSize
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let query = supabaseClient.from('rules').select(RULE_COLUMNS, { count: 'exact' });
 
     if (documentId) {
       query = query.eq('document_id', documentId);
     }
 
+    if (ruleId) {
+      query = query.eq('id', ruleId);
+    }
+
     if (domain && domain !== 'all') {
       query = query.eq('domain', domain);
     }
 
-    if (q) {
-      query = query.or(`text.ilike.%${q}%,tags.cs.{${q}}`);
+    if (reviewStatus && reviewStatus !== 'all') {
+      query = query.eq('review_status', reviewStatus);
     }
 
     const { data: items, error, count } = await query
@@ -51,7 +139,7 @@ Deno.serve(async (req) => {
 
     return new Response(
       JSON.stringify({ 
-        items: items || [], 
+        items: ((items || []) as RuleRow[]).map(toItem), 
         total: count || 0, 
         page, 
         pageSize 
@@ -0,0 +1,588 @@
+/**
+ * Extraction worker: processes the batches queued by upload-documents
+ *
+ * Called by upload-documents once a document is queued, by itself when its
+ * time budget runs out with batches left, and periodically (cron) to resume
+ * jobs whose runtime was recycled. Every batch result is checkpointed in
+ * extraction_batches, so an interrupted job restarts where it stopped.
+ *
+ * Expects POST body: { jobId?: string } (no jobId: every queued job)
+ * Requires the service role key as bearer token.
+ */
+
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  logger,
+  generateRequestId,
+  type ExtractionCompletedContext,
+  type ErrorContext,
+} from "../_shared/logger.ts";
+import { embedMissingRules, getEmbeddingConfig } from "../_shared/embeddings.ts";
+import { invokeFunction } from "../_shared/functions.ts";
+import { createLLMProvider, getLLMConfig, type LLMProvider } from "../_shared/llm.ts";
+import { carryTestsForward } from "../_shared/test-carry-over.ts";
+import { CACHE_BACKEND, CONFIG, QUEUE_CONFIG } from "../upload-documents/config.ts";
+import {
+  extractBatch,
+  finalizeRules,
+  PROMPT_TEMPLATES,
+  type ExtractionSource,
+} from "../upload-documents/extraction/extract.ts";
+import { assignSectionsFromOutline, normalizeWithMap } from "../upload-documents/extraction/locate.ts";
+import { computePageSpans } from "../upload-documents/extraction/pages.ts";
+import {
+  claimBatches,
+  completeBatch,
+  countBatches,
+  failBatch,
+  loadBatchChunks,
+  loadBatchResults,
+  recordJobCost,
+  triggerWorker,
+  type ExtractionBatch,
+} from "../upload-documents/extraction/queue.ts";
+import {
+  resolveExtractionSettings,
+  usesDefaultExtraction,
+  type ExtractionSettings,
+} from "../upload-documents/extraction/settings.ts";
+import type { BatchStats } from "../upload-documents/extraction/types.ts";
+import type { DocumentSection } from "../upload-documents/parsing/types.ts";
+
+// Supabase Edge Runtime: keeps the worker alive after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface JobContext {
+  documentId: string;
+  requestId: string;
+  source: ExtractionSource;
+  settings: ExtractionSettings;
+  llm: LLMProvider; // Configured provider, with the model of the run settings
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return new Response(
+      JSON.stringify({ error: "SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not configured" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // Internal endpoint: only other functions and the scheduler call it
+  if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const jobId = typeof body?.jobId === "string" ? body.jobId : null;
+  const workerId = generateRequestId();
+
+  const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+
+  const work = processQueue(supabaseClient, jobId, workerId).catch((error) => {
+    logger.error({
+      event: "error",
+      requestId: workerId,
+      jobId,
+      errorType: error instanceof Error ? error.constructor.name : "UnknownError",
+      errorMessage: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    } as Partial<ErrorContext>, "Extraction worker error");
+  });
+
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(work);
+  } else {
+    await work;
+  }
+
+  return new Response(
+    JSON.stringify({ accepted: true, jobId }),
+    { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+});
+
+/**
+ * Claim and extract batches until the queue is empty or the time budget is
+ * spent, then complete the jobs whose batches are all checkpointed
+ */
+async function processQueue(
+  supabaseClient: SupabaseClient,
+  jobId: string | null,
+  workerId: string
+): Promise<void> {
+  const deadline = Date.now() + QUEUE_CONFIG.WORKER_TIME_BUDGET_MS;
+
+  let llm: LLMProvider;
+  try {
+    llm = createLLMProvider(getLLMConfig("extraction"));
+  } catch (error) {
+    // Batches stay queued and are resumed once the provider is configured
+    logger.error({ requestId: workerId, error: error instanceof Error ? error.message : String(error) }, "LLM provider not configured");
+    return;
+  }
+
+  logger.info({ requestId: workerId, jobId, llmProvider: llm.name, llmModel: llm.model }, "Extraction worker started");
+
+  const contexts = new Map<string, Promise<JobContext>>();
+  const touchedJobs = new Set<string>();
+  let outOfTime = false;
+
+  while (true) {
+    if (Date.now() >= deadline) {
+      outOfTime = true;
+      break;
+    }
+
+    const batches = await claimBatches(supabaseClient, jobId, CONFIG.MAX_CONCURRENT_BATCHES);
+    if (batches.length === 0) break;
+
+    await Promise.all(batches.map(async (batch) => {
+      touchedJobs.add(batch.job_id);
+      if (!contexts.has(batch.job_id)) {
+        contexts.set(batch.job_id, loadJobContext(supabaseClient, batch.job_id));
+      }
+      await processBatch(supabaseClient, batch, contexts, workerId);
+    }));
+
+    const batchJobs = new Set(batches.map((b) => b.job_id));
+    await Promise.all([...batchJobs].map((id) => updateJobProgress(supabaseClient, id)));
+  }
+
+  // Budget spent with batches left: continue in a fresh invocation
+  if (outOfTime) {
+    logger.info({ requestId: workerId, jobId }, "Worker time budget spent, handing over");
+    await triggerWorker(jobId ?? undefined, workerId);
+  }
+
+  // Jobs processed here, plus jobs whose worker died before completing them
+  const jobIds = new Set(touchedJobs);
+  if (jobId) {
+    jobIds.add(jobId);
+  } else {
+    for (const id of await findActiveJobs(supabaseClient)) jobIds.add(id);
+  }
+
+  for (const id of jobIds) {
+    await completeJobIfDone(supabaseClient, id, workerId);
+  }
+}
+
+/**
+ * Extract one claimed batch and checkpoint its result (or release it)
+ */
+async function processBatch(
+  supabaseClient: SupabaseClient,
+  batch: ExtractionBatch,
+  contexts: Map<string, Promise<JobContext>>,
+  workerId: string
+): Promise<void> {
+  try {
+    const context = await contexts.get(batch.job_id)!;
+    const chunks = await loadBatchChunks(supabaseClient, batch);
+    if (chunks.length === 0) {
+      throw new Error("Batch has no chunks");
+    }
+
+    const { rules, stats } = await extractBatch(
+      context.llm,
+      { index: batch.chunk_start, chunks },
+      context.source,
+      context.requestId,
+      batch.job_id,
+      {
+        systemPrompt: PROMPT_TEMPLATES[context.settings.promptTemplate],
+        useCache: usesDefaultExtraction(context.settings),
+      }
+    );
+    await completeBatch(supabaseClient, batch, rules, stats);
+
+    logger.debug({
+      requestId: context.requestId,
+      jobId: batch.job_id,
+      batchIndex: batch.batch_index,
+      rules: rules.length,
+      durationMs: stats.durationMs,
+    }, "Batch checkpointed");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({
+      requestId: workerId,
+      jobId: batch.job_id,
+      batchIndex: batch.batch_index,
+      attempt: batch.attempts,
+      error: message,
+    }, "Error in batch");
+    await failBatch(supabaseClient, batch, message);
+  }
+}
+
+/**
+ * Parsed text, page layout and settings of a job (shared by its batches)
+ */
+async function loadJobContext(supabaseClient: SupabaseClient, jobId: string): Promise<JobContext> {
+  const { data: job, error: jobError } = await supabaseClient
+    .from("jobs")
+    .select("document_id, request_id, total_chunks, settings")
+    .eq("id", jobId)
+    .single();
+
+  if (jobError || !job) {
+    throw new Error(`Job not found: ${jobError?.message ?? jobId}`);
+  }
+
+  const { data: document, error: docError } = await supabaseClient
+    .from("documents")
+    .select("parsed_text")
+    .eq("id", job.document_id)
+    .single();
+
+  if (docError || !document?.parsed_text) {
+    throw new Error(`Parsed text not found for document ${job.document_id}`);
+  }
+
+  const settings = resolveExtractionSettings(job.settings);
+  const llmConfig = getLLMConfig("extraction");
+
+  const text: string = document.parsed_text;
+  return {
+    documentId: job.document_id,
+    requestId: job.request_id || "unknown",
+    settings,
+    llm: createLLMProvider(settings.model ? { ...llmConfig, model: settings.model } : llmConfig),
+    source: {
+      text,
+      normalizedText: normalizeWithMap(text),
+      pageSpans: computePageSpans(text),
+      totalChunks: job.total_chunks ?? 0,
+    },
+  };
+}
+
+/**
+ * Progress of the extraction phase: 30% (queued) -> 70% (all batches checkpointed)
+ * For a job cancelled meanwhile, records the cost of the batches it completed
+ */
+async function updateJobProgress(supabaseClient: SupabaseClient, jobId: string): Promise<void> {
+  try {
+    const counts = await countBatches(supabaseClient, jobId);
+    const finished = counts.done + counts.error + counts.cancelled;
+    const total = finished + counts.pending + counts.running;
+    if (total === 0) return;
+
+    const progress = 30 + Math.floor((finished / total) * 40);
+    const { data: updated } = await supabaseClient
+      .from("jobs")
+      .update({ progress, completed_batches: counts.done + counts.error })
+      .eq("id", jobId)
+      .eq("status", "running")
+      .select("id");
+
+    if (!updated || updated.length === 0) {
+      await recordJobCost(supabaseClient, jobId);
+    }
+  } catch (error) {
+    logger.warn({ jobId, error: error instanceof Error ? error.message : String(error) }, "Failed to update job progress");
+  }
+}
+
+/**
+ * Queued jobs not completed yet (running, or stuck while finalizing)
+ */
+async function findActiveJobs(supabaseClient: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from("jobs")
+    .select("id")
+    .in("type", ["extract", "re-extract"])
+    .in("status", ["running", "finalizing"])
+    .not("total_batches", "is", null)
+    .limit(100);
+
+  if (error) {
+    logger.warn({ error: error.message }, "Failed to list active jobs");
+    return [];
+  }
+  return (data || []).map((row) => row.id);
+}
+
+/**
+ * Sum the checkpointed stats of all batches
+ */
+function sumBatchStats(stats: BatchStats[]): BatchStats {
+  return stats.reduce<BatchStats>((total, s) => ({
+    rulesExtracted: total.rulesExtracted + (s.rulesExtracted ?? 0),
+    rulesLocated: total.rulesLocated + (s.rulesLocated ?? 0),
+    rulesUngrounded: total.rulesUngrounded + (s.rulesUngrounded ?? 0),
+    rulesUngroundedDropped: total.rulesUngroundedDropped + (s.rulesUngroundedDropped ?? 0),
+    cacheHit: total.cacheHit || !!s.cacheHit,
+    inputTokens: total.inputTokens + (s.inputTokens ?? 0),
+    outputTokens: total.outputTokens + (s.outputTokens ?? 0),
+    costUsd: total.costUsd + (s.costUsd ?? 0),
+    durationMs: total.durationMs + (s.durationMs ?? 0),
+  }), {
+    rulesExtracted: 0,
+    rulesLocated: 0,
+    rulesUngrounded: 0,
+    rulesUngroundedDropped: 0,
+    cacheHit: false,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    durationMs: 0,
+  });
+}
+
+/**
+ * Merge the checkpointed rules of a job into the rules table once no batch
+ * is left. The job is claimed (status finalizing) so only one worker does it;
+ * a finalization interrupted for longer than STALE_BATCH_SECONDS is retried,
+ * replacing the rules it may have written. When every batch failed, the job
+ * and the document are marked as errors.
+ */
+async function completeJobIfDone(
+  supabaseClient: SupabaseClient,
+  jobId: string,
+  workerId: string
+): Promise<void> {
+  const counts = await countBatches(supabaseClient, jobId);
+  if (counts.pending + counts.running > 0) return;
+  if (counts.done + counts.error === 0) return; // Nothing extracted (or job cancelled)
+
+  const staleBefore = new Date(Date.now() - QUEUE_CONFIG.STALE_BATCH_SECONDS * 1000).toISOString();
+  const { data: claimed, error: claimError } = await supabaseClient
+    .from("jobs")
+    .update({ status: "finalizing", progress: 70, completed_batches: counts.done + counts.error })
+    .eq("id", jobId)
+    .or(`status.eq.running,and(status.eq.finalizing,updated_at.lt.${staleBefore})`)
+    .select("id, document_id, request_id, created_at, type, settings");
+
+  if (claimError) {
+    logger.warn({ requestId: workerId, jobId, error: claimError.message }, "Failed to claim job for completion");
+    return;
+  }
+  if (!claimed || claimed.length === 0) return; // Already completed or being completed
+
+  const job = claimed[0];
+  const requestId = job.request_id || workerId;
+  const settings = resolveExtractionSettings(job.settings);
+  // A re-extraction is kept as a separate run, the document rules stay as they are
+  const isRerun = job.type === "re-extract";
+  const rulesTable = isRerun ? "extraction_run_rules" : "rules";
+
+  try {
+    // No batch succeeded: the document was not extracted (no finalize, embeddings or summary)
+    if (counts.done === 0) {
+      const { data: failed } = await supabaseClient
+        .from("extraction_batches")
+        .select("error")
+        .eq("job_id", jobId)
+        .eq("status", "error")
+        .limit(1);
+      const cause = failed?.[0]?.error ? `: ${failed[0].error}` : "";
+      throw new Error(`Extraction failed, all ${counts.error} batches failed${cause}`);
+    }
+
+    const { data: document, error: docError } = await supabaseClient
+      .from("documents")
+      .select("name, parsed_text, sections, parent_document_id")
+      .eq("id", job.document_id)
+      .single();
+
+    if (docError || !document) {
+      throw new Error(`Document not found: ${docError?.message ?? job.document_id}`);
+    }
+
+    const results = await loadBatchResults(supabaseClient, jobId);
+    const allRules = results.flatMap((r) => r.rules || []);
+    const stats = sumBatchStats(results.map((r) => r.stats).filter((s): s is BatchStats => !!s));
+    const rules = await finalizeRules(allRules, settings.confidenceThreshold);
+
+    // Use the real document outline (DOCX headings) instead of LLM-guessed sections
+    const sections = (document.sections || []) as DocumentSection[];
+    if (sections.length > 0 && document.parsed_text) {
+      const located = assignSectionsFromOutline(rules, document.parsed_text, sections);
+      logger.info({
+        requestId,
+        documentId: job.document_id,
+        sections: sections.length,
+        rulesLocated: located,
+        rulesTotal: rules.length,
+      }, "Sections assigned from document outline");
+    }
+
+    // Replace rules left by an interrupted finalization of this job
+    const { error: deleteError } = await supabaseClient
+      .from(rulesTable)
+      .delete()
+      .eq("job_id", jobId);
+    if (deleteError) throw new Error(`Failed to clear previous rules: ${deleteError.message}`);
+
+    if (rules.length > 0) {
+      const rulesData = rules.map(r => ({
+        document_id: job.document_id,
+        ...(isRerun ? {} : { document_name: document.name }),
+        job_id: jobId,
+        text: r.text,
+        conditions: r.conditions,
+        domain: r.domain,
+        tags: r.tags.slice(0, 8),
+        confidence: r.confidence,
+        source_page: r.source.page,
+        source_sect: r.source.section,
+        source_start: r.anchor?.start ?? null,
+        source_end: r.anchor?.end ?? null,
+        source_quote: r.anchor?.quote ?? null,
+        grounding_score: r.groundingScore ?? null,
+        ungrounded: r.ungrounded ?? false,
+        aliases: r.aliases ?? [],
+        structure: r.structure ?? null,
+      }));
+
+      const { error: rulesError } = await supabaseClient
+        .from(rulesTable)
+        .insert(rulesData);
+      if (rulesError) throw new Error(rulesError.message);
+    }
+
+    if (!isRerun) {
+      await supabaseClient
+        .from("documents")
+        .update({ status: "done" })
+        .eq("id", job.document_id);
+    }
+
+    // Same metrics as the extraction_completed event, kept on the run for comparisons
+    const metrics = {
+      durationMs: Date.now() - new Date(job.created_at).getTime(),
+      rulesExtracted: stats.rulesExtracted,
+      uniqueRules: rules.length,
+      rulesLocated: stats.rulesLocated,
+      rulesUngrounded: stats.rulesUngrounded,
+      rulesUngroundedDropped: stats.rulesUngroundedDropped,
+      costUsd: stats.costUsd,
+      cacheHit: stats.cacheHit,
+      batches: results.length,
+      batchesFailed: counts.error,
+      inputTokens: stats.inputTokens,
+      outputTokens: stats.outputTokens,
+      model: settings.model ?? getLLMConfig("extraction").model,
+    };
+
+    // Mark job as done (summary will be generated asynchronously)
+    await supabaseClient
+      .from("jobs")
+      .update({
+        status: "done",
+        progress: 100,
+        cost_usd: Number(stats.costUsd.toFixed(6)),
+        rules_count: rules.length,
+        completed_at: new Date().toISOString(),
+        metrics,
+      })
+      .eq("id", jobId);
+
+    logger.info({
+      event: "extraction_completed",
+      requestId,
+      documentId: job.document_id,
+      jobId,
+      ...metrics,
+      cache_backend: CACHE_BACKEND,
+    } as ExtractionCompletedContext, `[PERF] Extraction completed (${results.length} batches, cache: ${CACHE_BACKEND})`);
+
+    if (!isRerun) {
+      if (document.parent_document_id) {
+        await carryTestsToNewVersion(supabaseClient, document.parent_document_id, job.document_id, requestId);
+      }
+      await embedDocumentRules(supabaseClient, job.document_id, requestId);
+      await triggerSummary(job.document_id, rules.map(r => r.text), requestId);
+    }
+  } catch (error) {
+    logger.error({
+      event: "error",
+      requestId,
+      documentId: job.document_id,
+      jobId,
+      errorType: error instanceof Error ? error.constructor.name : "UnknownError",
+      errorMessage: error instanceof Error ? error.message : String(error),
+    } as Partial<ErrorContext>, "Error completing extraction job");
+
+    if (!isRerun) {
+      await supabaseClient
+        .from("documents")
+        .update({ status: "error" })
+        .eq("id", job.document_id);
+    }
+
+    await supabaseClient
+      .from("jobs")
+      .update({ status: "error", error: error instanceof Error ? error.message : "Unknown error" })
+      .eq("id", jobId);
+  }
+}
+
+/**
+ * Move the test cases of the previous version to the new rules (non-blocking on failure)
+ */
+async function carryTestsToNewVersion(
+  supabaseClient: SupabaseClient,
+  parentDocumentId: string,
+  documentId: string,
+  requestId: string
+): Promise<void> {
+  try {
+    const { moved, stale } = await carryTestsForward(supabaseClient, parentDocumentId, documentId);
+    logger.info({ requestId, documentId, parentDocumentId, rulesMoved: moved, rulesStale: stale }, "Test cases carried over to new version");
+  } catch (err) {
+    logger.warn({ requestId, documentId, parentDocumentId, error: err instanceof Error ? err.message : String(err) }, "Test carry-over failed (non-blocking)");
+  }
+}
+
+/**
+ * Compute the embeddings used by semantic search (non-blocking on failure)
+ */
+async function embedDocumentRules(
+  supabaseClient: SupabaseClient,
+  documentId: string,
+  requestId: string
+): Promise<void> {
+  const config = getEmbeddingConfig();
+  if (!config) return;
+
+  try {
+    const embedded = await embedMissingRules(supabaseClient, config, { documentId });
+    logger.info({ requestId, documentId, embedded }, "Rule embeddings computed");
+  } catch (err) {
+    logger.warn({ requestId, documentId, error: err instanceof Error ? err.message : String(err) }, "Rule embeddings failed (non-blocking)");
+  }
+}
+
+/**
+ * Start summary generation (non-blocking on failure)
+ */
+async function triggerSummary(documentId: string, ruleTexts: string[], requestId: string): Promise<void> {
+  try {
+    await invokeFunction("generate-summary", {
+      documentId,
+      rules: ruleTexts.map(text => ({ text })),
+    });
+    logger.info({ requestId, documentId }, "Summary generation triggered successfully");
+  } catch (err) {
+    logger.warn({ requestId, documentId, error: err instanceof Error ? err.message : String(err) }, "Summary trigger failed (non-blocking)");
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Re-run the extraction of an uploaded document with other settings
+ *
+ * The parsed text stored at upload is chunked again and queued as a new
+ * extraction run (job type "re-extract"). Its rules are kept in
+ * extraction_run_rules; the current rules of the document are not modified.
+ *
+ * Expects POST body: {
+ *   documentId: string,
+ *   settings?: { model?, chunkSize?, chunkOverlap?, promptTemplate?, confidenceThreshold? }
+ * }
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { logger, generateRequestId, type ExtractionStartedContext } from "../_shared/logger.ts";
+import { checkRateLimit } from "../_shared/rate-limit.ts";
+import { splitIntoChunks } from "../upload-documents/extraction/chunking.ts";
+import { enqueueExtraction, triggerWorker } from "../upload-documents/extraction/queue.ts";
+import { parseExtractionSettings, type ExtractionSettings } from "../upload-documents/extraction/settings.ts";
+import { CACHE_BACKEND } from "../upload-documents/config.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Same budget as uploads: a re-extraction costs as much as a new document
+    const rateLimitOk = await checkRateLimit(user.id, "upload");
+    if (!rateLimitOk) {
+      logger.warn({ requestId, userId: user.id }, "Rate limit exceeded");
+      return new Response(
+        JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.json();
+    const documentId = body?.documentId;
+
+    if (!documentId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing documentId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let settings: ExtractionSettings;
+    try {
+      settings = parseExtractionSettings(body.settings);
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid settings' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: document, error: docError } = await supabaseClient
+      .from('documents')
+      .select('id, status, parsed_text')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (docError || !document) {
+      return new Response(
+        JSON.stringify({ error: 'Document not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Documents uploaded before the parsed text was stored must be uploaded again
+    if (document.status !== 'done' || !document.parsed_text) {
+      return new Response(
+        JSON.stringify({ error: 'Document has no parsed text to re-extract. Upload it again.' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!serviceRoleKey) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY not configured');
+    }
+    const serviceClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const { data: job, error: jobError } = await supabaseClient
+      .from('jobs')
+      .insert({
+        document_id: documentId,
+        type: 're-extract',
+        status: 'running',
+        progress: 10,
+        request_id: requestId,
+        settings,
+      })
+      .select()
+      .single();
+
+    if (jobError) {
+      logger.error({ requestId, documentId, error: jobError.message }, "Error creating job");
+      return new Response(
+        JSON.stringify({ error: 'Failed to create job' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    try {
+      const chunks = await splitIntoChunks(document.parsed_text, settings.chunkSize, settings.chunkOverlap);
+      const totalBatches = await enqueueExtraction(serviceClient, { jobId: job.id, documentId, chunks });
+
+      await serviceClient
+        .from('jobs')
+        .update({ progress: 30 })
+        .eq('id', job.id);
+
+      logger.info({
+        event: "extraction_started",
+        requestId,
+        documentId,
+        jobId: job.id,
+        chunks: chunks.length,
+        batches: totalBatches,
+        totalPages: chunks.length > 0 ? chunks[chunks.length - 1].pageEnd : 0,
+        cache_backend: CACHE_BACKEND,
+        settings,
+      } as ExtractionStartedContext, `[PERF] Re-extraction queued: ${totalBatches} batches`);
+    } catch (error) {
+      await serviceClient
+        .from('jobs')
+        .update({ status: 'error', error: error instanceof Error ? error.message : 'Unknown error' })
+        .eq('id', job.id);
+      throw error;
+    }
+
+    await triggerWorker(job.id, requestId);
+
+    return new Response(
+      JSON.stringify({ documentId, jobId: job.id, settings }),
+      { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    logger.error({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }, "Re-extraction error");
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,157 @@
+/**
+ * Semantic search across all the rules of the user
+ *
+ * Embeds the query and returns the closest rules (pgvector, cosine
+ * similarity) with their document, page and similarity score. Rules still
+ * missing an embedding are embedded first, a batch per call.
+ *
+ * Expects POST body: { query: string, limit?: number, minSimilarity?: number, documentId?: string }
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { logger, generateRequestId } from "../_shared/logger.ts";
+import { checkRateLimit } from "../_shared/rate-limit.ts";
+import { embedMissingRules, embedTexts, getEmbeddingConfig, toPgVector } from "../_shared/embeddings.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const DEFAULT_MIN_SIMILARITY = 0.3;
+const MAX_QUERY_CHARS = 1000;
+// Rules embedded on the fly before searching (the worker embeds new extractions)
+const BACKFILL_LIMIT = 200;
+
+interface RuleMatch {
+  id: string;
+  document_id: string;
+  document_name: string;
+  text: string;
+  domain: string | null;
+  source_page: number | null;
+  source_sect: string | null;
+  review_status: string;
+  similarity: number;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { query, limit, minSimilarity, documentId } = await req.json().catch(() => ({}));
+
+    if (typeof query !== 'string' || query.trim() === '') {
+      return new Response(
+        JSON.stringify({ error: 'Missing query' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Each search embeds the query and may backfill rule embeddings (paid API)
+    const rateLimitOk = await checkRateLimit(user.id, "search");
+    if (!rateLimitOk) {
+      return new Response(
+        JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const config = getEmbeddingConfig();
+    if (!config) {
+      return new Response(
+        JSON.stringify({ error: 'Semantic search is not configured (EMBEDDING_API_KEY / OPENAI_API_KEY)' }),
+        { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Catch up on rules without embedding (manual edits, older extractions)
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    try {
+      const embedded = await embedMissingRules(serviceClient, config, { userId: user.id }, BACKFILL_LIMIT);
+      if (embedded > 0) {
+        logger.info({ requestId, userId: user.id, embedded }, "Missing rule embeddings computed");
+      }
+    } catch (err) {
+      logger.warn({ requestId, error: err instanceof Error ? err.message : String(err) }, "Rule embedding backfill failed (non-blocking)");
+    }
+
+    const [queryEmbedding] = await embedTexts(config, [query.trim().slice(0, MAX_QUERY_CHARS)]);
+
+    const { data: matches, error: matchError } = await supabaseClient.rpc('match_rules', {
+      p_query_embedding: toPgVector(queryEmbedding),
+      p_match_count: Math.min(Number(limit) || DEFAULT_LIMIT, MAX_LIMIT),
+      p_min_similarity: typeof minSimilarity === 'number' ? minSimilarity : DEFAULT_MIN_SIMILARITY,
+      p_document_id: documentId || null,
+    });
+
+    if (matchError) throw matchError;
+
+    const results = ((matches || []) as RuleMatch[]).map((m) => ({
+      id: m.id,
+      documentId: m.document_id,
+      documentName: m.document_name,
+      text: m.text,
+      domain: m.domain,
+      page: m.source_page,
+      section: m.source_sect,
+      reviewStatus: m.review_status,
+      similarity: Math.round(m.similarity * 1000) / 1000,
+    }));
+
+    logger.info({ requestId, userId: user.id, results: results.length }, "Semantic rule search");
+
+    return new Response(
+      JSON.stringify({ results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    logger.error({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }, "Error searching rules");
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -44,6 +44,19 @@ export const CONFIG = {
   CHUNK_OVERLAP: 200,                 // Overlap pour contexte
 };
 
+// ============================================================================
+// DURABLE JOB QUEUE (process-extraction worker)
+// ============================================================================
+
+export const QUEUE_CONFIG = {
+  // Stop claiming batches after this time and hand over to a new invocation
+  // (edge functions are limited to 150s wall clock)
+  WORKER_TIME_BUDGET_MS: parseInt(Deno.env.get("WORKER_TIME_BUDGET_MS") || "100000", 10),
+  // A running batch not checkpointed after this delay is considered lost (runtime recycled)
+  STALE_BATCH_SECONDS: parseInt(Deno.env.get("STALE_BATCH_SECONDS") || "180", 10),
+  MAX_BATCH_ATTEMPTS: 3,              // Then the batch is marked error and skipped
+};
+
 // ============================================================================
 // PARSING CONFIGURATION (PR #2 PyMuPDF)
 // ============================================================================
@@ -56,6 +69,43 @@ export const PARSE_CONFIG = {
   MAX_RETRIES: 2,
 };
 
+// ============================================================================
+// GROUNDING CHECK (hallucination guard)
+// ============================================================================
+
+/**
+ * Rules whose text can't be matched against the chunk text they were
+ * extracted from are considered invented by the LLM
+ * - "flag": keep them, marked ungrounded with reduced confidence
+ * - "drop": discard them
+ *
+ * @default "flag"
+ */
+export const GROUNDING_CONFIG = {
+  MODE: (Deno.env.get("GROUNDING_MODE") === "drop" ? "drop" : "flag") as "flag" | "drop",
+  MIN_SCORE: parseFloat(Deno.env.get("GROUNDING_MIN_SCORE") || "0.75"), // Share of rule words found in the source
+  CONFIDENCE_FACTOR: 0.5,             // Confidence multiplier for flagged rules
+};
+
+// ============================================================================
+// DEDUPLICATION (near-identical rules from overlapping chunks)
+// ============================================================================
+
+/**
+ * Rules are merged when their words overlap enough (Jaccard) and they state
+ * the same figures. With DEDUP_EMBEDDINGS=true, reworded rules are also
+ * merged on the cosine of their embeddings (sends the rule texts to the
+ * embedding API, see _shared/embeddings.ts).
+ *
+ * @default lexical only
+ */
+export const DEDUP_CONFIG = {
+  MIN_SIMILARITY: parseFloat(Deno.env.get("DEDUP_MIN_SIMILARITY") || "0.7"),
+  EMBEDDINGS_ENABLED: Deno.env.get("DEDUP_EMBEDDINGS") === "true",
+  MIN_EMBEDDING_SIMILARITY: parseFloat(Deno.env.get("DEDUP_MIN_EMBEDDING_SIMILARITY") || "0.92"),
+  EMBEDDING_BATCH_SIZE: 100,
+};
+
 // ============================================================================
 // EXACT REUSE CONFIGURATION
 // ============================================================================
@@ -0,0 +1,26 @@
+/**
+ * Split the parsed text into chunks for the LLM
+ */
+
+import { RecursiveCharacterTextSplitter } from "npm:langchain@0.1.20/text_splitter";
+import { CONFIG } from "../config.ts";
+import { computePageSpans, positionChunks, type TextChunk } from "./pages.ts";
+
+/**
+ * Token-aware chunking with LangChain, with the exact page range of each chunk
+ * (pages are joined with PAGE_SEPARATOR by the parsers)
+ */
+export async function splitIntoChunks(
+  text: string,
+  chunkSize = CONFIG.CHUNK_SIZE,
+  chunkOverlap = CONFIG.CHUNK_OVERLAP
+): Promise<TextChunk[]> {
+  const textSplitter = new RecursiveCharacterTextSplitter({
+    chunkSize,
+    chunkOverlap,
+    separators: ["\n\n", "\n", ". ", " ", ""]
+  });
+
+  const chunkTexts = await textSplitter.splitText(text);
+  return positionChunks(text, chunkTexts, computePageSpans(text));
+}
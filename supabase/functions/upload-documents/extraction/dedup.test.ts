@@ -0,0 +1,66 @@
+/**
+ * Unit tests for the rule deduplication (dedup.ts)
+ *
+ * Run with: deno test dedup.test.ts
+ */
+
+import { assertEquals, assertAlmostEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { calculateSimilarity, cosineSimilarity, deduplicateRules } from "./dedup.ts";
+import type { RuleExtracted } from "./types.ts";
+
+const OPTIONS = { minSimilarity: 0.7, minEmbeddingSimilarity: 0.92 };
+
+function rule(text: string, confidence: number, page = 1): RuleExtracted {
+  return { text, conditions: [], domain: null, tags: [], confidence, source: { page, section: null } };
+}
+
+Deno.test("calculateSimilarity - ignores case, accents and punctuation", () => {
+  assertEquals(calculateSimilarity("Délai de paiement : 30 jours.", "delai de PAIEMENT 30 jours"), 1);
+  assertAlmostEquals(calculateSimilarity("a b c d", "a b c e"), 0.6, 1e-9);
+});
+
+Deno.test("deduplicateRules - keeps the most confident variant, others as aliases", () => {
+  const rules = [
+    rule("Les factures doivent être payées sous 30 jours", 0.7, 3),
+    rule("Les congés sont posés deux semaines à l'avance", 0.9, 3),
+    rule("Les factures doivent être payées sous 30 jours.", 0.8, 4), // Same words (overlap)
+    rule("Toutes les factures doivent être payées sous 30 jours", 0.95, 4),
+  ];
+
+  const unique = deduplicateRules(rules, OPTIONS);
+
+  assertEquals(unique.map((r) => r.text), [
+    "Les congés sont posés deux semaines à l'avance",
+    "Toutes les factures doivent être payées sous 30 jours",
+  ]);
+  // The two variants have the same words: only the first one seen is recorded
+  assertEquals(unique[1].aliases, [{ text: "Les factures doivent être payées sous 30 jours.", confidence: 0.8, page: 4 }]);
+  assertEquals(unique[0].aliases, undefined);
+});
+
+Deno.test("deduplicateRules - rules with a shared preamble but different figures stay distinct", () => {
+  const preamble = "Conformément à la politique achats du groupe applicable à toutes les filiales, les commandes";
+  const rules = [
+    rule(`${preamble} de plus de 10 000 € sont validées par le directeur`, 0.9),
+    rule(`${preamble} de plus de 50 000 € sont validées par le directeur`, 0.9),
+  ];
+
+  assertEquals(deduplicateRules(rules, OPTIONS).length, 2);
+});
+
+Deno.test("deduplicateRules - merges rewordings with close embeddings", () => {
+  const rules = [
+    rule("Le remboursement intervient sous 15 jours", 0.8),
+    rule("Les clients sont remboursés dans un délai de 15 jours", 0.9),
+  ];
+
+  assertEquals(deduplicateRules(rules, OPTIONS).length, 2);
+
+  const embeddings = [[1, 0.1], [1, 0.12]];
+  assertEquals(cosineSimilarity(embeddings[0], embeddings[1]) > 0.99, true);
+
+  const unique = deduplicateRules(rules, { ...OPTIONS, embeddings });
+  assertEquals(unique.length, 1);
+  assertEquals(unique[0].text, "Les clients sont remboursés dans un délai de 15 jours");
+  assertEquals(unique[0].aliases?.map((a) => a.text), ["Le remboursement intervient sous 15 jours"]);
+});
@@ -0,0 +1,89 @@
+/**
+ * Deduplication of the rules extracted from all the batches
+ *
+ * Overlapping chunks make the LLM extract the same rule twice, often
+ * reworded. Rules are clustered around the most confident ones: a rule joins
+ * a cluster when its text is close to the representative (Jaccard on
+ * normalized words, or cosine of embeddings when available) and both state
+ * the same figures, so "30 jours" and "60 jours" stay distinct rules.
+ * The representative is kept and the other variants become its aliases.
+ */
+
+import { jaccard, ruleFigures, ruleWords } from "../../_shared/rule-diff.ts";
+import type { RuleAlias, RuleExtracted } from "./types.ts";
+
+export interface DedupOptions {
+  minSimilarity: number; // Jaccard on words
+  minEmbeddingSimilarity: number; // Cosine, used when embeddings are given
+  embeddings?: number[][] | null; // One per rule, same order
+}
+
+interface Cluster {
+  index: number; // Representative, in the input order
+  words: Set<string>;
+  figures: string;
+  aliases: RuleAlias[];
+  seen: Set<string>; // Normalized texts of the representative and aliases
+}
+
+/**
+ * Jaccard similarity of the normalized words of two texts (0-1)
+ */
+export function calculateSimilarity(text1: string, text2: string): number {
+  return jaccard(new Set(ruleWords(text1)), new Set(ruleWords(text2)));
+}
+
+/**
+ * Cosine similarity of two embeddings (0 when one of them is empty)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Merge near-identical rules, keeping the most confident of each cluster
+ * (first extracted on ties) with the others as aliases. Rules keep their
+ * input order.
+ */
+export function deduplicateRules(rules: RuleExtracted[], options: DedupOptions): RuleExtracted[] {
+  const embeddings = options.embeddings?.length === rules.length ? options.embeddings : null;
+  const byConfidence = rules.map((_, i) => i).sort((a, b) => rules[b].confidence - rules[a].confidence);
+  const clusters: Cluster[] = [];
+
+  for (const i of byConfidence) {
+    const rule = rules[i];
+    const normalized = ruleWords(rule.text).join(" ");
+    const words = new Set(normalized.split(" "));
+    const figures = ruleFigures(rule.text);
+
+    const cluster = clusters.find((c) =>
+      c.figures === figures && (
+        jaccard(c.words, words) >= options.minSimilarity ||
+        (!!embeddings && cosineSimilarity(embeddings[c.index], embeddings[i]) >= options.minEmbeddingSimilarity)
+      )
+    );
+
+    if (!cluster) {
+      clusters.push({ index: i, words, figures, aliases: [], seen: new Set([normalized]) });
+      continue;
+    }
+
+    // Same wording as a variant already recorded: nothing new to keep
+    if (!cluster.seen.has(normalized)) {
+      cluster.seen.add(normalized);
+      cluster.aliases.push({ text: rule.text, confidence: rule.confidence, page: rule.source.page });
+    }
+  }
+
+  return clusters
+    .sort((a, b) => a.index - b.index)
+    .map((c) => (c.aliases.length > 0 ? { ...rules[c.index], aliases: c.aliases } : rules[c.index]));
+}
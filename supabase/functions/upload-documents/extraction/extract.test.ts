@@ -0,0 +1,92 @@
+/**
+ * Unit tests for the LLM calls of the batch extraction (extract.ts)
+ *
+ * Run with: deno test --allow-env extract.test.ts
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { LLMError, type ChatResponse, type LLMProvider } from "../../_shared/llm.ts";
+import { callLLMWithRetry, extractBatch, type ExtractionSource } from "./extract.ts";
+import { normalizeWithMap } from "./locate.ts";
+import { computePageSpans } from "./pages.ts";
+
+/**
+ * Provider answering (or throwing) the given responses in turn
+ */
+function fakeProvider(responses: Array<ChatResponse | Error>) {
+  let calls = 0;
+  const llm: LLMProvider = {
+    name: "openai",
+    model: "gpt-4o-mini",
+    chat() {
+      const response = responses[Math.min(calls++, responses.length - 1)];
+      return response instanceof Error ? Promise.reject(response) : Promise.resolve(response);
+    },
+  };
+  return { llm, calls: () => calls };
+}
+
+const answer = (content: string | null): ChatResponse => ({
+  content,
+  model: "gpt-4o-mini",
+  usage: { inputTokens: 100, outputTokens: 20 },
+});
+
+const RULE = {
+  text: "Les remboursements doivent être effectués sous 30 jours",
+  conditions: [],
+  domain: "Finance",
+  tags: [],
+  confidence: 0.9,
+  source: { page: 1, section: null },
+};
+
+Deno.test("callLLMWithRetry - rules of the answer, tokens of every attempt", async () => {
+  const { llm, calls } = fakeProvider([answer("not json"), answer(JSON.stringify({ rules: [RULE] }))]);
+
+  const extraction = await callLLMWithRetry(llm, "system", "content", "batch-0", 2);
+
+  assertEquals(calls(), 2);
+  assertEquals(extraction.rules, [RULE]);
+  assertEquals(extraction.inputTokens, 200);
+  assertEquals(extraction.outputTokens, 40);
+});
+
+Deno.test("callLLMWithRetry - throws on a non-recoverable provider error", async () => {
+  const { llm, calls } = fakeProvider([new LLMError("invalid api key", 401, "openai")]);
+
+  await assertRejects(() => callLLMWithRetry(llm, "system", "content", "batch-0"), Error, "openai API error 401");
+  assertEquals(calls(), 1);
+});
+
+Deno.test("callLLMWithRetry - throws once the retries are exhausted", async () => {
+  await assertRejects(
+    () => callLLMWithRetry(fakeProvider([answer(null)]).llm, "system", "content", "batch-0", 1),
+    Error,
+    "empty LLM response",
+  );
+  await assertRejects(
+    () => callLLMWithRetry(fakeProvider([answer("{\"rules\": ")]).llm, "system", "content", "batch-0", 1),
+    Error,
+    "invalid JSON",
+  );
+  await assertRejects(
+    () => callLLMWithRetry(fakeProvider([answer("{}")]).llm, "system", "content", "batch-0", 1),
+    Error,
+    "no rules array",
+  );
+});
+
+Deno.test("extractBatch - a provider failure fails the batch instead of returning no rules", async () => {
+  const text = "Les remboursements doivent être effectués sous 30 jours.";
+  const source: ExtractionSource = {
+    text,
+    normalizedText: normalizeWithMap(text),
+    pageSpans: computePageSpans(text),
+    totalChunks: 1,
+  };
+  const batch = { index: 0, chunks: [{ text, start: 0, end: text.length, pageStart: 1, pageEnd: 1 }] };
+  const { llm } = fakeProvider([new LLMError("bad request", 400, "openai")]);
+
+  await assertRejects(() => extractBatch(llm, batch, source, "req-1", "job-1", { useCache: false }), Error, "batch-0");
+});
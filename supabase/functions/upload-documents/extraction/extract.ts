@@ -0,0 +1,379 @@
+/**
+ * Rule extraction for one batch of chunks: cache lookup, LLM call, anchoring
+ * in the parsed text and grounding check
+ */
+
+import { logger, calculateCost } from "../../_shared/logger.ts";
+import { LLMError, type LLMProvider } from "../../_shared/llm.ts";
+import { embedTexts, getEmbeddingConfig } from "../../_shared/embeddings.ts";
+import { CONFIG, DEDUP_CONFIG, GROUNDING_CONFIG } from "../config.ts";
+import { getCachedRules, cacheRules } from "./cache.ts";
+import { deduplicateRules } from "./dedup.ts";
+import { checkGrounding } from "./grounding.ts";
+import { normalizeRuleStructure } from "./structure.ts";
+import type { NormalizedText } from "./locate.ts";
+import { anchorRules, type PageSpan, type TextChunk } from "./pages.ts";
+import type { BatchStats, RuleExtracted } from "./types.ts";
+
+// Prompt système amélioré avec instructions plus précises
+export const EXTRACTION_SYSTEM_PROMPT = `
+Tu es un expert en analyse de documents métier et extraction de règles.
+Ton rôle est d'identifier des règles, contraintes, obligations ou conditions explicites dans le texte fourni.
+
+UNE RÈGLE MÉTIER est :
+- Une obligation claire (ex: "Les remboursements doivent être effectués sous 30 jours")
+- Une condition explicite (ex: "Si le montant dépasse 1000€, une validation est requise")
+- Une contrainte métier (ex: "Le délai maximum de traitement est de 5 jours ouvrés")
+- Une règle de calcul ou de logique (ex: "La commission est calculée à 2% du montant HT")
+
+Ce qui N'EST PAS une règle :
+- Des descriptions générales sans contrainte
+- Des exemples ou illustrations
+- Des informations contextuelles sans obligation
+
+Retourne STRICTEMENT un JSON de ce format :
+{
+  "rules": [
+    {
+      "text": "règle claire et concise (phrase complète extraite du document)",
+      "conditions": ["condition 1", "condition 2"] ou [],
+      "domain": "nom_du_domaine_ou_null" (ex: "Finance", "RH", "Logistique"),
+      "tags": ["mots_clés", "pertinents"],
+      "confidence": nombre_de_0_à_1 (0.9+ si très clair, 0.7-0.9 si ambigu, <0.7 si incertain),
+      "source": {
+        "page": numéro_de_page (dans la plage indiquée en en-tête du chunk),
+        "section": "titre_ou_numéro_de_section_ou_null" (les titres de section sont précédés de #, ##, ###)
+      },
+      "structure": {
+        "subject": "acteur concerné ou null" (ex: "le fournisseur", "le salarié"),
+        "modality": "must" | "must_not" | "may" (obligation, interdiction, permission),
+        "action": "ce qui doit / ne doit pas / peut être fait",
+        "conditions": [
+          { "field": "donnée testée", "operator": "eq|neq|gt|gte|lt|lte|between|in|not_in|contains|exists", "value": valeur ([min, max] pour between, liste pour in), "unit": "EUR, %, jours... ou null" }
+        ],
+        "exceptions": ["cas où la règle ne s'applique pas"],
+        "deadline": { "value": nombre, "unit": "hour|day|business_day|week|month|year", "reference": "point de départ ou null" } ou null
+      }
+    }
+  ]
+}
+
+Règles strictes :
+- Ne pas inventer de règles qui n'existent pas dans le texte
+- Une règle = une obligation/contrainte/condition métier explicite
+- Baisse confidence si ambigu ou implicite
+- Si aucune règle claire, retourne {"rules": []}
+- Le texte de la règle doit être extrait tel quel du document (pas de reformulation)
+- "structure" décompose la règle sans rien ajouter au texte ; mets "structure": null si elle ne se décompose pas
+`;
+
+/**
+ * Prompt templates selectable when re-extracting a document
+ * (default: EXTRACTION_SYSTEM_PROMPT)
+ */
+export const PROMPT_TEMPLATES = {
+  default: EXTRACTION_SYSTEM_PROMPT,
+  strict: `${EXTRACTION_SYSTEM_PROMPT}
+Mode strict :
+- N'extrais que les obligations et interdictions formulées explicitement (doit, ne peut, est tenu de, est interdit)
+- Ignore les recommandations, bonnes pratiques et formulations conditionnelles vagues
+`,
+  exhaustive: `${EXTRACTION_SYSTEM_PROMPT}
+Mode exhaustif :
+- Extrais aussi les règles implicites ou déduites d'un tableau, d'une liste ou d'un exemple chiffré
+- Attribue à ces règles une confidence inférieure à 0.7
+`,
+} as const;
+
+export type PromptTemplate = keyof typeof PROMPT_TEMPLATES;
+
+export interface LLMExtraction {
+  rules: RuleExtracted[];
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Parsed document the batches are extracted from
+ */
+export interface ExtractionSource {
+  text: string;
+  normalizedText: NormalizedText;
+  pageSpans: PageSpan[];
+  totalChunks: number;
+}
+
+export interface BatchInput {
+  index: number; // Index of the first chunk of the batch
+  chunks: TextChunk[];
+}
+
+/**
+ * Helper function pour appeler le LLM avec retry et exponential backoff
+ * Throws when no valid answer is obtained, so the queue retries the batch
+ * (failBatch) instead of checkpointing it without rules
+ */
+export async function callLLMWithRetry(
+  llm: LLMProvider,
+  systemPrompt: string,
+  userContent: string,
+  batchId: string,
+  maxRetries = 3
+): Promise<LLMExtraction> {
+  // Tokens are billed for every attempt, including failed ones
+  const usage = { inputTokens: 0, outputTokens: 0 };
+  const result = (rules: RuleExtracted[]): LLMExtraction => ({ rules, ...usage });
+  let lastError = "no attempt";
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      const response = await llm.chat({
+        json: true,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userContent }
+        ],
+        temperature: 0.3, // Réduit pour plus de cohérence
+        maxTokens: 4000 // Room for the structure of each rule
+      });
+      usage.inputTokens += response.usage?.inputTokens ?? 0;
+      usage.outputTokens += response.usage?.outputTokens ?? 0;
+
+      const content = response.content;
+      if (!content) {
+        lastError = "empty LLM response";
+        if (attempt < maxRetries - 1) {
+          await new Promise(r => setTimeout(r, CONFIG.RETRY_DELAY_BASE_MS));
+          continue;
+        }
+        break;
+      }
+
+      let parsed;
+      try {
+        parsed = JSON.parse(content);
+      } catch (err) {
+        lastError = `invalid JSON in LLM response: ${err instanceof Error ? err.message : String(err)}`;
+        logger.error({ batchId, attempt: attempt + 1, error: lastError }, "JSON parsing error");
+        if (attempt < maxRetries - 1) {
+          await new Promise(r => setTimeout(r, CONFIG.RETRY_DELAY_BASE_MS));
+          continue; // Retry en cas d'erreur de parsing
+        }
+        break;
+      }
+
+      if (!parsed || !Array.isArray(parsed.rules)) {
+        lastError = "LLM response has no rules array";
+        logger.warn({ batchId, attempt: attempt + 1, parsed }, "Invalid response format");
+        if (attempt < maxRetries - 1) {
+          await new Promise(r => setTimeout(r, CONFIG.RETRY_DELAY_BASE_MS));
+          continue;
+        }
+        break;
+      }
+
+      return result(parsed.rules as RuleExtracted[]);
+    } catch (error) {
+      if (error instanceof LLMError) {
+        logger.warn({ batchId, attempt: attempt + 1, status: error.status, provider: error.provider }, "LLM API error");
+        lastError = `${error.provider} API error ${error.status}: ${error.message}`;
+
+        // Rate limiting - délai optimisé mais sûr
+        if (error.status === 429) {
+          const waitTime = Math.min(
+            Math.pow(2, attempt) * CONFIG.RETRY_DELAY_BASE_MS,
+            CONFIG.RETRY_DELAY_MAX_MS
+          );
+          logger.info({ batchId, waitTime }, "Rate limited, waiting before retry");
+          await new Promise(r => setTimeout(r, waitTime));
+          continue;
+        }
+
+        // Erreur serveur - retry avec backoff optimisé
+        if (error.status >= 500 && attempt < maxRetries - 1) {
+          const waitTime = Math.min(
+            Math.pow(2, attempt) * CONFIG.RETRY_DELAY_BASE_MS,
+            CONFIG.RETRY_DELAY_SERVER_ERROR_MAX_MS
+          );
+          await new Promise(r => setTimeout(r, waitTime));
+          continue;
+        }
+
+        // Erreur non récupérable
+        throw new Error(`LLM extraction failed for ${batchId}: ${lastError}`);
+      }
+
+      lastError = error instanceof Error ? error.message : String(error);
+      logger.error({ batchId, attempt: attempt + 1, error: lastError }, "Error processing batch");
+      if (attempt < maxRetries - 1) {
+        const waitTime = Math.min(
+          Math.pow(2, attempt) * CONFIG.RETRY_DELAY_BASE_MS,
+          CONFIG.RETRY_DELAY_SERVER_ERROR_MAX_MS
+        );
+        await new Promise(r => setTimeout(r, waitTime));
+      }
+    }
+  }
+
+  // Tous les retries ont échoué
+  throw new Error(`LLM extraction failed for ${batchId} after ${maxRetries} attempts: ${lastError}`);
+}
+
+/**
+ * "page 3" or "pages 3-4" for chunk headers
+ */
+function formatPageRange(pageStart: number, pageEnd: number): string {
+  return pageStart === pageEnd ? `page ${pageStart}` : `pages ${pageStart}-${pageEnd}`;
+}
+
+/**
+ * User message for a batch: one section per chunk with its page range
+ */
+export function buildBatchContent(batch: BatchInput, totalChunks: number): string {
+  return batch.chunks.map((c, idx) =>
+    `## Chunk ${batch.index + idx + 1}/${totalChunks} (${formatPageRange(c.pageStart, c.pageEnd)})\n${c.text}`
+  ).join('\n\n---\n\n');
+}
+
+/**
+ * Extract the rules of one batch
+ * The cache is keyed on the batch text only: it is skipped (useCache: false)
+ * when the prompt or the model differ from the defaults
+ * Throws when the LLM gives no valid answer (see callLLMWithRetry)
+ */
+export async function extractBatch(
+  llm: LLMProvider,
+  batch: BatchInput,
+  source: ExtractionSource,
+  requestId?: string,
+  jobId?: string,
+  options: { systemPrompt?: string; useCache?: boolean } = {}
+): Promise<{ rules: RuleExtracted[]; stats: BatchStats }> {
+  const startTime = Date.now();
+  const userContent = buildBatchContent(batch, source.totalChunks);
+  const useCache = options.useCache ?? true;
+
+  // Try cache first
+  const cachedRules = useCache ? await getCachedRules(userContent, requestId) : null;
+
+  let rules: RuleExtracted[];
+  let inputTokens = 0;
+  let outputTokens = 0;
+  if (cachedRules) {
+    rules = cachedRules;
+    logger.debug({ requestId, batchIndex: batch.index }, "Using cached rules");
+  } else {
+    // Cache miss - call LLM
+    const extraction = await callLLMWithRetry(
+      llm,
+      options.systemPrompt ?? EXTRACTION_SYSTEM_PROMPT,
+      userContent,
+      `batch-${batch.index}`
+    );
+    rules = extraction.rules;
+    inputTokens = extraction.inputTokens;
+    outputTokens = extraction.outputTokens;
+
+    // Cache extracted rules (non-blocking on failure)
+    if (useCache) {
+      await cacheRules(userContent, rules, requestId, jobId, batch.index).catch((err) =>
+        logger.debug({ requestId, error: err.message }, "Cache upsert failed (non-blocking)")
+      );
+    }
+  }
+  const rulesExtracted = rules.length;
+
+  // Anchor rules to the batch text (replaces LLM-estimated pages)
+  const firstChunk = batch.chunks[0];
+  const lastChunk = batch.chunks[batch.chunks.length - 1];
+  const rulesLocated = anchorRules(rules, source.text, source.normalizedText, {
+    start: firstChunk.start,
+    end: lastChunk.end,
+    pageStart: firstChunk.pageStart,
+    pageEnd: lastChunk.pageEnd,
+  }, source.pageSpans);
+
+  // Hallucination guard: rules must come from the batch text
+  const grounding = checkGrounding(rules, source.text.slice(firstChunk.start, lastChunk.end), {
+    mode: GROUNDING_CONFIG.MODE,
+    minScore: GROUNDING_CONFIG.MIN_SCORE,
+    confidenceFactor: GROUNDING_CONFIG.CONFIDENCE_FACTOR,
+  });
+
+  if (grounding.ungrounded > 0) {
+    logger.warn({
+      requestId,
+      batchIndex: batch.index,
+      ungrounded: grounding.ungrounded,
+      dropped: grounding.dropped,
+      mode: GROUNDING_CONFIG.MODE,
+    }, "Ungrounded rules detected in batch");
+  }
+
+  return {
+    rules: grounding.rules,
+    stats: {
+      rulesExtracted,
+      rulesLocated,
+      rulesUngrounded: grounding.ungrounded,
+      rulesUngroundedDropped: grounding.dropped,
+      cacheHit: !!cachedRules,
+      inputTokens,
+      outputTokens,
+      costUsd: calculateCost(inputTokens, outputTokens, llm.model),
+      durationMs: Date.now() - startTime,
+    },
+  };
+}
+
+/**
+ * Validate, clean and deduplicate the rules of all batches
+ */
+export async function finalizeRules(allRules: RuleExtracted[], minConfidence = 0.3): Promise<RuleExtracted[]> {
+  // Validation et nettoyage des règles
+  const validatedRules = allRules
+    .filter(r => {
+      // Validation basique
+      if (!r.text || r.text.trim().length < 10) return false;
+      if (r.confidence < minConfidence) return false; // Filtrer les règles trop peu confiantes
+      return true;
+    })
+    .map(r => ({
+      ...r,
+      text: r.text.trim(),
+      tags: r.tags.slice(0, 8), // Limiter à 8 tags
+      confidence: Math.min(1, Math.max(0, r.confidence)), // S'assurer que confidence est entre 0 et 1
+      source: {
+        page: r.source?.page || 0,
+        section: r.source?.section || null
+      },
+      structure: normalizeRuleStructure(r.structure)
+    }));
+
+  return deduplicateRules(validatedRules, {
+    minSimilarity: DEDUP_CONFIG.MIN_SIMILARITY,
+    minEmbeddingSimilarity: DEDUP_CONFIG.MIN_EMBEDDING_SIMILARITY,
+    embeddings: DEDUP_CONFIG.EMBEDDINGS_ENABLED ? await embedRulesForDedup(validatedRules) : null,
+  });
+}
+
+/**
+ * Embeddings of the rule texts, null (lexical dedup only) when not configured
+ * or on API errors
+ */
+async function embedRulesForDedup(rules: RuleExtracted[]): Promise<number[][] | null> {
+  const config = getEmbeddingConfig();
+  if (!config || rules.length === 0) return null;
+
+  try {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < rules.length; i += DEDUP_CONFIG.EMBEDDING_BATCH_SIZE) {
+      const batch = rules.slice(i, i + DEDUP_CONFIG.EMBEDDING_BATCH_SIZE);
+      embeddings.push(...await embedTexts(config, batch.map((r) => r.text)));
+    }
+    return embeddings;
+  } catch (error) {
+    logger.warn({ error: error instanceof Error ? error.message : String(error) }, "Rule embeddings for dedup failed, lexical dedup only");
+    return null;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for the grounding check (grounding.ts)
+ *
+ * Run with: deno test --allow-env grounding.test.ts
+ */
+
+import { assertEquals, assertAlmostEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { checkGrounding, wordCoverage } from "./grounding.ts";
+
+const CHUNK = `Article 4 - Notes de frais
+Les notes de frais doivent être soumises avant le 5 du mois suivant.
+Au-delà de 1000 €, une validation du directeur financier est requise.`;
+
+const OPTIONS = { mode: "flag" as const, minScore: 0.75, confidenceFactor: 0.5 };
+
+function buildRules() {
+  return [
+    // Anchored by anchorRules
+    {
+      text: "Les notes de frais doivent être soumises avant le 5 du mois suivant",
+      confidence: 0.9,
+      anchor: { start: 27, end: 95, quote: "", score: 1 },
+    },
+    // Not anchored, but reworded from the chunk
+    { text: "Validation du directeur financier requise au-delà de 1000 €", confidence: 0.8 },
+    // Invented
+    { text: "Les frais kilométriques sont remboursés selon le barème fiscal", confidence: 0.9 },
+  ];
+}
+
+Deno.test("wordCoverage - should ignore short words", () => {
+  assertEquals(wordCoverage("Le délai est de 30 jours", "le de est"), 0);
+  assertEquals(wordCoverage("Les notes de frais sont remboursées", CHUNK), 0.5);
+});
+
+Deno.test("checkGrounding - should flag ungrounded rules and reduce their confidence", () => {
+  const result = checkGrounding(buildRules(), CHUNK, OPTIONS);
+
+  assertEquals(result.rules.length, 3);
+  assertEquals(result.ungrounded, 1);
+  assertEquals(result.dropped, 0);
+  assertEquals(result.rules.map((r) => r.ungrounded), [false, false, true]);
+  assertEquals(result.rules[0].groundingScore, 1);
+  assertAlmostEquals(result.rules[2].confidence, 0.45, 0.001);
+});
+
+Deno.test("checkGrounding - should drop ungrounded rules in drop mode", () => {
+  const result = checkGrounding(buildRules(), CHUNK, { ...OPTIONS, mode: "drop" });
+
+  assertEquals(result.rules.length, 2);
+  assertEquals(result.ungrounded, 1);
+  assertEquals(result.dropped, 1);
+  assertEquals(result.rules.every((r) => r.confidence >= 0.8), true);
+});
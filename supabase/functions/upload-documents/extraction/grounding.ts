@@ -0,0 +1,77 @@
+/**
+ * Grounding check: detect rules the LLM did not take from the source text
+ *
+ * A rule is grounded when its text can be anchored in the chunk text it was
+ * extracted from (see anchorRules). Rules without a good anchor are scored
+ * by the share of their words found in that chunk text.
+ */
+
+import { normalizeWithMap } from "./locate.ts";
+import type { RuleAnchor } from "./pages.ts";
+
+// Shorter words (articles, prepositions) would match any French text
+const MIN_WORD_LENGTH = 4;
+
+export interface GroundingOptions {
+  mode: "flag" | "drop";
+  minScore: number;
+  confidenceFactor: number;
+}
+
+export interface GroundingResult<T> {
+  rules: T[];
+  ungrounded: number;
+  dropped: number;
+}
+
+interface GroundableRule {
+  text: string;
+  confidence: number;
+  anchor?: RuleAnchor;
+  groundingScore?: number;
+  ungrounded?: boolean;
+}
+
+/**
+ * Share of the significant (normalized) words of `ruleText` present in `sourceText`
+ */
+export function wordCoverage(ruleText: string, sourceText: string): number {
+  const words = normalizeWithMap(ruleText).text.split(" ").filter((w) => w.length >= MIN_WORD_LENGTH);
+  if (words.length === 0) return 0;
+
+  const vocabulary = new Set(normalizeWithMap(sourceText).text.split(" "));
+  return words.filter((word) => vocabulary.has(word)).length / words.length;
+}
+
+/**
+ * Score every rule against its source chunk text, then flag or drop the
+ * ones below `minScore` depending on the mode
+ */
+export function checkGrounding<T extends GroundableRule>(
+  rules: T[],
+  sourceText: string,
+  options: GroundingOptions
+): GroundingResult<T> {
+  const kept: T[] = [];
+  let ungrounded = 0;
+
+  for (const rule of rules) {
+    const score = Math.max(rule.anchor?.score ?? 0, wordCoverage(rule.text, sourceText));
+    rule.groundingScore = Math.round(score * 100) / 100;
+
+    if (score >= options.minScore) {
+      rule.ungrounded = false;
+      kept.push(rule);
+      continue;
+    }
+
+    ungrounded++;
+    if (options.mode === "flag") {
+      rule.ungrounded = true;
+      rule.confidence = rule.confidence * options.confidenceFactor;
+      kept.push(rule);
+    }
+  }
+
+  return { rules: kept, ungrounded, dropped: rules.length - kept.length };
+}
@@ -0,0 +1,186 @@
+/**
+ * Locate extracted rules in the parsed document text
+ *
+ * The LLM is asked for verbatim quotes, but whitespace, casing and
+ * punctuation rarely survive exactly. Matching is therefore done on a
+ * normalized form (lowercase, punctuation and whitespace collapsed) whose
+ * positions are mapped back to offsets in the original text.
+ */
+
+import type { DocumentSection } from "../parsing/types.ts";
+
+const PREFIX_WORDS = 8;
+// Minimum share of the quote words found in a window of the text
+const FUZZY_MIN_SCORE = 0.75;
+
+export interface NormalizedText {
+  text: string;
+  // map[i] = offset in the original text of normalized character i
+  map: number[];
+}
+
+export interface TextSpan {
+  start: number;
+  end: number;
+  // 1 for an exact (normalized) match, share of matched words otherwise
+  score: number;
+}
+
+interface LocatableRule {
+  text: string;
+  source: { page: number; section: string | null };
+}
+
+/**
+ * Normalize text for matching, keeping a map back to original offsets
+ */
+export function normalizeWithMap(text: string): NormalizedText {
+  let normalized = "";
+  const map: number[] = [];
+  let pendingSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i].toLowerCase();
+    if (/[\p{L}\p{N}]/u.test(char)) {
+      if (pendingSpace && normalized.length > 0) {
+        normalized += " ";
+        map.push(i);
+      }
+      normalized += char;
+      map.push(i);
+      pendingSpace = false;
+    } else {
+      pendingSpace = true;
+    }
+  }
+
+  return { text: normalized, map };
+}
+
+/**
+ * Span of `quote` in `text` (original offsets), or null if not found
+ *
+ * Tries an exact normalized match, then the window of the text sharing the
+ * most words with the quote, then the first words of the quote.
+ */
+export function findTextSpan(text: string | NormalizedText, quote: string): TextSpan | null {
+  const haystack = typeof text === "string" ? normalizeWithMap(text) : text;
+  const needle = normalizeWithMap(quote).text;
+  if (!needle) return null;
+
+  const index = haystack.text.indexOf(needle);
+  if (index >= 0) {
+    return toSpan(haystack, index, index + needle.length, 1);
+  }
+
+  const fuzzy = findBestWindow(haystack, needle.split(" "));
+  if (fuzzy) return fuzzy;
+
+  const prefix = needle.split(" ").slice(0, PREFIX_WORDS).join(" ");
+  if (prefix.length < 20) return null;
+  const prefixIndex = haystack.text.indexOf(prefix);
+  if (prefixIndex < 0) return null;
+
+  return toSpan(haystack, prefixIndex, prefixIndex + prefix.length, prefix.length / needle.length);
+}
+
+/**
+ * Offset of `quote` in `text`, or null if not found
+ */
+export function findTextOffset(text: string | NormalizedText, quote: string): number | null {
+  return findTextSpan(text, quote)?.start ?? null;
+}
+
+function toSpan(haystack: NormalizedText, from: number, to: number, score: number): TextSpan {
+  return { start: haystack.map[from], end: haystack.map[to - 1] + 1, score };
+}
+
+/**
+ * Sliding window of the quote length over the text words, scored by the
+ * number of quote words it contains (bag of words, order ignored)
+ */
+function findBestWindow(haystack: NormalizedText, words: string[]): TextSpan | null {
+  const size = words.length;
+  if (size < 3) return null;
+
+  const wanted = new Map<string, number>();
+  for (const word of words) wanted.set(word, (wanted.get(word) ?? 0) + 1);
+
+  const tokens: Array<{ word: string; from: number; to: number }> = [];
+  for (const match of haystack.text.matchAll(/\S+/g)) {
+    tokens.push({ word: match[0], from: match.index!, to: match.index! + match[0].length });
+  }
+  if (tokens.length === 0) return null;
+
+  const inWindow = new Map<string, number>();
+  let matched = 0;
+  let best = { matched: 0, first: 0, last: 0 };
+
+  const add = (word: string, delta: 1 | -1) => {
+    const limit = wanted.get(word);
+    if (limit === undefined) return;
+    const before = inWindow.get(word) ?? 0;
+    inWindow.set(word, before + delta);
+    if (delta === 1 && before < limit) matched++;
+    if (delta === -1 && before <= limit) matched--;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    add(tokens[i].word, 1);
+    if (i >= size) add(tokens[i - size].word, -1);
+    if (matched > best.matched) {
+      best = { matched, first: Math.max(0, i - size + 1), last: i };
+    }
+  }
+
+  const score = best.matched / size;
+  if (score < FUZZY_MIN_SCORE) return null;
+
+  // Trim the window to the first and last quote words it contains
+  let first = best.first;
+  let last = best.last;
+  while (first < last && !wanted.has(tokens[first].word)) first++;
+  while (last > first && !wanted.has(tokens[last].word)) last--;
+
+  return toSpan(haystack, tokens[first].from, tokens[last].to, score);
+}
+
+/**
+ * Heading path of the section containing `offset`
+ */
+export function sectionAtOffset(sections: DocumentSection[], offset: number): string | null {
+  let current: DocumentSection | null = null;
+  for (const section of sections) {
+    if (section.offset > offset) break;
+    current = section;
+  }
+  return current?.path ?? null;
+}
+
+/**
+ * Replace LLM-guessed sections with the document outline when the rule can
+ * be located in the text. Returns the number of rules that were located.
+ */
+export function assignSectionsFromOutline(
+  rules: LocatableRule[],
+  text: string,
+  sections: DocumentSection[]
+): number {
+  if (sections.length === 0) return 0;
+
+  const normalized = normalizeWithMap(text);
+  let located = 0;
+
+  for (const rule of rules) {
+    const offset = findTextOffset(normalized, rule.text);
+    if (offset === null) continue;
+
+    located++;
+    const section = sectionAtOffset(sections, offset);
+    if (section) {
+      rule.source = { ...rule.source, section };
+    }
+  }
+
+  return located;
+}
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for page attribution and rule anchoring (pages.ts)
+ *
+ * Run with: deno test --allow-env --allow-read pages.test.ts
+ */
+
+import { assertEquals, assert } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { RecursiveCharacterTextSplitter } from "npm:langchain@0.1.20/text_splitter";
+import { PAGE_SEPARATOR } from "../parsing/types.ts";
+import { normalizeWithMap } from "./locate.ts";
+import { computePageSpans, pageAtOffset, positionChunks, anchorRules, type RuleAnchor } from "./pages.ts";
+
+const PAGES = [
+  "Article 1. Les remboursements doivent être effectués sous 30 jours.\nLe justificatif est obligatoire.",
+  "Article 2. Si le montant dépasse 1000€, une validation du manager est requise.",
+  "Article 3. La commission est calculée à 2% du montant HT.\nElle est versée chaque trimestre.",
+];
+const TEXT = PAGES.join(PAGE_SEPARATOR);
+
+Deno.test("computePageSpans - should map every page to its character range", () => {
+  const spans = computePageSpans(TEXT);
+
+  assertEquals(spans.length, 3);
+  spans.forEach((span, i) => {
+    assertEquals(span.page, i + 1);
+    assertEquals(TEXT.slice(span.start, span.end), PAGES[i]);
+  });
+});
+
+Deno.test("pageAtOffset - should attribute separator offsets to the next page", () => {
+  const spans = computePageSpans(TEXT);
+
+  assertEquals(pageAtOffset(spans, 0), 1);
+  assertEquals(pageAtOffset(spans, spans[0].end - 1), 1);
+  assertEquals(pageAtOffset(spans, spans[0].end + 3), 2);
+  assertEquals(pageAtOffset(spans, TEXT.length - 1), 3);
+});
+
+Deno.test("positionChunks - should give each splitter chunk its exact page range", async () => {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: 60,
+    chunkOverlap: 20,
+    separators: ["\n\n", "\n", ". ", " ", ""],
+  });
+  const chunkTexts = await splitter.splitText(TEXT);
+  const spans = computePageSpans(TEXT);
+  const chunks = positionChunks(TEXT, chunkTexts, spans);
+
+  assert(chunks.length > PAGES.length);
+  for (const chunk of chunks) {
+    assertEquals(TEXT.slice(chunk.start, chunk.end), chunk.text);
+    assert(chunk.pageStart <= chunk.pageEnd);
+  }
+  assertEquals(chunks[0].pageStart, 1);
+  assertEquals(chunks[chunks.length - 1].pageEnd, 3);
+});
+
+Deno.test("anchorRules - should locate rules and clamp the ones it can't find", () => {
+  const spans = computePageSpans(TEXT);
+  const range = { start: spans[1].start, end: spans[2].end, pageStart: 2, pageEnd: 3 };
+  const rules: Array<{ text: string; source: { page: number; section: string | null }; anchor?: RuleAnchor }> = [
+    // LLM guessed wrong pages
+    { text: "La commission est calculée à 2 % du montant HT", source: { page: 1, section: null } },
+    { text: "les remboursements doivent être effectués sous 30 jours", source: { page: 3, section: "Art. 1" } },
+    // Not in the text: keeps a page inside the batch range
+    { text: "Toute dépense doit être approuvée par le directeur financier", source: { page: 7, section: null } },
+    { text: "Règle reformulée sans correspondance exacte dans le document", source: { page: 3, section: null } },
+  ];
+
+  const located = anchorRules(rules, TEXT, normalizeWithMap(TEXT), range, spans);
+
+  assertEquals(located, 2);
+  assertEquals(rules.map((r) => r.source.page), [3, 1, 2, 3]);
+  assertEquals(rules[1].source.section, "Art. 1");
+  assertEquals(rules[2].anchor, undefined);
+});
+
+Deno.test("anchorRules - should store the exact span of the quote in the text", () => {
+  const spans = computePageSpans(TEXT);
+  const range = { start: 0, end: TEXT.length, pageStart: 1, pageEnd: 3 };
+  const rules: Array<{ text: string; source: { page: number; section: string | null }; anchor?: RuleAnchor }> = [
+    { text: "Si le montant dépasse 1000 €, une validation du manager est requise", source: { page: 2, section: null } },
+    // Paraphrased: matched on the words it shares with the text
+    { text: "La commission est versée à 2% du montant HT", source: { page: 3, section: null } },
+  ];
+
+  anchorRules(rules, TEXT, normalizeWithMap(TEXT), range, spans);
+
+  const exact = rules[0].anchor!;
+  assertEquals(exact.quote, "Si le montant dépasse 1000€, une validation du manager est requise");
+  assertEquals(TEXT.slice(exact.start, exact.end), exact.quote);
+  assertEquals(exact.score, 1);
+
+  const fuzzy = rules[1].anchor!;
+  assertEquals(fuzzy.quote, "La commission est calculée à 2% du montant HT");
+  assert(fuzzy.score >= 0.75 && fuzzy.score < 1);
+});
@@ -0,0 +1,144 @@
+/**
+ * Deterministic page attribution for chunks and extracted rules
+ *
+ * All parsers join pages with PAGE_SEPARATOR, so page boundaries can be
+ * recovered from the parsed text. Chunks produced by the text splitter are
+ * positioned back in the text to get their exact page range, and rules are
+ * anchored to the span of the batch text they were extracted from.
+ */
+
+import { PAGE_SEPARATOR } from "../parsing/types.ts";
+import { findTextOffset, findTextSpan, normalizeWithMap, type NormalizedText } from "./locate.ts";
+
+export interface PageSpan {
+  page: number;
+  start: number;
+  end: number;
+}
+
+export interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+  pageStart: number;
+  pageEnd: number;
+}
+
+export interface RuleAnchor {
+  start: number;
+  end: number;
+  quote: string;
+  score: number;
+}
+
+interface AnchorableRule {
+  text: string;
+  source?: { page: number; section: string | null };
+  anchor?: RuleAnchor;
+}
+
+/**
+ * Character range of every page in the parsed text (separators excluded)
+ */
+export function computePageSpans(text: string): PageSpan[] {
+  const spans: PageSpan[] = [];
+  let start = 0;
+
+  while (true) {
+    const separatorIndex = text.indexOf(PAGE_SEPARATOR, start);
+    const end = separatorIndex < 0 ? text.length : separatorIndex;
+    spans.push({ page: spans.length + 1, start, end });
+    if (separatorIndex < 0) break;
+    start = separatorIndex + PAGE_SEPARATOR.length;
+  }
+
+  return spans;
+}
+
+/**
+ * Page containing `offset`; offsets inside a separator belong to the next page
+ */
+export function pageAtOffset(spans: PageSpan[], offset: number): number {
+  let low = 0;
+  let high = spans.length - 1;
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (offset < spans[mid].end) high = mid;
+    else low = mid + 1;
+  }
+
+  return spans[low]?.page ?? 1;
+}
+
+/**
+ * Find each chunk in the source text (chunks are in order and may overlap)
+ */
+export function positionChunks(text: string, chunkTexts: string[], spans: PageSpan[]): TextChunk[] {
+  let cursor = 0;
+
+  return chunkTexts.map((chunkText) => {
+    let start = text.indexOf(chunkText, cursor);
+    if (start < 0) {
+      // Splitter re-joined separators differently: fall back to normalized matching
+      const offset = findTextOffset(text.slice(cursor), chunkText);
+      start = offset !== null ? cursor + offset : cursor;
+    }
+
+    const end = Math.min(text.length, start + chunkText.length);
+    cursor = start + 1;
+
+    return {
+      text: chunkText,
+      start,
+      end,
+      pageStart: pageAtOffset(spans, start),
+      pageEnd: pageAtOffset(spans, Math.max(start, end - 1)),
+    };
+  });
+}
+
+/**
+ * Anchor each rule to the span of the text it was quoted from, and set
+ * source.page from that span
+ *
+ * Search order: the batch text the rule came from, then the whole document.
+ * Rules that can't be located get no anchor and keep the LLM page, clamped
+ * to the batch range. Returns the number of rules located in the text.
+ */
+export function anchorRules(
+  rules: AnchorableRule[],
+  text: string,
+  normalizedText: NormalizedText,
+  range: Pick<TextChunk, "start" | "end" | "pageStart" | "pageEnd">,
+  spans: PageSpan[]
+): number {
+  const scope = normalizeWithMap(text.slice(range.start, range.end));
+  let located = 0;
+
+  for (const rule of rules) {
+    if (!rule.text) continue;
+
+    let span = findTextSpan(scope, rule.text);
+    if (span) {
+      span = { ...span, start: span.start + range.start, end: span.end + range.start };
+    } else {
+      span = findTextSpan(normalizedText, rule.text);
+    }
+
+    let page: number;
+    if (span) {
+      page = pageAtOffset(spans, span.start);
+      rule.anchor = { ...span, quote: text.slice(span.start, span.end) };
+      located++;
+    } else {
+      const estimated = Number(rule.source?.page);
+      page = estimated >= range.pageStart && estimated <= range.pageEnd ? estimated : range.pageStart;
+      delete rule.anchor;
+    }
+
+    rule.source = { section: null, ...rule.source, page };
+  }
+
+  return located;
+}
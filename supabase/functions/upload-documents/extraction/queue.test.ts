@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the extraction queue (queue.ts)
+ *
+ * Run with: deno test --allow-env queue.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { CONFIG } from "../config.ts";
+import { countBatches, enqueueExtraction, failBatch, type ExtractionBatch } from "./queue.ts";
+import type { TextChunk } from "./pages.ts";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Minimal stand-in for the query builder: records writes, serves `rows` to selects
+ */
+function fakeClient(rows: Row[] = []) {
+  const calls: Array<{ table: string; op: string; values?: unknown; filters: Row }> = [];
+
+  const client = {
+    from(table: string) {
+      const call = { table, op: "select", values: undefined as unknown, filters: {} as Row };
+      calls.push(call);
+      const builder = {
+        insert(values: unknown) { call.op = "insert"; call.values = values; return builder; },
+        update(values: unknown) { call.op = "update"; call.values = values; return builder; },
+        select() { return builder; },
+        eq(column: string, value: unknown) { call.filters[column] = value; return builder; },
+        then(resolve: (result: { data: Row[]; error: null }) => void) {
+          resolve({ data: call.op === "select" ? rows : [], error: null });
+        },
+      };
+      return builder;
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, calls };
+}
+
+function makeChunks(count: number): TextChunk[] {
+  return Array.from({ length: count }, (_, i) => ({
+    text: `chunk ${i}`,
+    start: i * 10,
+    end: i * 10 + 7,
+    pageStart: i + 1,
+    pageEnd: i + 1,
+  }));
+}
+
+function makeBatch(attempts: number): ExtractionBatch {
+  return {
+    id: "batch-1",
+    job_id: "job-1",
+    document_id: "doc-1",
+    batch_index: 0,
+    chunk_start: 0,
+    chunk_end: CONFIG.BATCH_SIZE,
+    status: "running",
+    attempts,
+    rules: null,
+    stats: null,
+    error: null,
+  };
+}
+
+Deno.test("enqueueExtraction - one batch per BATCH_SIZE chunks, covering every chunk", async () => {
+  const { client, calls } = fakeClient();
+  const chunkCount = CONFIG.BATCH_SIZE * 2 + 1;
+
+  const batches = await enqueueExtraction(client, { jobId: "job-1", documentId: "doc-1", chunks: makeChunks(chunkCount) });
+
+  assertEquals(batches, 3);
+
+  const chunkRows = calls.filter((c) => c.table === "document_chunks").flatMap((c) => c.values as Row[]);
+  assertEquals(chunkRows.length, chunkCount);
+  assertEquals(chunkRows[1], {
+    job_id: "job-1",
+    document_id: "doc-1",
+    chunk_index: 1,
+    text: "chunk 1",
+    start_offset: 10,
+    end_offset: 17,
+    page_start: 2,
+    page_end: 2,
+  });
+
+  const batchRows = calls.filter((c) => c.table === "extraction_batches").flatMap((c) => c.values as Row[]);
+  assertEquals(batchRows.map((b) => [b.batch_index, b.chunk_start, b.chunk_end]), [
+    [0, 0, CONFIG.BATCH_SIZE],
+    [1, CONFIG.BATCH_SIZE, CONFIG.BATCH_SIZE * 2],
+    [2, CONFIG.BATCH_SIZE * 2, chunkCount],
+  ]);
+
+  const jobUpdate = calls.find((c) => c.table === "jobs");
+  assertEquals(jobUpdate?.values, { total_chunks: chunkCount, total_batches: 3, completed_batches: 0 });
+  assertEquals(jobUpdate?.filters, { id: "job-1" });
+});
+
+Deno.test("failBatch - released while attempts remain, error once exhausted", async () => {
+  const retry = fakeClient();
+  await failBatch(retry.client, makeBatch(1), "timeout");
+  assertEquals(retry.calls[0].values, { status: "pending", error: "timeout" });
+  assertEquals(retry.calls[0].filters, { id: "batch-1", status: "running" });
+
+  const exhausted = fakeClient();
+  await failBatch(exhausted.client, makeBatch(3), "timeout");
+  assertEquals(exhausted.calls[0].values, { status: "error", error: "timeout" });
+});
+
+Deno.test("countBatches - counts per status", async () => {
+  const { client } = fakeClient([
+    { status: "done" },
+    { status: "done" },
+    { status: "pending" },
+    { status: "error" },
+  ]);
+
+  assertEquals(await countBatches(client, "job-1"), { pending: 1, running: 0, done: 2, error: 1, cancelled: 0 });
+});
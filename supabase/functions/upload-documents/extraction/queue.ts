@@ -0,0 +1,273 @@
+/**
+ * Durable extraction queue in Postgres
+ *
+ * The upload stores the chunks of the document and one row per batch of
+ * chunks (extraction_batches). The process-extraction worker claims pending
+ * batches, checkpoints their rules, and finalizes the job once every batch
+ * is done. Batches left `running` by a recycled runtime are claimed again
+ * after QUEUE_CONFIG.STALE_BATCH_SECONDS, so a crash only loses the batches
+ * that were in flight.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { logger } from "../../_shared/logger.ts";
+import { invokeFunction } from "../../_shared/functions.ts";
+import { CONFIG, QUEUE_CONFIG } from "../config.ts";
+import type { TextChunk } from "./pages.ts";
+import type { BatchStats, RuleExtracted } from "./types.ts";
+
+export type BatchStatus = "pending" | "running" | "done" | "error" | "cancelled";
+
+export interface ExtractionBatch {
+  id: string;
+  job_id: string;
+  document_id: string;
+  batch_index: number;
+  chunk_start: number; // First chunk_index (inclusive)
+  chunk_end: number; // Last chunk_index (exclusive)
+  status: BatchStatus;
+  attempts: number;
+  rules: RuleExtracted[] | null;
+  stats: BatchStats | null;
+  error: string | null;
+}
+
+// PostgREST caps inserts and selects, keep requests small
+const PAGE_SIZE = 500;
+
+/**
+ * Persist the chunks of a job and create its batches (all pending)
+ * Returns the number of batches
+ */
+export async function enqueueExtraction(
+  supabaseClient: SupabaseClient,
+  params: { jobId: string; documentId: string; chunks: TextChunk[] }
+): Promise<number> {
+  const { jobId, documentId, chunks } = params;
+
+  const chunkRows = chunks.map((chunk, index) => ({
+    job_id: jobId,
+    document_id: documentId,
+    chunk_index: index,
+    text: chunk.text,
+    start_offset: chunk.start,
+    end_offset: chunk.end,
+    page_start: chunk.pageStart,
+    page_end: chunk.pageEnd,
+  }));
+
+  for (let i = 0; i < chunkRows.length; i += PAGE_SIZE) {
+    const { error } = await supabaseClient
+      .from("document_chunks")
+      .insert(chunkRows.slice(i, i + PAGE_SIZE));
+    if (error) throw new Error(`Failed to store chunks: ${error.message}`);
+  }
+
+  const batchRows = [];
+  for (let start = 0; start < chunks.length; start += CONFIG.BATCH_SIZE) {
+    batchRows.push({
+      job_id: jobId,
+      document_id: documentId,
+      batch_index: batchRows.length,
+      chunk_start: start,
+      chunk_end: Math.min(start + CONFIG.BATCH_SIZE, chunks.length),
+    });
+  }
+
+  for (let i = 0; i < batchRows.length; i += PAGE_SIZE) {
+    const { error } = await supabaseClient
+      .from("extraction_batches")
+      .insert(batchRows.slice(i, i + PAGE_SIZE));
+    if (error) throw new Error(`Failed to create batches: ${error.message}`);
+  }
+
+  const { error: jobError } = await supabaseClient
+    .from("jobs")
+    .update({ total_chunks: chunks.length, total_batches: batchRows.length, completed_batches: 0 })
+    .eq("id", jobId);
+  if (jobError) throw new Error(`Failed to update job: ${jobError.message}`);
+
+  return batchRows.length;
+}
+
+/**
+ * Claim up to `limit` batches (pending, or running but stale) of one job or
+ * of any job. Claimed batches are marked running by the database, so
+ * concurrent workers never get the same batch.
+ */
+export async function claimBatches(
+  supabaseClient: SupabaseClient,
+  jobId: string | null,
+  limit: number
+): Promise<ExtractionBatch[]> {
+  const { data, error } = await supabaseClient.rpc("claim_extraction_batches", {
+    p_job_id: jobId,
+    p_limit: limit,
+    p_stale_seconds: QUEUE_CONFIG.STALE_BATCH_SECONDS,
+    p_max_attempts: QUEUE_CONFIG.MAX_BATCH_ATTEMPTS,
+  });
+
+  if (error) throw new Error(`Failed to claim batches: ${error.message}`);
+  return (data || []) as ExtractionBatch[];
+}
+
+/**
+ * Chunks of a batch, in document order
+ */
+export async function loadBatchChunks(
+  supabaseClient: SupabaseClient,
+  batch: ExtractionBatch
+): Promise<TextChunk[]> {
+  const { data, error } = await supabaseClient
+    .from("document_chunks")
+    .select("text, start_offset, end_offset, page_start, page_end")
+    .eq("job_id", batch.job_id)
+    .gte("chunk_index", batch.chunk_start)
+    .lt("chunk_index", batch.chunk_end)
+    .order("chunk_index");
+
+  if (error) throw new Error(`Failed to load chunks: ${error.message}`);
+  return (data || []).map((row) => ({
+    text: row.text,
+    start: row.start_offset,
+    end: row.end_offset,
+    pageStart: row.page_start,
+    pageEnd: row.page_end,
+  }));
+}
+
+/**
+ * Checkpoint the result of a batch
+ */
+export async function completeBatch(
+  supabaseClient: SupabaseClient,
+  batch: ExtractionBatch,
+  rules: RuleExtracted[],
+  stats: BatchStats
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from("extraction_batches")
+    .update({ status: "done", rules, stats, error: null })
+    .eq("id", batch.id)
+    .eq("status", "running");
+
+  if (error) throw new Error(`Failed to checkpoint batch: ${error.message}`);
+}
+
+/**
+ * Release a failed batch: back to pending while attempts remain, error otherwise
+ */
+export async function failBatch(
+  supabaseClient: SupabaseClient,
+  batch: ExtractionBatch,
+  message: string
+): Promise<void> {
+  const exhausted = batch.attempts >= QUEUE_CONFIG.MAX_BATCH_ATTEMPTS;
+  const { error } = await supabaseClient
+    .from("extraction_batches")
+    .update({ status: exhausted ? "error" : "pending", error: message })
+    .eq("id", batch.id)
+    .eq("status", "running");
+
+  if (error) {
+    logger.error({ batchId: batch.id, error: error.message }, "Failed to release batch");
+  }
+}
+
+/**
+ * Number of batches of a job per status
+ */
+export async function countBatches(
+  supabaseClient: SupabaseClient,
+  jobId: string
+): Promise<Record<BatchStatus, number>> {
+  const { data, error } = await supabaseClient
+    .from("extraction_batches")
+    .select("status")
+    .eq("job_id", jobId);
+
+  if (error) throw new Error(`Failed to count batches: ${error.message}`);
+
+  const counts: Record<BatchStatus, number> = { pending: 0, running: 0, done: 0, error: 0, cancelled: 0 };
+  for (const row of data || []) {
+    counts[row.status as BatchStatus]++;
+  }
+  return counts;
+}
+
+/**
+ * Cancel the batches of a job not claimed yet (batches in flight still
+ * checkpoint their result, so their cost is recorded)
+ * Returns the number of cancelled batches
+ */
+export async function cancelPendingBatches(
+  supabaseClient: SupabaseClient,
+  jobId: string
+): Promise<number> {
+  const { data, error } = await supabaseClient
+    .from("extraction_batches")
+    .update({ status: "cancelled" })
+    .eq("job_id", jobId)
+    .eq("status", "pending")
+    .select("id");
+
+  if (error) throw new Error(`Failed to cancel batches: ${error.message}`);
+  return data?.length ?? 0;
+}
+
+/**
+ * Store the LLM cost of a job (sum of its checkpointed batches) and return it
+ */
+export async function recordJobCost(
+  supabaseClient: SupabaseClient,
+  jobId: string
+): Promise<number> {
+  const results = await loadBatchResults(supabaseClient, jobId);
+  const costUsd = results.reduce((sum, r) => sum + (r.stats?.costUsd ?? 0), 0);
+
+  const { error } = await supabaseClient
+    .from("jobs")
+    .update({ cost_usd: Number(costUsd.toFixed(6)) })
+    .eq("id", jobId);
+  if (error) throw new Error(`Failed to record job cost: ${error.message}`);
+
+  return costUsd;
+}
+
+/**
+ * Checkpointed rules and stats of a job, in batch order
+ */
+export async function loadBatchResults(
+  supabaseClient: SupabaseClient,
+  jobId: string
+): Promise<Array<Pick<ExtractionBatch, "batch_index" | "status" | "rules" | "stats">>> {
+  const results: Array<Pick<ExtractionBatch, "batch_index" | "status" | "rules" | "stats">> = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from("extraction_batches")
+      .select("batch_index, status, rules, stats")
+      .eq("job_id", jobId)
+      .order("batch_index")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load batch results: ${error.message}`);
+    results.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return results;
+}
+
+/**
+ * Start the process-extraction worker (returns once the worker accepted the call)
+ */
+export async function triggerWorker(jobId?: string, requestId?: string): Promise<void> {
+  try {
+    await invokeFunction("process-extraction", { jobId });
+    logger.info({ requestId, jobId }, "Extraction worker triggered");
+  } catch (err) {
+    // The scheduled worker run will pick the job up
+    logger.warn({ requestId, jobId, error: err instanceof Error ? err.message : String(err) }, "Worker trigger failed");
+  }
+}
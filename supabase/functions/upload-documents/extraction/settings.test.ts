@@ -0,0 +1,51 @@
+/**
+ * Unit tests for the extraction settings (settings.ts)
+ *
+ * Run with: deno test --allow-env settings.test.ts
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  DEFAULT_EXTRACTION_SETTINGS,
+  parseExtractionSettings,
+  resolveExtractionSettings,
+  usesDefaultExtraction,
+} from "./settings.ts";
+
+Deno.test("parseExtractionSettings - defaults when nothing is provided", () => {
+  assertEquals(parseExtractionSettings(undefined), DEFAULT_EXTRACTION_SETTINGS);
+  assertEquals(parseExtractionSettings({ model: "" }), DEFAULT_EXTRACTION_SETTINGS);
+});
+
+Deno.test("parseExtractionSettings - accepts overrides", () => {
+  const settings = parseExtractionSettings({
+    model: "gpt-4o",
+    chunkSize: "3000",
+    chunkOverlap: 300,
+    promptTemplate: "strict",
+    confidenceThreshold: 0.6,
+  });
+
+  assertEquals(settings, {
+    model: "gpt-4o",
+    chunkSize: 3000,
+    chunkOverlap: 300,
+    promptTemplate: "strict",
+    confidenceThreshold: 0.6,
+  });
+  assertEquals(usesDefaultExtraction(settings), false);
+});
+
+Deno.test("parseExtractionSettings - rejects invalid values", () => {
+  assertThrows(() => parseExtractionSettings({ chunkSize: 50 }), Error, "chunkSize");
+  assertThrows(() => parseExtractionSettings({ chunkSize: 1000, chunkOverlap: 600 }), Error, "chunkOverlap");
+  assertThrows(() => parseExtractionSettings({ promptTemplate: "custom" }), Error, "promptTemplate");
+  assertThrows(() => parseExtractionSettings({ confidenceThreshold: 1.5 }), Error, "confidenceThreshold");
+  assertThrows(() => parseExtractionSettings({ model: "gpt 4o; drop" }), Error, "model");
+});
+
+Deno.test("resolveExtractionSettings - falls back to defaults for missing or invalid stored settings", () => {
+  assertEquals(resolveExtractionSettings(null), DEFAULT_EXTRACTION_SETTINGS);
+  assertEquals(resolveExtractionSettings({ chunkSize: -1 }), DEFAULT_EXTRACTION_SETTINGS);
+  assertEquals(usesDefaultExtraction(resolveExtractionSettings(null)), true);
+});
@@ -0,0 +1,98 @@
+/**
+ * Extraction settings of a run (stored in jobs.settings)
+ *
+ * An upload runs with the defaults; a re-extraction may override the model,
+ * the chunking, the prompt template and the confidence threshold.
+ */
+
+import { CONFIG } from "../config.ts";
+import { PROMPT_TEMPLATES, type PromptTemplate } from "./extract.ts";
+
+export interface ExtractionSettings {
+  model?: string; // Defaults to the configured extraction model
+  chunkSize: number;
+  chunkOverlap: number;
+  promptTemplate: PromptTemplate;
+  confidenceThreshold: number;
+}
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  chunkSize: CONFIG.CHUNK_SIZE,
+  chunkOverlap: CONFIG.CHUNK_OVERLAP,
+  promptTemplate: "default",
+  confidenceThreshold: 0.3,
+};
+
+const CHUNK_SIZE_RANGE = { min: 200, max: 8000 };
+const MODEL_PATTERN = /^[\w.:/-]{1,100}$/;
+
+/**
+ * Validate user-provided settings, filling the defaults
+ * Throws an Error with a user-facing message when a value is invalid
+ */
+export function parseExtractionSettings(input: unknown): ExtractionSettings {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const settings: ExtractionSettings = { ...DEFAULT_EXTRACTION_SETTINGS };
+
+  if (raw.model !== undefined && raw.model !== null && raw.model !== "") {
+    if (typeof raw.model !== "string" || !MODEL_PATTERN.test(raw.model)) {
+      throw new Error("Invalid model name");
+    }
+    settings.model = raw.model;
+  }
+
+  if (raw.chunkSize !== undefined) {
+    const chunkSize = Number(raw.chunkSize);
+    if (!Number.isInteger(chunkSize) || chunkSize < CHUNK_SIZE_RANGE.min || chunkSize > CHUNK_SIZE_RANGE.max) {
+      throw new Error(`chunkSize must be an integer between ${CHUNK_SIZE_RANGE.min} and ${CHUNK_SIZE_RANGE.max}`);
+    }
+    settings.chunkSize = chunkSize;
+  }
+
+  if (raw.chunkOverlap !== undefined) {
+    const chunkOverlap = Number(raw.chunkOverlap);
+    if (!Number.isInteger(chunkOverlap) || chunkOverlap < 0) {
+      throw new Error("chunkOverlap must be a positive integer");
+    }
+    settings.chunkOverlap = chunkOverlap;
+  }
+
+  if (settings.chunkOverlap >= settings.chunkSize / 2) {
+    throw new Error("chunkOverlap must be less than half of chunkSize");
+  }
+
+  if (raw.promptTemplate !== undefined) {
+    if (typeof raw.promptTemplate !== "string" || !(raw.promptTemplate in PROMPT_TEMPLATES)) {
+      throw new Error(`promptTemplate must be one of: ${Object.keys(PROMPT_TEMPLATES).join(", ")}`);
+    }
+    settings.promptTemplate = raw.promptTemplate as PromptTemplate;
+  }
+
+  if (raw.confidenceThreshold !== undefined) {
+    const threshold = Number(raw.confidenceThreshold);
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      throw new Error("confidenceThreshold must be between 0 and 1");
+    }
+    settings.confidenceThreshold = threshold;
+  }
+
+  return settings;
+}
+
+/**
+ * Settings stored on a job (null for runs created before settings existed)
+ */
+export function resolveExtractionSettings(stored: unknown): ExtractionSettings {
+  try {
+    return parseExtractionSettings(stored);
+  } catch {
+    return { ...DEFAULT_EXTRACTION_SETTINGS };
+  }
+}
+
+/**
+ * Batches extracted with the default prompt and model can share the cache
+ */
+export function usesDefaultExtraction(settings: ExtractionSettings): boolean {
+  return !settings.model && settings.promptTemplate === "default";
+}
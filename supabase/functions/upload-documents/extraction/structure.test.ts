@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the structured rule representation (structure.ts)
+ *
+ * Run with: deno test structure.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { normalizeRuleStructure } from "./structure.ts";
+
+Deno.test("normalizeRuleStructure - keeps a valid structure", () => {
+  const structure = {
+    subject: "le service comptable",
+    modality: "must",
+    action: "payer les factures fournisseurs",
+    conditions: [{ field: "montant de la facture", operator: "gt", value: 1000, unit: "EUR" }],
+    exceptions: ["factures contestées"],
+    deadline: { value: 30, unit: "day", reference: "réception de la facture" },
+  };
+
+  assertEquals(normalizeRuleStructure(structure), structure);
+});
+
+Deno.test("normalizeRuleStructure - accepts operator symbols and French units", () => {
+  const structure = normalizeRuleStructure({
+    modality: "Must_Not",
+    action: "  valider sa propre note de frais ",
+    conditions: [
+      { field: "ancienneté", operator: ">=", value: 2, unit: "ans" },
+      { field: "montant", operator: "between", value: [100, 500] },
+    ],
+    deadline: { value: "5", unit: "jours ouvrés" },
+  });
+
+  assertEquals(structure, {
+    subject: null,
+    modality: "must_not",
+    action: "valider sa propre note de frais",
+    conditions: [
+      { field: "ancienneté", operator: "gte", value: 2, unit: "ans" },
+      { field: "montant", operator: "between", value: [100, 500], unit: null },
+    ],
+    exceptions: [],
+    deadline: { value: 5, unit: "business_day", reference: null },
+  });
+});
+
+Deno.test("normalizeRuleStructure - drops invalid parts", () => {
+  const structure = normalizeRuleStructure({
+    subject: "",
+    modality: "may",
+    action: "télétravailler",
+    conditions: [
+      { field: "jour", operator: "eq", value: "vendredi", unit: null },
+      { field: "", operator: "eq", value: 1 },
+      { field: "site", operator: "like", value: "Paris" },
+      "condition en texte libre",
+    ],
+    exceptions: ["période de clôture", 3, " "],
+    deadline: { value: 2, unit: "fortnight" },
+  });
+
+  assertEquals(structure, {
+    subject: null,
+    modality: "may",
+    action: "télétravailler",
+    conditions: [{ field: "jour", operator: "eq", value: "vendredi", unit: null }],
+    exceptions: ["période de clôture"],
+    deadline: null,
+  });
+});
+
+Deno.test("normalizeRuleStructure - null without action or known modality", () => {
+  assertEquals(normalizeRuleStructure(null), null);
+  assertEquals(normalizeRuleStructure("structure"), null);
+  assertEquals(normalizeRuleStructure({ modality: "must" }), null);
+  assertEquals(normalizeRuleStructure({ modality: "should", action: "payer" }), null);
+});
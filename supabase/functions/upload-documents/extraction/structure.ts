@@ -0,0 +1,134 @@
+/**
+ * Structured form of a rule (rules.structure), extracted with its text
+ *
+ * Who (subject) must / must not / may do what (action), under which
+ * conditions, with which exceptions and deadline. Conditions are typed
+ * (field, operator, value, unit) so that tests, simulations and exports to
+ * rule engines don't have to parse the prose again.
+ *
+ * The database checks the same schema (migration 20251212090000_add_rule_structure.sql);
+ * normalizeRuleStructure coerces the LLM output into it or returns null.
+ */
+
+export const MODALITIES = ["must", "must_not", "may"] as const;
+
+export const CONDITION_OPERATORS = [
+  "eq", "neq", "gt", "gte", "lt", "lte", "between", "in", "not_in", "contains", "exists",
+] as const;
+
+export const DEADLINE_UNITS = ["hour", "day", "business_day", "week", "month", "year"] as const;
+
+export type Modality = typeof MODALITIES[number];
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+export type DeadlineUnit = typeof DEADLINE_UNITS[number];
+
+export type ConditionValue = string | number | boolean | Array<string | number> | null;
+
+export interface StructuredCondition {
+  field: string; // What is tested: "montant de la facture", "ancienneté"...
+  operator: ConditionOperator;
+  value: ConditionValue; // [min, max] for between, a list for in / not_in, null for exists
+  unit: string | null; // "EUR", "jours", "%"...
+}
+
+export interface RuleDeadline {
+  value: number;
+  unit: DeadlineUnit;
+  reference: string | null; // Starting point: "réception de la facture"
+}
+
+export interface RuleStructure {
+  subject: string | null; // Actor the rule applies to
+  modality: Modality;
+  action: string;
+  conditions: StructuredCondition[];
+  exceptions: string[];
+  deadline: RuleDeadline | null;
+}
+
+// Operators and units as the LLM may write them
+const OPERATOR_ALIASES: Record<string, ConditionOperator> = {
+  "=": "eq", "==": "eq", "!=": "neq", "<>": "neq",
+  ">": "gt", ">=": "gte", "<": "lt", "<=": "lte",
+};
+
+const DEADLINE_UNIT_ALIASES: Record<string, DeadlineUnit> = {
+  heure: "hour", heures: "hour", hours: "hour",
+  jour: "day", jours: "day", days: "day", calendar_day: "day",
+  jour_ouvre: "business_day", jours_ouvres: "business_day", business_days: "business_day", working_day: "business_day",
+  semaine: "week", semaines: "week", weeks: "week",
+  mois: "month", months: "month",
+  an: "year", ans: "year", annee: "year", annees: "year", years: "year",
+};
+
+function text(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[\s-]+/g, "_");
+}
+
+function conditionValue(value: unknown): ConditionValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "boolean") return value;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string | number => typeof v === "string" || (typeof v === "number" && Number.isFinite(v)));
+  }
+  return null;
+}
+
+function normalizeCondition(input: unknown): StructuredCondition | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+
+  const field = text(raw.field);
+  const operatorKey = typeof raw.operator === "string" ? raw.operator.trim() : "";
+  const operator = OPERATOR_ALIASES[operatorKey] ??
+    (CONDITION_OPERATORS as readonly string[]).find((o) => o === normalizeKey(operatorKey));
+  if (!field || !operator) return null;
+
+  return { field, operator: operator as ConditionOperator, value: conditionValue(raw.value), unit: text(raw.unit) };
+}
+
+function normalizeDeadline(input: unknown): RuleDeadline | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+
+  const value = Number(raw.value);
+  const unitKey = typeof raw.unit === "string" ? normalizeKey(raw.unit) : "";
+  const unit = (DEADLINE_UNITS as readonly string[]).includes(unitKey)
+    ? unitKey as DeadlineUnit
+    : DEADLINE_UNIT_ALIASES[unitKey];
+  if (!Number.isFinite(value) || value < 0 || !unit) return null;
+
+  return { value, unit, reference: text(raw.reference) };
+}
+
+/**
+ * Coerce a structure produced by the LLM into the schema, null when it has
+ * no usable action or modality. Invalid conditions and deadline are dropped.
+ */
+export function normalizeRuleStructure(input: unknown): RuleStructure | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+
+  const action = text(raw.action);
+  const modalityKey = typeof raw.modality === "string" ? normalizeKey(raw.modality) : "";
+  const modality = (MODALITIES as readonly string[]).find((m) => m === modalityKey) as Modality | undefined;
+  if (!action || !modality) return null;
+
+  return {
+    subject: text(raw.subject),
+    modality,
+    action,
+    conditions: Array.isArray(raw.conditions)
+      ? raw.conditions.map(normalizeCondition).filter((c): c is StructuredCondition => !!c)
+      : [],
+    exceptions: Array.isArray(raw.exceptions)
+      ? raw.exceptions.map(text).filter((e): e is string => !!e)
+      : [],
+    deadline: normalizeDeadline(raw.deadline),
+  };
+}
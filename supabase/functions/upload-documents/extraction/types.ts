@@ -0,0 +1,44 @@
+/**
+ * Types shared by the upload and the extraction worker
+ */
+
+import type { RuleAnchor } from "./pages.ts";
+import type { RuleStructure } from "./structure.ts";
+
+/**
+ * Variant of a rule merged into it by the deduplication (see dedup.ts)
+ */
+export interface RuleAlias {
+  text: string;
+  confidence: number;
+  page: number;
+}
+
+export interface RuleExtracted {
+  text: string;
+  conditions: string[];
+  domain: string | null;
+  tags: string[];
+  confidence: number;
+  source: { page: number; section: string | null };
+  anchor?: RuleAnchor; // Span of the parsed text the rule was found in
+  groundingScore?: number;
+  ungrounded?: boolean; // Not found in the source chunk text (likely invented)
+  aliases?: RuleAlias[]; // Near-duplicates extracted from other chunks
+  structure?: RuleStructure | null; // Subject / modality / action / conditions (see structure.ts)
+}
+
+/**
+ * Per-batch counters, checkpointed with the batch and summed when the job completes
+ */
+export interface BatchStats {
+  rulesExtracted: number;
+  rulesLocated: number;
+  rulesUngrounded: number;
+  rulesUngroundedDropped: number;
+  cacheHit: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
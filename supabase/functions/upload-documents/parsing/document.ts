@@ -0,0 +1,47 @@
+/**
+ * Format detection and parser dispatch for uploaded documents
+ */
+
+import { parsePDF } from "./pdf.ts";
+import { parsePPTX } from "./pptx.ts";
+import { parseDOCX } from "./docx.ts";
+import type { DocumentFormat, ParsedDocument } from "./types.ts";
+
+export const MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: "application/pdf",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+/**
+ * Detect document format from file extension, then MIME type
+ * Returns null for unsupported files
+ */
+export function detectDocumentFormat(fileName: string, mimeType?: string | null): DocumentFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "pdf" || extension === "pptx" || extension === "docx") {
+    return extension;
+  }
+
+  const format = (Object.keys(MIME_TYPES) as DocumentFormat[]).find((f) => MIME_TYPES[f] === mimeType);
+  return format ?? null;
+}
+
+/**
+ * Parse document with the backend matching its format
+ */
+export function parseDocument(
+  buffer: Uint8Array,
+  format: DocumentFormat,
+  requestId?: string
+): Promise<ParsedDocument> {
+  switch (format) {
+    case "pptx":
+      return parsePPTX(buffer, requestId);
+    case "docx":
+      return parseDOCX(buffer, requestId);
+    case "pdf":
+    default:
+      return parsePDF(buffer, requestId);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for DOCX parsing (docx.ts) and outline-based section assignment
+ *
+ * Run with: deno test --allow-env docx.test.ts
+ */
+
+import { assertEquals, assert } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { zipSync, strToU8 } from "npm:fflate@0.8.2";
+import { parseDOCX } from "./docx.ts";
+import { PAGE_SEPARATOR } from "./types.ts";
+import { assignSectionsFromOutline } from "../extraction/locate.ts";
+
+// French Word: style IDs are localized, style names are not
+const STYLES_XML = `<w:styles>
+  <w:style w:type="paragraph" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Titre1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:numPr><w:numId w:val="1"/></w:numPr><w:outlineLvl w:val="0"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Titre2"><w:name w:val="heading 2"/><w:basedOn w:val="Titre1"/>
+    <w:pPr><w:outlineLvl w:val="1"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Annexe"><w:name w:val="Annexe"/><w:pPr><w:outlineLvl w:val="0"/></w:pPr></w:style>
+</w:styles>`;
+
+function paragraph(text: string, style?: string, extraRun = ""): string {
+  const pPr = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : "";
+  return `<w:p w:rsidR="00A1">${pPr}${extraRun}<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+function buildDocx(): Uint8Array {
+  const body = [
+    paragraph("Remboursements", "Titre1"),
+    paragraph("Les remboursements doivent être effectués sous 30 jours."),
+    paragraph("Plafonds", "Titre2"),
+    `<w:tbl><w:tblPr/><w:tr><w:tc><w:p><w:r><w:t>Montant</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Validation</w:t></w:r></w:p></w:tc></w:tr>
+      <w:tr><w:tc><w:p><w:r><w:t>&gt; 1000 €</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Direction</w:t></w:r></w:p></w:tc></w:tr></w:tbl>`,
+    paragraph("Au-delà de 1000 €, une validation de la direction est requise."),
+    paragraph("Congés", "Titre1", `<w:r><w:br w:type="page"/></w:r>`),
+    paragraph("Délais", "Titre2"),
+    paragraph("La demande de congé est déposée au moins 15 jours à l'avance."),
+    "<w:p/>",
+    paragraph("Glossaire", "Annexe"),
+    paragraph("Un jour ouvré exclut les week-ends et jours fériés."),
+  ].join("");
+
+  return zipSync({
+    "word/document.xml": strToU8(`<w:document><w:body>${body}<w:sectPr/></w:body></w:document>`),
+    "word/styles.xml": strToU8(STYLES_XML),
+  });
+}
+
+Deno.test("parseDOCX - should number headings from the outline", async () => {
+  const result = await parseDOCX(buildDocx(), "req_test");
+
+  assertEquals(result.format, "docx");
+  assertEquals(
+    result.sections?.map((s) => s.path),
+    [
+      "1 Remboursements",
+      "1 Remboursements > 1.1 Plafonds",
+      "2 Congés",
+      "2 Congés > 2.1 Délais",
+      "Glossaire",
+    ]
+  );
+  assert(result.text.includes("# 1 Remboursements\n\nLes remboursements"));
+  assert(result.text.includes("## 2.1 Délais"));
+});
+
+Deno.test("parseDOCX - should record section offsets in the output text", async () => {
+  const result = await parseDOCX(buildDocx());
+
+  for (const section of result.sections ?? []) {
+    const heading = result.text.slice(section.offset).split("\n")[0];
+    assertEquals(heading.replace(/^#+ /, ""), section.title);
+  }
+});
+
+Deno.test("parseDOCX - should split pages on explicit page breaks", async () => {
+  const result = await parseDOCX(buildDocx());
+  const pages = result.text.split(PAGE_SEPARATOR);
+
+  assertEquals(result.pages, 2);
+  assert(pages[0].includes("=== EXTRACTED TABLES ===\n| Montant | Validation |\n| > 1000 € | Direction |"));
+  assert(pages[1].startsWith("# 2 Congés"));
+});
+
+Deno.test("assignSectionsFromOutline - should replace LLM sections for located rules", async () => {
+  const result = await parseDOCX(buildDocx());
+  const rules = [
+    { text: "Au-delà de 1000 € une validation de la direction est requise", source: { page: 1, section: "Finance" } },
+    { text: "la demande de congé est déposée au moins 15 jours à l'avance.", source: { page: 2, section: null } },
+    { text: "Règle inventée qui n'apparaît nulle part dans le document", source: { page: 1, section: "Autre" } },
+  ];
+
+  const located = assignSectionsFromOutline(rules, result.text, result.sections ?? []);
+
+  assertEquals(located, 2);
+  assertEquals(rules[0].source.section, "1 Remboursements > 1.1 Plafonds");
+  assertEquals(rules[1].source.section, "2 Congés > 2.1 Délais");
+  assertEquals(rules[2].source.section, "Autre");
+});
@@ -0,0 +1,278 @@
+/**
+ * DOCX parsing: reads the OOXML package directly (no external service)
+ *
+ * Keeps the document outline:
+ * - Heading levels come from styles.xml ("heading 1".."heading 9" or outline
+ *   level), so localized style IDs such as "Titre1" are recognised
+ * - Numbered headings get their section number recomputed ("2.1.3")
+ * - Headings are emitted as markdown ("## 2.1 Remboursements") and recorded
+ *   in ParsedDocument.sections with their offset in the output text
+ *
+ * Pages are split on explicit page breaks and on the page breaks Word
+ * recorded at last save (w:lastRenderedPageBreak).
+ */
+
+import { unzipSync, strFromU8 } from "npm:fflate@0.8.2";
+import { logger } from "../../_shared/logger.ts";
+import { decodeXmlEntities } from "./xml.ts";
+import { PAGE_SEPARATOR, type DocumentSection, type ParsedDocument } from "./types.ts";
+
+const MAX_HEADING_LEVEL = 9;
+const PAGE_BREAK_MARKER = "\u000c";
+
+interface StyleInfo {
+  headingLevel: number | null;
+  numbered: boolean;
+  basedOn: string | null;
+}
+
+/**
+ * Parse DOCX buffer into text with heading-aware section tracking
+ */
+export async function parseDOCX(
+  buffer: Uint8Array,
+  requestId?: string
+): Promise<ParsedDocument> {
+  const startTime = Date.now();
+
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(buffer);
+  } catch (error) {
+    logger.error({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }, "DOCX archive could not be opened");
+    throw new Error("Failed to parse DOCX: invalid or corrupted file");
+  }
+
+  const documentXml = files["word/document.xml"] ? strFromU8(files["word/document.xml"]) : "";
+  const body = documentXml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1];
+  if (!body) {
+    throw new Error("Failed to parse DOCX: missing document body");
+  }
+
+  const styles = parseStyles(files["word/styles.xml"] ? strFromU8(files["word/styles.xml"]) : "");
+
+  // Build text page by page, tracking heading offsets in the final joined text
+  const pages: string[] = [""];
+  const sections: DocumentSection[] = [];
+  const counters = new Array(MAX_HEADING_LEVEL).fill(0);
+  const breadcrumb: string[] = [];
+
+  const append = (block: string) => {
+    const parts = block.split(PAGE_BREAK_MARKER);
+    parts.forEach((part, index) => {
+      if (index > 0) pages.push("");
+      const trimmed = part.trim();
+      if (trimmed) {
+        pages[pages.length - 1] += (pages[pages.length - 1] ? "\n\n" : "") + trimmed;
+      }
+    });
+  };
+
+  const currentOffset = () =>
+    pages.slice(0, -1).reduce((sum, p) => sum + p.length + PAGE_SEPARATOR.length, 0) +
+    pages[pages.length - 1].length +
+    (pages[pages.length - 1] ? 2 : 0);
+
+  for (const element of iterateBodyElements(body)) {
+    if (element.type === "table") {
+      append(renderTable(element.xml));
+      continue;
+    }
+
+    const paragraphText = extractParagraphText(element.xml);
+    const heading = resolveHeading(element.xml, styles);
+
+    if (!heading || !paragraphText.replaceAll(PAGE_BREAK_MARKER, "").trim()) {
+      append(paragraphText);
+      continue;
+    }
+
+    // Page breaks placed before the heading text belong to the previous page
+    const leadingBreaks = paragraphText.match(new RegExp(`^[\\s${PAGE_BREAK_MARKER}]*`))?.[0] ?? "";
+    if (leadingBreaks.includes(PAGE_BREAK_MARKER)) append(leadingBreaks);
+    const title = paragraphText.slice(leadingBreaks.length).replaceAll(PAGE_BREAK_MARKER, " ").trim();
+
+    const level = heading.level;
+    let number: string | null = null;
+    if (heading.numbered) {
+      counters[level - 1]++;
+      counters.fill(0, level);
+      number = counters.slice(0, level).map((c) => Math.max(c, 1)).join(".");
+    }
+    const label = number ? `${number} ${title}` : title;
+
+    breadcrumb.length = level - 1;
+    breadcrumb[level - 1] = label;
+
+    sections.push({
+      offset: currentOffset(),
+      level,
+      title: label,
+      path: breadcrumb.filter(Boolean).join(" > "),
+    });
+    append(`${"#".repeat(Math.min(level, 6))} ${label}`);
+  }
+
+  const nonEmptyPages = pages.length > 1 && !pages[pages.length - 1] ? pages.slice(0, -1) : pages;
+  const text = nonEmptyPages.join(PAGE_SEPARATOR);
+  const parseDuration = Date.now() - startTime;
+
+  logger.info({
+    requestId,
+    parse_backend: "docx-ooxml",
+    parse_duration_ms: parseDuration,
+    pages: nonEmptyPages.length,
+    sections: sections.length,
+    textLength: text.length,
+  }, "DOCX parsed");
+
+  return {
+    text,
+    pages: nonEmptyPages.length,
+    format: "docx",
+    parseBackend: "docx-ooxml",
+    parseDurationMs: parseDuration,
+    sections,
+  };
+}
+
+/**
+ * Map styleId -> heading level / numbering, following w:basedOn inheritance
+ */
+function parseStyles(stylesXml: string): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+
+  for (const match of stylesXml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const styleId = match[1].match(/w:styleId="([^"]+)"/)?.[1];
+    if (!styleId) continue;
+
+    const content = match[2];
+    const name = content.match(/<w:name w:val="([^"]+)"/)?.[1] ?? "";
+    const outlineLevel = content.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+    const headingName = name.match(/^heading (\d)$/i)?.[1];
+
+    let headingLevel: number | null = null;
+    if (headingName) headingLevel = parseInt(headingName, 10);
+    else if (outlineLevel !== undefined) headingLevel = parseInt(outlineLevel, 10) + 1;
+    else if (/^title$/i.test(name)) headingLevel = 1;
+
+    styles.set(styleId, {
+      headingLevel: headingLevel && headingLevel <= MAX_HEADING_LEVEL ? headingLevel : null,
+      numbered: /<w:numPr>/.test(content),
+      basedOn: content.match(/<w:basedOn w:val="([^"]+)"/)?.[1] ?? null,
+    });
+  }
+
+  return styles;
+}
+
+function resolveHeading(
+  paragraphXml: string,
+  styles: Map<string, StyleInfo>
+): { level: number; numbered: boolean } | null {
+  const pPr = paragraphXml.match(/<w:pPr>([\s\S]*?)<\/w:pPr>/)?.[1] ?? "";
+  const directOutline = pPr.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+  const numberingDisabled = /<w:numId w:val="0"\/>/.test(pPr);
+
+  let level: number | null = directOutline !== undefined ? parseInt(directOutline, 10) + 1 : null;
+  let numbered = /<w:numPr>/.test(pPr);
+
+  // Walk the style inheritance chain (bounded to avoid cycles)
+  let styleId = pPr.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? null;
+  for (let depth = 0; styleId && depth < 10; depth++) {
+    const style = styles.get(styleId);
+    if (!style) break;
+    level = level ?? style.headingLevel;
+    numbered = numbered || style.numbered;
+    styleId = style.basedOn;
+  }
+
+  if (!level || level > MAX_HEADING_LEVEL) return null;
+  return { level, numbered: numbered && !numberingDisabled };
+}
+
+/**
+ * Yield top-level paragraphs and tables of the body in document order
+ */
+function* iterateBodyElements(body: string): Generator<{ type: "paragraph" | "table"; xml: string }> {
+  const cleaned = body.replace(/<mc:Fallback>[\s\S]*?<\/mc:Fallback>/g, "");
+  const openTag = /<w:(p|tbl)(?=[\s>])[^>]*?(\/?)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = openTag.exec(cleaned)) !== null) {
+    const tag = match[1];
+    if (match[2] === "/") continue; // Self-closing empty paragraph
+
+    const end = findElementEnd(cleaned, tag, match.index + match[0].length);
+    yield { type: tag === "tbl" ? "table" : "paragraph", xml: cleaned.slice(match.index, end) };
+    openTag.lastIndex = end;
+  }
+}
+
+/**
+ * Index just after the closing tag matching an element opened before `from`
+ */
+function findElementEnd(xml: string, tag: string, from: number): number {
+  const pattern = new RegExp(`<(/?)w:${tag}(?=[\\s>/])[^>]*?(/?)>`, "g");
+  pattern.lastIndex = from;
+  let depth = 1;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    if (match[2] === "/") continue;
+    depth += match[1] === "/" ? -1 : 1;
+    if (depth === 0) return match.index + match[0].length;
+  }
+  return xml.length;
+}
+
+function extractParagraphText(paragraphXml: string): string {
+  const pieces: string[] = [];
+  const tokens = /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br\b([^>]*)\/>|<w:lastRenderedPageBreak\/>/g;
+
+  for (const token of paragraphXml.matchAll(tokens)) {
+    if (token[1] !== undefined) pieces.push(decodeXmlEntities(token[1]));
+    else if (token[0] === "<w:tab/>") pieces.push("\t");
+    else if (token[0].startsWith("<w:lastRenderedPageBreak")) pieces.push(PAGE_BREAK_MARKER);
+    else pieces.push(/w:type="page"/.test(token[2] ?? "") ? PAGE_BREAK_MARKER : "\n");
+  }
+
+  return pieces.join("");
+}
+
+/**
+ * Tables rendered as markdown rows (same format as the PyMuPDF service)
+ */
+function renderTable(tableXml: string): string {
+  const rows: string[] = [];
+  const inner = tableXml.replace(/^<w:tbl[^>]*>/, "");
+
+  for (const row of iterateChildren(inner, "tr")) {
+    const cells = iterateChildren(row, "tc").map((cell) =>
+      [...iterateChildren(cell, "p")].map(extractParagraphText).join(" ")
+        .replaceAll(PAGE_BREAK_MARKER, " ").replace(/\s+/g, " ").trim()
+    );
+    if (cells.some((cell) => cell.length > 0)) {
+      rows.push(`| ${cells.join(" | ")} |`);
+    }
+  }
+
+  return rows.length > 0 ? `=== EXTRACTED TABLES ===\n${rows.join("\n")}` : "";
+}
+
+function iterateChildren(xml: string, tag: string): string[] {
+  const children: string[] = [];
+  const openTag = new RegExp(`<w:${tag}(?=[\\s>])[^>]*?(/?)>`, "g");
+
+  let match: RegExpExecArray | null;
+  while ((match = openTag.exec(xml)) !== null) {
+    if (match[1] === "/") continue;
+    const end = findElementEnd(xml, tag, match.index + match[0].length);
+    children.push(xml.slice(match.index, end));
+    openTag.lastIndex = end;
+  }
+  return children;
+}
@@ -0,0 +1,154 @@
+/**
+ * PDF parsing: PyMuPDF service with fallback to pdf-parse
+ */
+
+import { logger } from "../../_shared/logger.ts";
+import { PARSE_CONFIG } from "../config.ts";
+import { PAGE_SEPARATOR, type ParsedDocument } from "./types.ts";
+
+/**
+ * Parse PDF with PyMuPDF service (fallback to pdf-parse if unavailable)
+ */
+export async function parsePDF(
+  buffer: Uint8Array,
+  requestId?: string
+): Promise<ParsedDocument> {
+  // Use centralized config from config.ts
+  const { SERVICE_URL, SERVICE_TOKEN, TIMEOUT_MS, MAX_RETRIES } = PARSE_CONFIG;
+
+  // Try PyMuPDF service if configured
+  if (SERVICE_URL) {
+    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      const startTime = Date.now();
+
+      try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+        const formData = new FormData();
+        const blob = new Blob([buffer], { type: "application/pdf" });
+        formData.append("file", blob, "document.pdf");
+
+        const headers: Record<string, string> = {};
+        if (SERVICE_TOKEN) {
+          headers["Authorization"] = `Bearer ${SERVICE_TOKEN}`;
+        }
+
+        const response = await fetch(`${SERVICE_URL}/parse`, {
+          method: "POST",
+          body: formData,
+          headers,
+          signal: controller.signal,
+        });
+
+        clearTimeout(timeoutId);
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          logger.warn({
+            requestId,
+            attempt: attempt + 1,
+            status: response.status,
+            error: errorText,
+          }, "PyMuPDF service error");
+          continue; // Retry or fallback
+        }
+
+        const data = await response.json();
+        const pages = data.pages || [];
+        const text = pages.map((p: any) => p.text).join(PAGE_SEPARATOR);
+        const parseDuration = Date.now() - startTime;
+
+        logger.info({
+          requestId,
+          parse_backend: "pymupdf",
+          parse_duration_ms: parseDuration,
+          pages: data.total_pages,
+          textLength: text.length,
+        }, "PDF parsed with PyMuPDF service");
+
+        return {
+          text,
+          pages: data.total_pages,
+          format: "pdf",
+          parseBackend: "pymupdf",
+          parseDurationMs: parseDuration,
+        };
+      } catch (error) {
+        logger.warn({
+          requestId,
+          attempt: attempt + 1,
+          error: error instanceof Error ? error.message : String(error),
+        }, "PyMuPDF service call failed");
+
+        if (attempt === MAX_RETRIES - 1) {
+          logger.info({ requestId }, "Falling back to pdf-parse");
+          break; // Fall through to pdf-parse
+        }
+      }
+    }
+  }
+
+  // Fallback: pdf-parse
+  const startTime = Date.now();
+  try {
+    const pdfParse = await import("npm:pdf-parse@1.1.1");
+    const pageTexts: string[] = [];
+    const pdfData = await pdfParse.default(buffer, {
+      // Keep page boundaries (default renderer concatenates all pages)
+      pagerender: (pageData: PdfPageData) => renderPage(pageData, pageTexts),
+    });
+    const text = pageTexts.join(PAGE_SEPARATOR);
+    const parseDuration = Date.now() - startTime;
+
+    logger.info({
+      requestId,
+      parse_backend: "pdf-parse",
+      parse_duration_ms: parseDuration,
+      pages: pdfData.numpages,
+      textLength: text.length,
+    }, "PDF parsed with pdf-parse (fallback)");
+
+    return {
+      text,
+      pages: pdfData.numpages,
+      format: "pdf",
+      parseBackend: "pdf-parse",
+      parseDurationMs: parseDuration,
+    };
+  } catch (error) {
+    logger.error({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }, "PDF parsing failed completely");
+    throw new Error("Failed to parse PDF with both PyMuPDF and pdf-parse");
+  }
+}
+
+// Subset of the pdf.js page proxy passed to pdf-parse's pagerender
+interface PdfPageData {
+  pageIndex: number;
+  getTextContent(options: Record<string, boolean>): Promise<{
+    items: Array<{ str: string; transform: number[] }>;
+  }>;
+}
+
+/**
+ * Same text layout as pdf-parse's default renderer, one entry per page
+ */
+async function renderPage(pageData: PdfPageData, pageTexts: string[]): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let lastY: number | undefined;
+  let text = "";
+  for (const item of textContent.items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+
+  pageTexts[pageData.pageIndex] = text;
+  return text;
+}
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for PPTX parsing (pptx.ts)
+ *
+ * Run with: deno test --allow-env pptx.test.ts
+ */
+
+import { assertEquals, assertRejects, assert } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { zipSync, strToU8 } from "npm:fflate@0.8.2";
+import { parsePPTX } from "./pptx.ts";
+import { detectDocumentFormat } from "./document.ts";
+import { PAGE_SEPARATOR } from "./types.ts";
+
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+function slideXml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<p:sld xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main">
+  <p:cSld><p:spTree>${body}</p:spTree></p:cSld>
+</p:sld>`;
+}
+
+function textShape(...paragraphs: string[]): string {
+  const ps = paragraphs.map((p) => `<a:p><a:pPr lvl="0"/><a:r><a:rPr lang="fr-FR"/><a:t>${p}</a:t></a:r></a:p>`).join("");
+  return `<p:sp><p:txBody><a:bodyPr/>${ps}</p:txBody></p:sp>`;
+}
+
+function buildPptx(): Uint8Array {
+  // Slide files are deliberately numbered in reverse of the presentation order
+  const files: Record<string, Uint8Array> = {
+    "ppt/presentation.xml": strToU8(`<p:presentation xmlns:r="${REL_NS}"><p:sldIdLst>
+      <p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId3"/><p:sldId id="258" r:id="rId4"/>
+    </p:sldIdLst></p:presentation>`),
+    "ppt/_rels/presentation.xml.rels": strToU8(`<Relationships>
+      <Relationship Id="rId1" Type="${REL_NS}/slideMaster" Target="slideMasters/slideMaster1.xml"/>
+      <Relationship Id="rId2" Type="${REL_NS}/slide" Target="slides/slide3.xml"/>
+      <Relationship Id="rId3" Type="${REL_NS}/slide" Target="slides/slide2.xml"/>
+      <Relationship Id="rId4" Type="${REL_NS}/slide" Target="slides/slide1.xml"/>
+    </Relationships>`),
+    "ppt/slides/slide3.xml": strToU8(slideXml(textShape("Politique de remboursement", "Délai &lt; 30 jours &amp; justificatif requis"))),
+    "ppt/slides/_rels/slide3.xml.rels": strToU8(`<Relationships>
+      <Relationship Id="rId1" Type="${REL_NS}/notesSlide" Target="../notesSlides/notesSlide1.xml"/>
+    </Relationships>`),
+    "ppt/notesSlides/notesSlide1.xml": strToU8(`<p:notes xmlns:a="a" xmlns:p="p"><p:cSld><p:spTree>
+      <p:sp><p:nvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr></p:sp>
+      <p:sp><p:nvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>Au-delà de 1000€, validation du manager.</a:t></a:r></a:p></p:txBody></p:sp>
+      <p:sp><p:nvSpPr><p:nvPr><p:ph type="sldNum" idx="5"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>1</a:t></a:r></a:p></p:txBody></p:sp>
+    </p:spTree></p:cSld></p:notes>`),
+    "ppt/slides/slide2.xml": strToU8(slideXml(`<p:graphicFrame><a:graphic><a:graphicData><a:tbl>
+      <a:tblGrid><a:gridCol w="1"/><a:gridCol w="1"/></a:tblGrid>
+      <a:tr h="1"><a:tc><a:txBody><a:p><a:r><a:t>Montant</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>Validation</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+      <a:tr h="1"><a:tc><a:txBody><a:p><a:r><a:t>&gt; 1000€</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>Manager</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+    </a:tbl></a:graphicData></a:graphic></p:graphicFrame>` + textShape("Seuils"))),
+    "ppt/slides/slide1.xml": strToU8(slideXml("")),
+  };
+  return zipSync(files);
+}
+
+Deno.test("parsePPTX - should return one page per slide in presentation order", async () => {
+  const result = await parsePPTX(buildPptx(), "req_test");
+
+  assertEquals(result.pages, 3);
+  assertEquals(result.format, "pptx");
+  assertEquals(result.parseBackend, "pptx-ooxml");
+
+  const slides = result.text.split(PAGE_SEPARATOR);
+  assertEquals(slides.length, 3);
+  assert(slides[0].startsWith("[Slide 1]\nPolitique de remboursement"));
+  assert(slides[1].startsWith("[Slide 2]\nSeuils"));
+  assertEquals(slides[2], "[Slide 3]");
+});
+
+Deno.test("parsePPTX - should decode XML entities in slide text", async () => {
+  const result = await parsePPTX(buildPptx());
+  assert(result.text.includes("Délai < 30 jours & justificatif requis"));
+});
+
+Deno.test("parsePPTX - should include speaker notes but not placeholders", async () => {
+  const slides = (await parsePPTX(buildPptx())).text.split(PAGE_SEPARATOR);
+
+  assert(slides[0].includes("=== SPEAKER NOTES ===\nAu-delà de 1000€, validation du manager."));
+  assert(!slides[0].endsWith("\n1"));
+  assert(!slides[1].includes("SPEAKER NOTES"));
+});
+
+Deno.test("parsePPTX - should render tables as markdown rows", async () => {
+  const slides = (await parsePPTX(buildPptx())).text.split(PAGE_SEPARATOR);
+
+  assert(slides[1].includes("=== EXTRACTED TABLES ===\n| Montant | Validation |\n| > 1000€ | Manager |"));
+  // Table cells must not be duplicated in the slide body
+  assertEquals(slides[1].split("Montant").length, 2);
+});
+
+Deno.test("parsePPTX - should reject invalid archives", async () => {
+  await assertRejects(() => parsePPTX(new Uint8Array([1, 2, 3, 4])));
+});
+
+Deno.test("detectDocumentFormat - should detect by extension then MIME type", () => {
+  assertEquals(detectDocumentFormat("Deck.PPTX", ""), "pptx");
+  assertEquals(detectDocumentFormat("contrat.pdf", "application/octet-stream"), "pdf");
+  assertEquals(
+    detectDocumentFormat("upload", "application/vnd.openxmlformats-officedocument.presentationml.presentation"),
+    "pptx"
+  );
+  assertEquals(detectDocumentFormat("notes.txt", "text/plain"), null);
+});
@@ -0,0 +1,224 @@
+/**
+ * PPTX parsing: reads the OOXML package directly (no external service)
+ *
+ * Output format (one page per slide, joined with PAGE_SEPARATOR):
+ *   [Slide N]
+ *   slide text (titles, bullets, text boxes)
+ *
+ *   === EXTRACTED TABLES ===
+ *   | cell | cell |
+ *
+ *   === SPEAKER NOTES ===
+ *   notes text
+ *
+ * Slides are ordered as in the presentation (ppt/presentation.xml), not by
+ * file name, and empty slides are kept so that page N is always slide N.
+ */
+
+import { unzipSync, strFromU8 } from "npm:fflate@0.8.2";
+import { logger } from "../../_shared/logger.ts";
+import { decodeXmlEntities } from "./xml.ts";
+import { PAGE_SEPARATOR, type ParsedDocument } from "./types.ts";
+
+const SLIDE_REL_TYPE = "/relationships/slide";
+const NOTES_REL_TYPE = "/relationships/notesSlide";
+
+/**
+ * Parse PPTX buffer into per-slide text (slides, tables, speaker notes)
+ */
+export async function parsePPTX(
+  buffer: Uint8Array,
+  requestId?: string
+): Promise<ParsedDocument> {
+  const startTime = Date.now();
+
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(buffer);
+  } catch (error) {
+    logger.error({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }, "PPTX archive could not be opened");
+    throw new Error("Failed to parse PPTX: invalid or corrupted file");
+  }
+
+  const slidePaths = resolveSlidePaths(files);
+  if (slidePaths.length === 0) {
+    throw new Error("Failed to parse PPTX: no slides found");
+  }
+
+  const slides = slidePaths.map((slidePath, index) => {
+    const slideXml = readXml(files, slidePath);
+    const notesPath = resolveNotesPath(files, slidePath);
+    const notes = notesPath ? extractNotesText(readXml(files, notesPath)) : "";
+    return formatSlide(index + 1, extractSlideText(slideXml), extractTables(slideXml), notes);
+  });
+
+  const text = slides.join(PAGE_SEPARATOR);
+  const parseDuration = Date.now() - startTime;
+
+  logger.info({
+    requestId,
+    parse_backend: "pptx-ooxml",
+    parse_duration_ms: parseDuration,
+    pages: slides.length,
+    textLength: text.length,
+  }, "PPTX parsed");
+
+  return {
+    text,
+    pages: slides.length,
+    format: "pptx",
+    parseBackend: "pptx-ooxml",
+    parseDurationMs: parseDuration,
+  };
+}
+
+function formatSlide(slideNumber: number, body: string, tables: string[], notes: string): string {
+  let text = `[Slide ${slideNumber}]\n${body}`;
+
+  if (tables.length > 0) {
+    text += `\n\n=== EXTRACTED TABLES ===\n${tables.join("\n")}`;
+  }
+
+  if (notes) {
+    text += `\n\n=== SPEAKER NOTES ===\n${notes}`;
+  }
+
+  return text.trim();
+}
+
+function readXml(files: Record<string, Uint8Array>, path: string): string {
+  const data = files[path];
+  return data ? strFromU8(data) : "";
+}
+
+/**
+ * Slide paths in presentation order (sldIdLst), falling back to numeric file order
+ */
+function resolveSlidePaths(files: Record<string, Uint8Array>): string[] {
+  const presentationXml = readXml(files, "ppt/presentation.xml");
+  const rels = parseRelationships(readXml(files, "ppt/_rels/presentation.xml.rels"));
+
+  const ordered: string[] = [];
+  for (const match of presentationXml.matchAll(/<p:sldId\b[^>]*>/g)) {
+    const relId = parseAttributes(match[0])["r:id"];
+    const rel = relId ? rels.get(relId) : undefined;
+    if (rel && rel.type.endsWith(SLIDE_REL_TYPE)) {
+      const path = resolvePath("ppt/presentation.xml", rel.target);
+      if (files[path]) ordered.push(path);
+    }
+  }
+
+  if (ordered.length > 0) return ordered;
+
+  return Object.keys(files)
+    .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideNumberOf(a) - slideNumberOf(b));
+}
+
+function slideNumberOf(path: string): number {
+  return parseInt(path.match(/slide(\d+)\.xml$/)?.[1] || "0", 10);
+}
+
+function resolveNotesPath(files: Record<string, Uint8Array>, slidePath: string): string | null {
+  const fileName = slidePath.split("/").pop();
+  const relsPath = slidePath.replace(/[^/]+$/, `_rels/${fileName}.rels`);
+  const rels = parseRelationships(readXml(files, relsPath));
+
+  for (const rel of rels.values()) {
+    if (rel.type.endsWith(NOTES_REL_TYPE)) {
+      const path = resolvePath(slidePath, rel.target);
+      return files[path] ? path : null;
+    }
+  }
+  return null;
+}
+
+function parseRelationships(xml: string): Map<string, { type: string; target: string }> {
+  const rels = new Map<string, { type: string; target: string }>();
+  for (const match of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const attrs = parseAttributes(match[0]);
+    if (attrs.Id && attrs.Target) {
+      rels.set(attrs.Id, { type: attrs.Type || "", target: attrs.Target });
+    }
+  }
+  return rels;
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attrs[match[1]] = match[2];
+  }
+  return attrs;
+}
+
+/**
+ * Resolve a relationship target relative to the part that references it
+ */
+function resolvePath(fromPart: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+
+  const segments = fromPart.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") segments.pop();
+    else if (segment !== ".") segments.push(segment);
+  }
+  return segments.join("/");
+}
+
+/**
+ * Text of all shapes on the slide, tables excluded (see extractTables)
+ */
+function extractSlideText(slideXml: string): string {
+  return extractParagraphs(slideXml.replace(/<a:tbl>[\s\S]*?<\/a:tbl>/g, "")).join("\n");
+}
+
+/**
+ * Tables rendered as markdown rows (same format as the PyMuPDF service)
+ */
+function extractTables(slideXml: string): string[] {
+  const tables: string[] = [];
+
+  for (const table of slideXml.matchAll(/<a:tbl>([\s\S]*?)<\/a:tbl>/g)) {
+    const rows: string[] = [];
+    for (const row of table[1].matchAll(/<a:tr\b[^>]*>([\s\S]*?)<\/a:tr>/g)) {
+      const cells = [...row[1].matchAll(/<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>/g)]
+        .map((cell) => extractParagraphs(cell[1]).join(" "));
+      if (cells.some((cell) => cell.length > 0)) {
+        rows.push(`| ${cells.join(" | ")} |`);
+      }
+    }
+    if (rows.length > 0) tables.push(rows.join("\n"));
+  }
+
+  return tables;
+}
+
+/**
+ * Speaker notes live in the "body" placeholder of the notes slide; the other
+ * placeholders only hold the slide thumbnail and the slide number.
+ */
+function extractNotesText(notesXml: string): string {
+  const paragraphs: string[] = [];
+  for (const shape of notesXml.matchAll(/<p:sp>([\s\S]*?)<\/p:sp>/g)) {
+    if (/<p:ph\b[^>]*type="body"/.test(shape[1])) {
+      paragraphs.push(...extractParagraphs(shape[1]));
+    }
+  }
+  return paragraphs.join("\n");
+}
+
+function extractParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  for (const paragraph of xml.matchAll(/<a:p(?:\s[^>]*)?>([\s\S]*?)<\/a:p>/g)) {
+    const runs = paragraph[1]
+      .replace(/<a:br\b[^>]*\/>/g, "<a:t>\n</a:t>")
+      .matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>/g);
+    const text = decodeXmlEntities([...runs].map((run) => run[1]).join("")).trim();
+    if (text) paragraphs.push(text);
+  }
+  return paragraphs;
+}
@@ -0,0 +1,33 @@
+/**
+ * Shared types for document parsers (PDF, PPTX, DOCX)
+ */
+
+export type DocumentFormat = "pdf" | "pptx" | "docx";
+
+export type ParseBackend = "pymupdf" | "pdf-parse" | "pptx-ooxml" | "docx-ooxml";
+
+/**
+ * Heading found in the source document (DOCX outline)
+ * offset: character offset of the heading in ParsedDocument.text
+ * path: heading hierarchy, e.g. "3 Congés > 3.2 Congés payés"
+ */
+export interface DocumentSection {
+  offset: number;
+  level: number;
+  title: string;
+  path: string;
+}
+
+export interface ParsedDocument {
+  text: string;
+  pages: number;
+  format: DocumentFormat;
+  parseBackend: ParseBackend;
+  parseDurationMs: number;
+  sections?: DocumentSection[];
+}
+
+/**
+ * Separator inserted between pages (or slides) in ParsedDocument.text
+ */
+export const PAGE_SEPARATOR = "\n\n===PAGE_SEPARATOR===\n\n";
@@ -0,0 +1,38 @@
+-- Anchor every extracted rule to the exact span of the parsed text it was quoted from
+
+-- Parsed text of the document (pages joined with ===PAGE_SEPARATOR===)
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS parsed_text TEXT;
+
+-- Span of the rule quote in documents.parsed_text (NULL when the quote could not be located)
+ALTER TABLE public.rules
+ADD COLUMN IF NOT EXISTS source_start INT,
+ADD COLUMN IF NOT EXISTS source_end INT,
+ADD COLUMN IF NOT EXISTS source_quote TEXT;
+
+COMMENT ON COLUMN public.rules.source_start IS
+'Start offset (inclusive) of the matched quote in documents.parsed_text.';
+COMMENT ON COLUMN public.rules.source_end IS
+'End offset (exclusive) of the matched quote in documents.parsed_text.';
+COMMENT ON COLUMN public.rules.source_quote IS
+'Text of documents.parsed_text between source_start and source_end, as found by fuzzy matching the rule text.';
+
+-- Quote of a rule with the surrounding text, for display in the rule details
+-- SECURITY INVOKER: RLS on rules/documents still applies
+CREATE OR REPLACE FUNCTION public.get_rule_context(p_rule_id UUID, p_context_chars INT DEFAULT 300)
+RETURNS TABLE (before TEXT, quote TEXT, after TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    substring(d.parsed_text FROM greatest(r.source_start - p_context_chars, 0) + 1
+      FOR r.source_start - greatest(r.source_start - p_context_chars, 0)),
+    substring(d.parsed_text FROM r.source_start + 1 FOR r.source_end - r.source_start),
+    substring(d.parsed_text FROM r.source_end + 1 FOR p_context_chars)
+  FROM public.rules r
+  JOIN public.documents d ON d.id = r.document_id
+  WHERE r.id = p_rule_id
+    AND r.source_start IS NOT NULL
+    AND d.parsed_text IS NOT NULL;
+$$;
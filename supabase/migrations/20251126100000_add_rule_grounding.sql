@@ -0,0 +1,12 @@
+-- Hallucination guard: flag rules whose text was not found in the source chunk
+
+ALTER TABLE public.rules
+ADD COLUMN IF NOT EXISTS grounding_score FLOAT,
+ADD COLUMN IF NOT EXISTS ungrounded BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.rules.grounding_score IS
+'Share (0-1) of the rule text matched in the chunk text it was extracted from.';
+COMMENT ON COLUMN public.rules.ungrounded IS
+'True when grounding_score is below the GROUNDING_MIN_SCORE threshold (likely invented by the LLM). Confidence was reduced at extraction time.';
+
+CREATE INDEX IF NOT EXISTS idx_rules_ungrounded ON public.rules(ungrounded) WHERE ungrounded;
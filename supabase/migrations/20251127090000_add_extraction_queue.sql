@@ -0,0 +1,147 @@
+-- Durable extraction queue: chunks and batches are persisted so the
+-- process-extraction worker can resume a job after the runtime is recycled
+
+-- Document outline (DOCX headings) used to assign sections when the job completes
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS sections JSONB;
+
+-- Job progress in batches
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS request_id TEXT,
+ADD COLUMN IF NOT EXISTS total_chunks INT,
+ADD COLUMN IF NOT EXISTS total_batches INT,
+ADD COLUMN IF NOT EXISTS completed_batches INT NOT NULL DEFAULT 0;
+
+-- Rules are written by a job; finalizing a job again replaces its rules
+ALTER TABLE public.rules
+ADD COLUMN IF NOT EXISTS job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rules_job ON public.rules(job_id);
+
+-- Chunks of the parsed text, as sent to the LLM
+CREATE TABLE IF NOT EXISTS public.document_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  chunk_index INT NOT NULL,
+  text TEXT NOT NULL,
+  start_offset INT NOT NULL,
+  end_offset INT NOT NULL,
+  page_start INT NOT NULL,
+  page_end INT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (job_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document ON public.document_chunks(document_id);
+
+-- One row per batch of chunks (one LLM call), with its checkpointed result
+CREATE TABLE IF NOT EXISTS public.extraction_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  batch_index INT NOT NULL,
+  chunk_start INT NOT NULL,
+  chunk_end INT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'done', 'error')),
+  attempts INT NOT NULL DEFAULT 0,
+  claimed_at TIMESTAMPTZ,
+  rules JSONB,
+  stats JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (job_id, batch_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_batches_claim ON public.extraction_batches(status, claimed_at);
+CREATE INDEX IF NOT EXISTS idx_extraction_batches_job ON public.extraction_batches(job_id, status);
+
+-- Keep updated_at current (used to detect jobs stuck while finalizing)
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_jobs_updated_at ON public.jobs;
+CREATE TRIGGER set_jobs_updated_at
+  BEFORE UPDATE ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS set_extraction_batches_updated_at ON public.extraction_batches;
+CREATE TRIGGER set_extraction_batches_updated_at
+  BEFORE UPDATE ON public.extraction_batches
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- RLS: users can read the queue of their own documents, writes go through the service role
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.extraction_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view chunks of their documents"
+ON public.document_chunks
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.id = document_chunks.document_id AND d.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view batches of their documents"
+ON public.extraction_batches
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.id = extraction_batches.document_id AND d.user_id = auth.uid()
+  )
+);
+
+-- Claim batches for a worker. Running batches not checkpointed within
+-- p_stale_seconds were lost with their runtime and are claimed again, until
+-- p_max_attempts is reached (then marked error so the job can complete).
+CREATE OR REPLACE FUNCTION public.claim_extraction_batches(
+  p_job_id UUID,
+  p_limit INT,
+  p_stale_seconds INT,
+  p_max_attempts INT
+)
+RETURNS SETOF public.extraction_batches
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.extraction_batches
+  SET status = 'error', error = coalesce(error, 'Max attempts reached')
+  WHERE status = 'running'
+    AND attempts >= p_max_attempts
+    AND claimed_at < now() - make_interval(secs => p_stale_seconds)
+    AND (p_job_id IS NULL OR job_id = p_job_id);
+
+  RETURN QUERY
+  UPDATE public.extraction_batches b
+  SET status = 'running', attempts = b.attempts + 1, claimed_at = now()
+  WHERE b.id IN (
+    SELECT id FROM public.extraction_batches
+    WHERE (p_job_id IS NULL OR job_id = p_job_id)
+      AND attempts < p_max_attempts
+      AND (
+        status = 'pending'
+        OR (status = 'running' AND claimed_at < now() - make_interval(secs => p_stale_seconds))
+      )
+    ORDER BY created_at, batch_index
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING b.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_extraction_batches(UUID, INT, INT, INT) FROM PUBLIC, anon, authenticated;
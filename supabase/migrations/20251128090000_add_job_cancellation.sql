@@ -0,0 +1,64 @@
+-- Job cancellation: a cancelled job stops claiming batches and keeps the cost
+-- of the batches already extracted
+
+ALTER TABLE public.documents
+DROP CONSTRAINT IF EXISTS documents_status_check;
+
+ALTER TABLE public.documents
+ADD CONSTRAINT documents_status_check
+CHECK (status IN ('queued', 'processing', 'done', 'error', 'cancelled'));
+
+ALTER TABLE public.extraction_batches
+DROP CONSTRAINT IF EXISTS extraction_batches_status_check;
+
+ALTER TABLE public.extraction_batches
+ADD CONSTRAINT extraction_batches_status_check
+CHECK (status IN ('pending', 'running', 'done', 'error', 'cancelled'));
+
+-- LLM cost of the job (sum of its checkpointed batches), partial for cancelled jobs
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(10, 6),
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+-- Only batches of running jobs are claimed (in-flight batches of a cancelled
+-- job are not picked up again when they go stale)
+CREATE OR REPLACE FUNCTION public.claim_extraction_batches(
+  p_job_id UUID,
+  p_limit INT,
+  p_stale_seconds INT,
+  p_max_attempts INT
+)
+RETURNS SETOF public.extraction_batches
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.extraction_batches
+  SET status = 'error', error = coalesce(error, 'Max attempts reached')
+  WHERE status = 'running'
+    AND attempts >= p_max_attempts
+    AND claimed_at < now() - make_interval(secs => p_stale_seconds)
+    AND (p_job_id IS NULL OR job_id = p_job_id);
+
+  RETURN QUERY
+  UPDATE public.extraction_batches b
+  SET status = 'running', attempts = b.attempts + 1, claimed_at = now()
+  WHERE b.id IN (
+    SELECT eb.id FROM public.extraction_batches eb
+    JOIN public.jobs j ON j.id = eb.job_id
+    WHERE (p_job_id IS NULL OR eb.job_id = p_job_id)
+      AND j.status = 'running'
+      AND eb.attempts < p_max_attempts
+      AND (
+        eb.status = 'pending'
+        OR (eb.status = 'running' AND eb.claimed_at < now() - make_interval(secs => p_stale_seconds))
+      )
+    ORDER BY eb.created_at, eb.batch_index
+    LIMIT p_limit
+    FOR UPDATE OF eb SKIP LOCKED
+  )
+  RETURNING b.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_extraction_batches(UUID, INT, INT, INT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,47 @@
+-- Extraction runs: every extraction job is a run with its settings. The
+-- upload run writes the document rules; a re-extraction keeps its rules in
+-- extraction_run_rules so the current rules (and their tests) are untouched.
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS settings JSONB,
+ADD COLUMN IF NOT EXISTS rules_count INT,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.jobs.settings IS
+'Extraction settings of the run: model, chunkSize, chunkOverlap, promptTemplate, confidenceThreshold.';
+
+CREATE TABLE IF NOT EXISTS public.extraction_run_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  text TEXT NOT NULL,
+  conditions JSONB,
+  domain TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  confidence FLOAT,
+  source_page INT,
+  source_sect TEXT,
+  source_start INT,
+  source_end INT,
+  source_quote TEXT,
+  grounding_score FLOAT,
+  ungrounded BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_run_rules_job ON public.extraction_run_rules(job_id);
+CREATE INDEX IF NOT EXISTS idx_extraction_run_rules_document ON public.extraction_run_rules(document_id);
+
+-- RLS: users can read the runs of their own documents, writes go through the service role
+ALTER TABLE public.extraction_run_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view run rules of their documents"
+ON public.extraction_run_rules
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.id = extraction_run_rules.document_id AND d.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,6 @@
+-- Metrics of the extraction_completed event, stored on the run to compare runs
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS metrics JSONB;
+
+COMMENT ON COLUMN public.jobs.metrics IS
+'extraction_completed metrics of the run: durationMs, rulesExtracted, uniqueRules, rulesLocated, rulesUngrounded, costUsd, inputTokens, outputTokens, cacheHit, batches, model.';
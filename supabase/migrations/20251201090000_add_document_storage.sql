@@ -0,0 +1,34 @@
+-- Original documents: private Storage bucket, one folder per user
+-- (<userId>/<uuid>-<fileName>). documents.path holds the object key;
+-- downloads go through short-lived signed URLs (download-document).
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their documents"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'documents' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can read their documents"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'documents' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their documents"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'documents' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+COMMENT ON COLUMN public.documents.path IS
+'Object key of the original file in the documents bucket. Documents uploaded before the originals were stored keep a placeholder /uploads/... path.';
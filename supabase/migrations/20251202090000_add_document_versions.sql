@@ -0,0 +1,52 @@
+-- Document versions: a new upload of a revised policy points to the version
+-- it replaces. Versions form a chain (v1 <- v2 <- v3); only the latest
+-- version can be revised, so each document has at most one child.
+
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS parent_document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS version INT NOT NULL DEFAULT 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_parent_document
+ON public.documents(parent_document_id)
+WHERE parent_document_id IS NOT NULL;
+
+COMMENT ON COLUMN public.documents.parent_document_id IS
+'Previous version of this document (NULL for a first version).';
+
+COMMENT ON COLUMN public.documents.version IS
+'Version number in the chain of versions, 1 for a first upload.';
+
+-- All versions of the chain containing p_document_id, oldest first.
+-- SECURITY INVOKER: RLS on documents limits the result to the caller's documents.
+CREATE OR REPLACE FUNCTION public.get_document_versions(p_document_id UUID)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  version INT,
+  status TEXT,
+  parent_document_id UUID,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT d.id, d.parent_document_id FROM documents d WHERE d.id = p_document_id
+    UNION ALL
+    SELECT p.id, p.parent_document_id FROM documents p JOIN ancestors a ON p.id = a.parent_document_id
+  ),
+  root AS (
+    SELECT a.id FROM ancestors a WHERE a.parent_document_id IS NULL
+  ),
+  chain AS (
+    SELECT d.id FROM documents d JOIN root r ON d.id = r.id
+    UNION ALL
+    SELECT c.id FROM documents c JOIN chain ch ON c.parent_document_id = ch.id
+  )
+  SELECT d.id, d.name, d.version, d.status, d.parent_document_id, d.created_at
+  FROM documents d
+  JOIN chain ch ON ch.id = d.id
+  ORDER BY d.version;
+$$;
@@ -0,0 +1,64 @@
+-- Stale test cases: every change of a rule's text, conditions or domain
+-- bumps rules.revision; test cases remember the revision they were generated
+-- for and are flagged stale when the rule moves on (edit, or a new version of
+-- the document that changes or drops the rule).
+
+ALTER TABLE public.rules
+ADD COLUMN IF NOT EXISTS revision INT NOT NULL DEFAULT 1;
+
+ALTER TABLE public.test_cases
+ADD COLUMN IF NOT EXISTS rule_revision INT NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS stale BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS stale_reason TEXT
+  CHECK (stale_reason IN ('rule_updated', 'new_version', 'rule_removed'));
+
+CREATE INDEX IF NOT EXISTS idx_test_cases_stale ON public.test_cases(rule_id) WHERE stale;
+
+COMMENT ON COLUMN public.test_cases.rule_revision IS
+'Revision of the rule the test case was generated for.';
+
+COMMENT ON COLUMN public.test_cases.stale_reason IS
+'rule_updated: the rule was edited; new_version: the rule changed in a new version of the document; rule_removed: the new version no longer contains the rule.';
+
+CREATE OR REPLACE FUNCTION public.bump_rule_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.text IS DISTINCT FROM OLD.text
+    OR NEW.conditions IS DISTINCT FROM OLD.conditions
+    OR NEW.domain IS DISTINCT FROM OLD.domain THEN
+    NEW.revision = OLD.revision + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_rules_revision ON public.rules;
+CREATE TRIGGER bump_rules_revision
+  BEFORE UPDATE ON public.rules
+  FOR EACH ROW EXECUTE FUNCTION public.bump_rule_revision();
+
+-- SECURITY DEFINER: users edit their rules but have no write policy on test_cases.
+-- Not an UPDATE OF revision trigger: columns set by BEFORE triggers don't fire those.
+CREATE OR REPLACE FUNCTION public.mark_rule_tests_stale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE test_cases
+  SET stale = true, stale_reason = 'rule_updated'
+  WHERE rule_id = NEW.id
+    AND rule_revision < NEW.revision
+    AND NOT stale;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS mark_rules_tests_stale ON public.rules;
+CREATE TRIGGER mark_rules_tests_stale
+  AFTER UPDATE ON public.rules
+  FOR EACH ROW
+  WHEN (NEW.revision > OLD.revision)
+  EXECUTE FUNCTION public.mark_rule_tests_stale();
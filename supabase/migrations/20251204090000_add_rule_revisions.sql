@@ -0,0 +1,165 @@
+-- Audit trail of rule modifications: every insert (raw extraction) and every
+-- change of text, conditions, domain or tags is recorded with its author,
+-- reason and before/after snapshots. Edits and reverts go through the
+-- update_rule / revert_rule functions, which pass the reason to the trigger.
+
+CREATE TABLE IF NOT EXISTS public.rule_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID NOT NULL REFERENCES public.rules(id) ON DELETE CASCADE,
+  revision INT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('extracted', 'baseline', 'update', 'revert')),
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  reason TEXT,
+  before JSONB,
+  after JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_revisions_rule ON public.rule_revisions(rule_id, changed_at DESC);
+
+COMMENT ON COLUMN public.rule_revisions.action IS
+'extracted: rule as produced by the extraction; baseline: state when the audit trail was introduced; update: manual edit; revert: restore of an earlier state.';
+
+ALTER TABLE public.rule_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of their rules"
+ON public.rule_revisions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rules
+    JOIN public.documents ON documents.id = rules.document_id
+    WHERE rules.id = rule_revisions.rule_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+-- Audited fields of a rule
+CREATE OR REPLACE FUNCTION public.rule_snapshot(r public.rules)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'text', r.text,
+    'conditions', r.conditions,
+    'domain', r.domain,
+    'tags', to_jsonb(r.tags)
+  );
+$$;
+
+-- Existing rules: their original extraction is unknown, record the current state
+INSERT INTO public.rule_revisions (rule_id, revision, action, after, changed_at)
+SELECT r.id, r.revision, 'baseline', public.rule_snapshot(r), r.created_at
+FROM public.rules r
+WHERE NOT EXISTS (SELECT 1 FROM public.rule_revisions rr WHERE rr.rule_id = r.id);
+
+CREATE OR REPLACE FUNCTION public.record_rule_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_before JSONB;
+  v_after JSONB := rule_snapshot(NEW);
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_before := rule_snapshot(OLD);
+    IF v_before = v_after THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO rule_revisions (rule_id, revision, action, changed_by, reason, before, after)
+  VALUES (
+    NEW.id,
+    NEW.revision,
+    CASE WHEN TG_OP = 'INSERT' THEN 'extracted'
+         ELSE coalesce(nullif(current_setting('app.rule_change_action', true), ''), 'update') END,
+    auth.uid(),
+    nullif(current_setting('app.rule_change_reason', true), ''),
+    v_before,
+    v_after
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_rules_revision ON public.rules;
+CREATE TRIGGER record_rules_revision
+  AFTER INSERT OR UPDATE ON public.rules
+  FOR EACH ROW EXECUTE FUNCTION public.record_rule_revision();
+
+-- Whether the current user owns the document of the rule
+CREATE OR REPLACE FUNCTION public.owns_rule(p_rule_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM rules
+    JOIN documents ON documents.id = rules.document_id
+    WHERE rules.id = p_rule_id AND documents.user_id = auth.uid()
+  );
+$$;
+
+-- Edit a rule with the reason of the change. p_changes may contain text,
+-- conditions, domain and tags; other keys are ignored.
+CREATE OR REPLACE FUNCTION public.update_rule(p_rule_id UUID, p_changes JSONB, p_reason TEXT DEFAULT NULL)
+RETURNS SETOF public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT owns_rule(p_rule_id) THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.rule_change_action', 'update', true);
+  PERFORM set_config('app.rule_change_reason', coalesce(p_reason, ''), true);
+
+  RETURN QUERY
+  UPDATE rules SET
+    text = CASE WHEN p_changes ? 'text' THEN p_changes->>'text' ELSE text END,
+    conditions = CASE WHEN p_changes ? 'conditions' THEN p_changes->'conditions' ELSE conditions END,
+    domain = CASE WHEN p_changes ? 'domain' THEN p_changes->>'domain' ELSE domain END,
+    tags = CASE WHEN p_changes ? 'tags'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_changes->'tags'))
+      ELSE tags END
+  WHERE id = p_rule_id
+  RETURNING *;
+END;
+$$;
+
+-- Restore the rule as it was right after the given revision
+CREATE OR REPLACE FUNCTION public.revert_rule(p_revision_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS SETOF public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_revision rule_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_revision FROM rule_revisions WHERE id = p_revision_id;
+  IF NOT FOUND OR NOT owns_rule(v_revision.rule_id) THEN
+    RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.rule_change_action', 'revert', true);
+  PERFORM set_config('app.rule_change_reason', coalesce(p_reason, ''), true);
+
+  RETURN QUERY
+  UPDATE rules SET
+    text = v_revision.after->>'text',
+    conditions = v_revision.after->'conditions',
+    domain = v_revision.after->>'domain',
+    tags = ARRAY(SELECT jsonb_array_elements_text(coalesce(v_revision.after->'tags', '[]'::jsonb)))
+  WHERE id = v_revision.rule_id
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_rule(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revert_rule(UUID, TEXT) TO authenticated;
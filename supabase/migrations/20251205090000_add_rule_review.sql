@@ -0,0 +1,114 @@
+-- Rule review workflow: draft -> in_review -> approved | rejected.
+-- Extracted rules start as drafts; only approved rules are meant for client
+-- deliverables (export-rules / export-tests with approvedOnly=true).
+
+ALTER TABLE public.rules
+ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'draft'
+  CHECK (review_status IN ('draft', 'in_review', 'approved', 'rejected')),
+ADD COLUMN IF NOT EXISTS reviewer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+ALTER TABLE public.rules
+ADD CONSTRAINT rules_rejection_reason_check
+  CHECK (review_status <> 'rejected' OR rejection_reason IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_rules_review_status ON public.rules(document_id, review_status);
+
+COMMENT ON COLUMN public.rules.reviewer_id IS
+'User assigned to review the rule.';
+
+-- An approved rule whose content changes has to be reviewed again
+CREATE OR REPLACE FUNCTION public.reset_rule_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.revision > OLD.revision AND OLD.review_status = 'approved' AND NEW.review_status = 'approved' THEN
+    NEW.review_status = 'in_review';
+    NEW.reviewed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after bump_rules_revision (BEFORE triggers fire in name order)
+DROP TRIGGER IF EXISTS reset_rules_review ON public.rules;
+CREATE TRIGGER reset_rules_review
+  BEFORE UPDATE ON public.rules
+  FOR EACH ROW EXECUTE FUNCTION public.reset_rule_review();
+
+-- Move a rule through the review workflow
+CREATE OR REPLACE FUNCTION public.set_rule_review_status(
+  p_rule_id UUID,
+  p_status TEXT,
+  p_rejection_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT owns_rule(p_rule_id) THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_status = 'rejected' AND coalesce(trim(p_rejection_reason), '') = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  UPDATE rules SET
+    review_status = p_status,
+    rejection_reason = CASE WHEN p_status = 'rejected' THEN trim(p_rejection_reason) ELSE NULL END,
+    reviewed_at = CASE WHEN p_status IN ('approved', 'rejected') THEN now() ELSE NULL END,
+    reviewer_id = CASE WHEN p_status IN ('approved', 'rejected') THEN coalesce(reviewer_id, auth.uid()) ELSE reviewer_id END
+  WHERE id = p_rule_id
+  RETURNING *;
+END;
+$$;
+
+-- Assign a reviewer by email (NULL email: unassign)
+CREATE OR REPLACE FUNCTION public.assign_rule_reviewer(p_rule_id UUID, p_reviewer_email TEXT)
+RETURNS SETOF public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_reviewer_id UUID;
+BEGIN
+  IF NOT owns_rule(p_rule_id) THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_reviewer_email IS NOT NULL THEN
+    SELECT id INTO v_reviewer_id FROM profiles WHERE lower(email) = lower(trim(p_reviewer_email));
+    IF v_reviewer_id IS NULL THEN
+      RAISE EXCEPTION 'No user with this email' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE rules SET reviewer_id = v_reviewer_id
+  WHERE id = p_rule_id
+  RETURNING *;
+END;
+$$;
+
+-- Email of the reviewers of the caller's rules (profiles are private otherwise)
+CREATE OR REPLACE FUNCTION public.get_rule_reviewers(p_document_id UUID)
+RETURNS TABLE (id UUID, email TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT DISTINCT p.id, p.email
+  FROM rules r
+  JOIN documents d ON d.id = r.document_id
+  JOIN profiles p ON p.id = r.reviewer_id
+  WHERE r.document_id = p_document_id AND d.user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_rule_review_status(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.assign_rule_reviewer(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_rule_reviewers(UUID) TO authenticated;
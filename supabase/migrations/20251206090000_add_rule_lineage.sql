@@ -0,0 +1,263 @@
+-- Manual rule creation, merge and split.
+-- Merged and split rules replace their originals; rule_links keeps the id and
+-- a snapshot of every original so the lineage survives their deletion. Test
+-- cases of the originals are moved to the new rules and flagged stale.
+
+ALTER TABLE public.rules
+ADD COLUMN IF NOT EXISTS origin TEXT NOT NULL DEFAULT 'extracted'
+  CHECK (origin IN ('extracted', 'manual', 'merged', 'split'));
+
+COMMENT ON COLUMN public.rules.origin IS
+'extracted: produced by the LLM; manual: added by a user; merged / split: created from other rules (see rule_links).';
+
+CREATE TABLE IF NOT EXISTS public.rule_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID NOT NULL REFERENCES public.rules(id) ON DELETE CASCADE,
+  -- The original is deleted once replaced, hence no foreign key
+  source_rule_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('merge', 'split')),
+  source JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_links_rule ON public.rule_links(rule_id);
+CREATE INDEX IF NOT EXISTS idx_rule_links_source ON public.rule_links(source_rule_id);
+
+ALTER TABLE public.rule_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view links of their rules"
+ON public.rule_links
+FOR SELECT
+TO authenticated
+USING (public.owns_rule(rule_id));
+
+-- New kinds of revisions for rules created by hand, by merge or by split
+ALTER TABLE public.rule_revisions DROP CONSTRAINT IF EXISTS rule_revisions_action_check;
+ALTER TABLE public.rule_revisions ADD CONSTRAINT rule_revisions_action_check
+  CHECK (action IN ('extracted', 'baseline', 'update', 'revert', 'manual', 'merge', 'split'));
+
+CREATE OR REPLACE FUNCTION public.record_rule_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_before JSONB;
+  v_after JSONB := rule_snapshot(NEW);
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_before := rule_snapshot(OLD);
+    IF v_before = v_after THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO rule_revisions (rule_id, revision, action, changed_by, reason, before, after)
+  VALUES (
+    NEW.id,
+    NEW.revision,
+    coalesce(
+      nullif(current_setting('app.rule_change_action', true), ''),
+      CASE WHEN TG_OP = 'INSERT' THEN 'extracted' ELSE 'update' END
+    ),
+    auth.uid(),
+    nullif(current_setting('app.rule_change_reason', true), ''),
+    v_before,
+    v_after
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Snapshot of an original kept in rule_links
+CREATE OR REPLACE FUNCTION public.rule_link_source(r public.rules)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT rule_snapshot(r) || jsonb_build_object(
+    'confidence', r.confidence,
+    'source_page', r.source_page,
+    'source_sect', r.source_sect,
+    'source_quote', r.source_quote,
+    'review_status', r.review_status
+  );
+$$;
+
+-- Insert a rule of the document from a JSON draft: text (required),
+-- conditions, domain, tags, source_page and source_sect. Missing fields are
+-- taken from p_defaults (the original rule when merging or splitting).
+CREATE OR REPLACE FUNCTION public.insert_rule_draft(
+  p_document_id UUID,
+  p_draft JSONB,
+  p_origin TEXT,
+  p_defaults public.rules DEFAULT NULL
+)
+RETURNS public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_rule rules%ROWTYPE;
+BEGIN
+  IF coalesce(trim(p_draft->>'text'), '') = '' THEN
+    RAISE EXCEPTION 'Rule text is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO rules (
+    document_id, document_name, text, conditions, domain, tags, confidence,
+    source_page, source_sect, source_quote, source_start, source_end, origin
+  )
+  SELECT
+    d.id,
+    d.name,
+    trim(p_draft->>'text'),
+    CASE WHEN p_draft ? 'conditions' THEN p_draft->'conditions' ELSE coalesce(p_defaults.conditions, '[]'::jsonb) END,
+    CASE WHEN p_draft ? 'domain' THEN p_draft->>'domain' ELSE p_defaults.domain END,
+    CASE WHEN p_draft ? 'tags'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_draft->'tags'))
+      ELSE coalesce(p_defaults.tags, '{}') END,
+    -- A rule written by hand is as reliable as it gets
+    CASE WHEN p_origin = 'manual' THEN 1 ELSE p_defaults.confidence END,
+    CASE WHEN p_draft ? 'source_page' THEN (p_draft->>'source_page')::int ELSE p_defaults.source_page END,
+    CASE WHEN p_draft ? 'source_sect' THEN p_draft->>'source_sect' ELSE p_defaults.source_sect END,
+    p_defaults.source_quote,
+    p_defaults.source_start,
+    p_defaults.source_end,
+    p_origin
+  FROM documents d
+  WHERE d.id = p_document_id
+  RETURNING * INTO v_rule;
+
+  RETURN v_rule;
+END;
+$$;
+
+-- Add a rule the extraction missed
+CREATE OR REPLACE FUNCTION public.create_rule(p_document_id UUID, p_rule JSONB, p_reason TEXT DEFAULT NULL)
+RETURNS SETOF public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM documents WHERE id = p_document_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Document not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.rule_change_action', 'manual', true);
+  PERFORM set_config('app.rule_change_reason', coalesce(p_reason, ''), true);
+
+  RETURN NEXT insert_rule_draft(p_document_id, p_rule, 'manual');
+END;
+$$;
+
+-- Replace several rules of a document by a single one
+CREATE OR REPLACE FUNCTION public.merge_rules(p_rule_ids UUID[], p_rule JSONB, p_reason TEXT DEFAULT NULL)
+RETURNS SETOF public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_first rules%ROWTYPE;
+  v_merged rules%ROWTYPE;
+BEGIN
+  IF coalesce(array_length(p_rule_ids, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'At least two rules are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(p_rule_ids) AS ids(id) WHERE NOT owns_rule(ids.id)) THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF (SELECT count(DISTINCT document_id) FROM rules WHERE id = ANY(p_rule_ids)) > 1 THEN
+    RAISE EXCEPTION 'Rules must belong to the same document' USING ERRCODE = '22023';
+  END IF;
+
+  -- The most reliable original provides the defaults (page, quote, confidence)
+  SELECT * INTO v_first FROM rules WHERE id = ANY(p_rule_ids)
+  ORDER BY confidence DESC NULLS LAST, created_at
+  LIMIT 1;
+
+  PERFORM set_config('app.rule_change_action', 'merge', true);
+  PERFORM set_config('app.rule_change_reason', coalesce(p_reason, ''), true);
+
+  v_merged := insert_rule_draft(v_first.document_id, p_rule, 'merged', v_first);
+
+  INSERT INTO rule_links (rule_id, source_rule_id, kind, source, created_by)
+  SELECT v_merged.id, r.id, 'merge', rule_link_source(r), auth.uid()
+  FROM rules r WHERE r.id = ANY(p_rule_ids);
+
+  UPDATE test_cases SET
+    rule_id = v_merged.id,
+    rule_revision = v_merged.revision,
+    stale = true,
+    stale_reason = 'rule_updated'
+  WHERE rule_id = ANY(p_rule_ids);
+
+  DELETE FROM rules WHERE id = ANY(p_rule_ids);
+
+  RETURN NEXT v_merged;
+END;
+$$;
+
+-- Replace a compound rule by several rules. p_parts is an array of drafts;
+-- the test cases of the original are moved to the first part and copied to
+-- the others, all stale so they get regenerated for their part.
+CREATE OR REPLACE FUNCTION public.split_rule(p_rule_id UUID, p_parts JSONB, p_reason TEXT DEFAULT NULL)
+RETURNS SETOF public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_original rules%ROWTYPE;
+  v_part rules%ROWTYPE;
+  v_draft JSONB;
+  v_first rules%ROWTYPE;
+BEGIN
+  IF NOT owns_rule(p_rule_id) THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF jsonb_typeof(p_parts) <> 'array' OR jsonb_array_length(p_parts) < 2 THEN
+    RAISE EXCEPTION 'At least two parts are required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_original FROM rules WHERE id = p_rule_id;
+
+  PERFORM set_config('app.rule_change_action', 'split', true);
+  PERFORM set_config('app.rule_change_reason', coalesce(p_reason, ''), true);
+
+  FOR v_draft IN SELECT value FROM jsonb_array_elements(p_parts)
+  LOOP
+    v_part := insert_rule_draft(v_original.document_id, v_draft, 'split', v_original);
+
+    INSERT INTO rule_links (rule_id, source_rule_id, kind, source, created_by)
+    VALUES (v_part.id, v_original.id, 'split', rule_link_source(v_original), auth.uid());
+
+    IF v_first.id IS NULL THEN
+      v_first := v_part;
+    ELSE
+      INSERT INTO test_cases (rule_id, inputs, expected, notes, feedback, rule_revision, stale, stale_reason)
+      SELECT v_part.id, inputs, expected, notes, feedback, v_part.revision, true, 'rule_updated'
+      FROM test_cases WHERE rule_id = p_rule_id;
+    END IF;
+
+    RETURN NEXT v_part;
+  END LOOP;
+
+  UPDATE test_cases SET
+    rule_id = v_first.id,
+    rule_revision = v_first.revision,
+    stale = true,
+    stale_reason = 'rule_updated'
+  WHERE rule_id = p_rule_id;
+
+  DELETE FROM rules WHERE id = p_rule_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.insert_rule_draft(UUID, JSONB, TEXT, public.rules) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_rule(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_rules(UUID[], JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.split_rule(UUID, JSONB, TEXT) TO authenticated;
@@ -0,0 +1,106 @@
+-- Bulk actions on a selection of rules (RulesTable): one statement per
+-- action instead of one request per rule. Every function checks that the
+-- caller owns all the rules and returns the number of rules affected.
+
+-- Whether the current user owns the documents of all the rules
+CREATE OR REPLACE FUNCTION public.owns_rules(p_rule_ids UUID[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM unnest(p_rule_ids) AS ids(id) WHERE NOT owns_rule(ids.id)
+  );
+$$;
+
+-- p_changes may contain domain, add_tags and remove_tags; other keys are ignored
+CREATE OR REPLACE FUNCTION public.bulk_update_rules(p_rule_ids UUID[], p_changes JSONB, p_reason TEXT DEFAULT NULL)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  IF NOT owns_rules(p_rule_ids) THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.rule_change_action', 'update', true);
+  PERFORM set_config('app.rule_change_reason', coalesce(p_reason, ''), true);
+
+  UPDATE rules SET
+    domain = CASE WHEN p_changes ? 'domain' THEN p_changes->>'domain' ELSE domain END,
+    -- Added tags go last, existing ones keep their order
+    tags = CASE WHEN p_changes ? 'add_tags' OR p_changes ? 'remove_tags' THEN ARRAY(
+      SELECT x.tag FROM unnest(
+        tags || ARRAY(SELECT jsonb_array_elements_text(coalesce(p_changes->'add_tags', '[]'::jsonb)))
+      ) WITH ORDINALITY AS x(tag, position)
+      WHERE x.tag <> ALL(ARRAY(SELECT jsonb_array_elements_text(coalesce(p_changes->'remove_tags', '[]'::jsonb))))
+      GROUP BY x.tag
+      ORDER BY min(x.position)
+    ) ELSE tags END
+  WHERE id = ANY(p_rule_ids);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Same transitions as set_rule_review_status, for a selection
+CREATE OR REPLACE FUNCTION public.bulk_set_review_status(
+  p_rule_ids UUID[],
+  p_status TEXT,
+  p_rejection_reason TEXT DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  IF NOT owns_rules(p_rule_ids) THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_status = 'rejected' AND coalesce(trim(p_rejection_reason), '') = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE rules SET
+    review_status = p_status,
+    rejection_reason = CASE WHEN p_status = 'rejected' THEN trim(p_rejection_reason) ELSE NULL END,
+    reviewed_at = CASE WHEN p_status IN ('approved', 'rejected') THEN now() ELSE NULL END,
+    reviewer_id = CASE WHEN p_status IN ('approved', 'rejected') THEN coalesce(reviewer_id, auth.uid()) ELSE reviewer_id END
+  WHERE id = ANY(p_rule_ids);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Delete rules with their test cases, revisions and links (ON DELETE CASCADE)
+CREATE OR REPLACE FUNCTION public.delete_rules(p_rule_ids UUID[])
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  IF NOT owns_rules(p_rule_ids) THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM rules WHERE id = ANY(p_rule_ids);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bulk_update_rules(UUID[], JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.bulk_set_review_status(UUID[], TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_rules(UUID[]) TO authenticated;
@@ -0,0 +1,79 @@
+-- Full-text search on rules with the French configuration (stemming:
+-- "rembourser" finds "remboursement"). The vector weights the rule text over
+-- its tags, domain and conditions and is kept up to date by a trigger.
+-- search_rules takes a to_tsquery expression built by get-rules
+-- (_shared/search-query.ts), never raw user input.
+
+ALTER TABLE public.rules
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION public.rule_search_vector(p_text TEXT, p_tags TEXT[], p_domain TEXT, p_conditions JSONB)
+RETURNS TSVECTOR
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT setweight(to_tsvector('french', coalesce(p_text, '')), 'A')
+    || setweight(to_tsvector('french', coalesce(array_to_string(p_tags, ' '), '')), 'B')
+    || setweight(to_tsvector('french', coalesce(p_domain, '')), 'C')
+    || setweight(jsonb_to_tsvector('french', coalesce(p_conditions, '[]'::jsonb), '["string"]'), 'D');
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_rule_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector = rule_search_vector(NEW.text, NEW.tags, NEW.domain, NEW.conditions);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_rules_search_vector ON public.rules;
+CREATE TRIGGER set_rules_search_vector
+  BEFORE INSERT OR UPDATE OF text, tags, domain, conditions ON public.rules
+  FOR EACH ROW EXECUTE FUNCTION public.set_rule_search_vector();
+
+UPDATE public.rules
+SET search_vector = public.rule_search_vector(text, tags, domain, conditions);
+
+CREATE INDEX IF NOT EXISTS idx_rules_search_vector ON public.rules USING GIN (search_vector);
+
+-- Ranked matches with a highlighted excerpt of the rule text (<mark>...</mark>)
+-- and the total number of matches. Runs with the caller's rights (RLS).
+CREATE OR REPLACE FUNCTION public.search_rules(
+  p_query TEXT,
+  p_document_id UUID DEFAULT NULL,
+  p_domain TEXT DEFAULT NULL,
+  p_review_status TEXT DEFAULT NULL,
+  p_limit INT DEFAULT 50,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (rule public.rules, rank REAL, snippet TEXT, total_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('french', p_query) AS q
+  ),
+  matches AS (
+    SELECT r AS rule, ts_rank_cd(r.search_vector, query.q) AS rank, count(*) OVER () AS total_count
+    FROM public.rules r, query
+    WHERE r.search_vector @@ query.q
+      AND (p_document_id IS NULL OR r.document_id = p_document_id)
+      AND (p_domain IS NULL OR r.domain = p_domain)
+      AND (p_review_status IS NULL OR r.review_status = p_review_status)
+    ORDER BY rank DESC, r.created_at DESC
+    LIMIT least(p_limit, 100) OFFSET p_offset
+  )
+  -- Excerpts only for the returned page
+  SELECT
+    m.rule,
+    m.rank,
+    ts_headline('french', (m.rule).text, query.q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'),
+    m.total_count
+  FROM matches m, query
+  ORDER BY m.rank DESC, (m.rule).created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_rules(TEXT, UUID, TEXT, TEXT, INT, INT) TO authenticated;
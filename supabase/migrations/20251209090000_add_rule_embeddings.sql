@@ -0,0 +1,102 @@
+-- Semantic search across all the rules of a user (search-rules).
+-- Embeddings (pgvector) are computed by the edge functions (_shared/embeddings.ts)
+-- after extraction and for any rule still missing one; changing the text,
+-- conditions or domain of a rule clears its embedding.
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE public.rules
+ADD COLUMN IF NOT EXISTS embedding extensions.vector(1536),
+ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_rules_embedding ON public.rules
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+CREATE OR REPLACE FUNCTION public.clear_rule_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.text IS DISTINCT FROM OLD.text
+    OR NEW.conditions IS DISTINCT FROM OLD.conditions
+    OR NEW.domain IS DISTINCT FROM OLD.domain THEN
+    NEW.embedding = NULL;
+    NEW.embedding_model = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_rules_embedding ON public.rules;
+CREATE TRIGGER clear_rules_embedding
+  BEFORE UPDATE OF text, conditions, domain ON public.rules
+  FOR EACH ROW EXECUTE FUNCTION public.clear_rule_embedding();
+
+-- Store a batch of embeddings (service role only)
+CREATE OR REPLACE FUNCTION public.set_rule_embeddings(p_rule_ids UUID[], p_embeddings TEXT[], p_model TEXT)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public, extensions
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  UPDATE rules r SET
+    embedding = e.embedding::vector,
+    embedding_model = p_model
+  FROM unnest(p_rule_ids, p_embeddings) AS e(id, embedding)
+  WHERE r.id = e.id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_rule_embeddings(UUID[], TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_rule_embeddings(UUID[], TEXT[], TEXT) TO service_role;
+
+-- Rules of the caller closest to the query embedding (cosine similarity)
+CREATE OR REPLACE FUNCTION public.match_rules(
+  p_query_embedding TEXT,
+  p_match_count INT DEFAULT 20,
+  p_min_similarity FLOAT DEFAULT 0.3,
+  p_document_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  text TEXT,
+  domain TEXT,
+  source_page INT,
+  source_sect TEXT,
+  review_status TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT * FROM (
+    SELECT
+      r.id,
+      r.document_id,
+      d.name,
+      r.text,
+      r.domain,
+      r.source_page,
+      r.source_sect,
+      r.review_status,
+      1 - (r.embedding <=> p_query_embedding::vector) AS similarity
+    FROM rules r
+    JOIN documents d ON d.id = r.document_id
+    WHERE d.user_id = auth.uid()
+      AND r.embedding IS NOT NULL
+      AND (p_document_id IS NULL OR r.document_id = p_document_id)
+    ORDER BY r.embedding <=> p_query_embedding::vector
+    LIMIT least(p_match_count, 100)
+  ) matches
+  WHERE matches.similarity >= p_min_similarity;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_rules(TEXT, INT, FLOAT, UUID) TO authenticated;
@@ -0,0 +1,11 @@
+-- Near-duplicate rules merged by the extraction dedup (upload-documents/extraction/dedup.ts):
+-- the most confident variant is kept, the others are recorded as its aliases.
+
+ALTER TABLE public.rules
+ADD COLUMN IF NOT EXISTS aliases JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE public.extraction_run_rules
+ADD COLUMN IF NOT EXISTS aliases JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN public.rules.aliases IS
+'Variants of the rule merged during extraction: [{ text, confidence, page }].';
@@ -0,0 +1,84 @@
+-- Contradictions and overlaps between rules (detect-conflicts).
+-- An analysis compares the rules of a document with each other and with the
+-- rules of the other documents of the user; candidate pairs are confirmed and
+-- explained by the LLM. Writes go through the service role, users change the
+-- status of a conflict with set_rule_conflict_status.
+
+CREATE TABLE IF NOT EXISTS public.conflict_analyses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  include_other_documents BOOLEAN NOT NULL DEFAULT true,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'done', 'error')),
+  pairs_checked INT,
+  conflicts_found INT,
+  cost_usd NUMERIC,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_analyses_document ON public.conflict_analyses(document_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.rule_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Pair stored once, smallest id first
+  rule_a_id UUID NOT NULL REFERENCES public.rules(id) ON DELETE CASCADE,
+  rule_b_id UUID NOT NULL REFERENCES public.rules(id) ON DELETE CASCADE,
+  document_a_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  document_b_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('contradiction', 'overlap')),
+  explanation TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  analysis_id UUID REFERENCES public.conflict_analyses(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (rule_a_id < rule_b_id),
+  UNIQUE (rule_a_id, rule_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_conflicts_document_a ON public.rule_conflicts(document_a_id);
+CREATE INDEX IF NOT EXISTS idx_rule_conflicts_document_b ON public.rule_conflicts(document_b_id);
+CREATE INDEX IF NOT EXISTS idx_rule_conflicts_rule_b ON public.rule_conflicts(rule_b_id);
+
+ALTER TABLE public.conflict_analyses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rule_conflicts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their conflict analyses"
+ON public.conflict_analyses
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view their rule conflicts"
+ON public.rule_conflicts
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Mark a conflict as resolved or dismissed (or open it again)
+CREATE OR REPLACE FUNCTION public.set_rule_conflict_status(p_conflict_id UUID, p_status TEXT)
+RETURNS SETOF public.rule_conflicts
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF p_status NOT IN ('open', 'resolved', 'dismissed') THEN
+    RAISE EXCEPTION 'Invalid conflict status: %', p_status USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM rule_conflicts WHERE id = p_conflict_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Conflict not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  UPDATE rule_conflicts SET
+    status = p_status,
+    updated_at = now()
+  WHERE id = p_conflict_id
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_rule_conflict_status(UUID, TEXT) TO authenticated;
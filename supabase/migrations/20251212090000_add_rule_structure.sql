@@ -0,0 +1,68 @@
+-- Structured representation of a rule, extracted along with its text
+-- (upload-documents/extraction/structure.ts):
+-- { subject, modality, action, conditions: [{ field, operator, value, unit }],
+--   exceptions, deadline: { value, unit, reference } }.
+-- NULL when the rule could not be decomposed. Editing the text of a rule
+-- clears it, the free text stays the reference.
+
+-- Same schema as RuleStructure, checked on write
+CREATE OR REPLACE FUNCTION public.is_valid_rule_structure(p_structure JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_structure IS NULL OR (
+    jsonb_typeof(p_structure) = 'object'
+    AND p_structure->>'modality' IN ('must', 'must_not', 'may')
+    AND jsonb_typeof(p_structure->'action') = 'string'
+    AND coalesce(jsonb_typeof(p_structure->'subject'), 'null') IN ('string', 'null')
+    AND jsonb_typeof(p_structure->'conditions') = 'array'
+    AND jsonb_typeof(p_structure->'exceptions') = 'array'
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_structure->'conditions') AS c
+      WHERE jsonb_typeof(c) <> 'object'
+        OR jsonb_typeof(c->'field') IS DISTINCT FROM 'string'
+        OR c->>'operator' IS NULL
+        OR c->>'operator' NOT IN ('eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'not_in', 'contains', 'exists')
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_structure->'exceptions') AS e
+      WHERE jsonb_typeof(e) <> 'string'
+    )
+    AND (
+      coalesce(jsonb_typeof(p_structure->'deadline'), 'null') = 'null'
+      OR (
+        jsonb_typeof(p_structure->'deadline'->'value') = 'number'
+        AND coalesce(p_structure->'deadline'->>'unit', '') IN ('hour', 'day', 'business_day', 'week', 'month', 'year')
+      )
+    )
+  );
+$$;
+
+ALTER TABLE public.rules
+ADD COLUMN IF NOT EXISTS structure JSONB
+  CONSTRAINT rules_structure_valid CHECK (public.is_valid_rule_structure(structure));
+
+ALTER TABLE public.extraction_run_rules
+ADD COLUMN IF NOT EXISTS structure JSONB
+  CONSTRAINT extraction_run_rules_structure_valid CHECK (public.is_valid_rule_structure(structure));
+
+COMMENT ON COLUMN public.rules.structure IS
+'Structured form of the rule: { subject, modality (must | must_not | may), action, conditions: [{ field, operator, value, unit }], exceptions, deadline: { value, unit, reference } }. NULL when not decomposed.';
+
+CREATE OR REPLACE FUNCTION public.clear_rule_structure()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.text IS DISTINCT FROM OLD.text AND NEW.structure IS NOT DISTINCT FROM OLD.structure THEN
+    NEW.structure = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_rules_structure ON public.rules;
+CREATE TRIGGER clear_rules_structure
+  BEFORE UPDATE OF text ON public.rules
+  FOR EACH ROW EXECUTE FUNCTION public.clear_rule_structure();
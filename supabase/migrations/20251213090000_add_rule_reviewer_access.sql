@@ -0,0 +1,76 @@
+-- Assigned reviewers (rules.reviewer_id) can read the rules they review and
+-- move them through the review workflow; editing and reassigning stay with
+-- the owner of the document.
+-- assign_rule_reviewer no longer tells whether an email is registered.
+
+CREATE POLICY "Reviewers can view the rules assigned to them"
+ON public.rules
+FOR SELECT
+TO authenticated
+USING (reviewer_id = auth.uid());
+
+-- Owner of the document, or reviewer assigned to the rule
+CREATE OR REPLACE FUNCTION public.can_review_rule(p_rule_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT owns_rule(p_rule_id)
+    OR EXISTS (SELECT 1 FROM rules WHERE id = p_rule_id AND reviewer_id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_rule_review_status(
+  p_rule_id UUID,
+  p_status TEXT,
+  p_rejection_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_review_rule(p_rule_id) THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_status = 'rejected' AND coalesce(trim(p_rejection_reason), '') = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  UPDATE rules SET
+    review_status = p_status,
+    rejection_reason = CASE WHEN p_status = 'rejected' THEN trim(p_rejection_reason) ELSE NULL END,
+    reviewed_at = CASE WHEN p_status IN ('approved', 'rejected') THEN now() ELSE NULL END,
+    reviewer_id = CASE WHEN p_status IN ('approved', 'rejected') THEN coalesce(reviewer_id, auth.uid()) ELSE reviewer_id END
+  WHERE id = p_rule_id
+  RETURNING *;
+END;
+$$;
+
+-- Same error for an unknown email and a rule of someone else
+CREATE OR REPLACE FUNCTION public.assign_rule_reviewer(p_rule_id UUID, p_reviewer_email TEXT)
+RETURNS SETOF public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_reviewer_id UUID;
+BEGIN
+  IF p_reviewer_email IS NOT NULL THEN
+    SELECT id INTO v_reviewer_id FROM profiles WHERE lower(email) = lower(trim(p_reviewer_email));
+  END IF;
+
+  IF NOT owns_rule(p_rule_id) OR (p_reviewer_email IS NOT NULL AND v_reviewer_id IS NULL) THEN
+    RAISE EXCEPTION 'Could not assign the reviewer' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  UPDATE rules SET reviewer_id = v_reviewer_id
+  WHERE id = p_rule_id
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_review_rule(UUID) TO authenticated;
@@ -0,0 +1,51 @@
+-- match_rules: the HNSW index returned the nearest rules of all users and the
+-- caller's were filtered afterwards, so a search could return far fewer
+-- matches than requested, or none. The caller's rules are now selected first
+-- (materialized CTE) and ordered by exact distance.
+
+CREATE OR REPLACE FUNCTION public.match_rules(
+  p_query_embedding TEXT,
+  p_match_count INT DEFAULT 20,
+  p_min_similarity FLOAT DEFAULT 0.3,
+  p_document_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  text TEXT,
+  domain TEXT,
+  source_page INT,
+  source_sect TEXT,
+  review_status TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH own_rules AS MATERIALIZED (
+    SELECT r.id, r.document_id, d.name, r.text, r.domain, r.source_page, r.source_sect, r.review_status, r.embedding
+    FROM rules r
+    JOIN documents d ON d.id = r.document_id
+    WHERE d.user_id = auth.uid()
+      AND r.embedding IS NOT NULL
+      AND (p_document_id IS NULL OR r.document_id = p_document_id)
+  )
+  SELECT * FROM (
+    SELECT
+      o.id,
+      o.document_id,
+      o.name,
+      o.text,
+      o.domain,
+      o.source_page,
+      o.source_sect,
+      o.review_status,
+      1 - (o.embedding <=> p_query_embedding::vector) AS similarity
+    FROM own_rules o
+    ORDER BY o.embedding <=> p_query_embedding::vector
+    LIMIT least(p_match_count, 100)
+  ) matches
+  WHERE matches.similarity >= p_min_similarity;
+$$;
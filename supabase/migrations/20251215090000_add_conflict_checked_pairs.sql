@@ -0,0 +1,31 @@
+-- Pairs of rules already checked by detect-conflicts, conflicting or not.
+-- They are skipped by the next analyses as long as neither rule changed
+-- (same revisions), so each analysis reaches new candidates instead of
+-- paying again for the same ones.
+
+CREATE TABLE IF NOT EXISTS public.conflict_checked_pairs (
+  -- Pair stored once, smallest id first (as in rule_conflicts)
+  rule_a_id UUID NOT NULL REFERENCES public.rules(id) ON DELETE CASCADE,
+  rule_b_id UUID NOT NULL REFERENCES public.rules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_a_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  document_b_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  rule_a_revision INT NOT NULL,
+  rule_b_revision INT NOT NULL,
+  analysis_id UUID REFERENCES public.conflict_analyses(id) ON DELETE SET NULL,
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (rule_a_id, rule_b_id),
+  CHECK (rule_a_id < rule_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_checked_pairs_document_a ON public.conflict_checked_pairs(document_a_id);
+CREATE INDEX IF NOT EXISTS idx_conflict_checked_pairs_document_b ON public.conflict_checked_pairs(document_b_id);
+CREATE INDEX IF NOT EXISTS idx_conflict_checked_pairs_rule_b ON public.conflict_checked_pairs(rule_b_id);
+
+ALTER TABLE public.conflict_checked_pairs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their checked rule pairs"
+ON public.conflict_checked_pairs
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
@@ -0,0 +1,21 @@
+-- rules.structure was only cleared when the text changed, so editing the
+-- conditions left a structure describing the old conditions. It is now
+-- cleared when either changes (unless the update sets the structure too).
+
+CREATE OR REPLACE FUNCTION public.clear_rule_structure()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.text IS DISTINCT FROM OLD.text OR NEW.conditions IS DISTINCT FROM OLD.conditions)
+    AND NEW.structure IS NOT DISTINCT FROM OLD.structure THEN
+    NEW.structure = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_rules_structure ON public.rules;
+CREATE TRIGGER clear_rules_structure
+  BEFORE UPDATE OF text, conditions ON public.rules
+  FOR EACH ROW EXECUTE FUNCTION public.clear_rule_structure();
@@ -0,0 +1,54 @@
+-- merge_rules counted duplicate ids, so ARRAY[a, a] passed the "at least two
+-- rules" check and merged a rule with itself. The ids are now deduplicated
+-- before the checks and the merge.
+
+CREATE OR REPLACE FUNCTION public.merge_rules(p_rule_ids UUID[], p_rule JSONB, p_reason TEXT DEFAULT NULL)
+RETURNS SETOF public.rules
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_first rules%ROWTYPE;
+  v_merged rules%ROWTYPE;
+BEGIN
+  -- The same rule listed twice is merged once
+  p_rule_ids := ARRAY(SELECT DISTINCT id FROM unnest(p_rule_ids) AS ids(id));
+
+  IF coalesce(array_length(p_rule_ids, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'At least two rules are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(p_rule_ids) AS ids(id) WHERE NOT owns_rule(ids.id)) THEN
+    RAISE EXCEPTION 'Rule not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF (SELECT count(DISTINCT document_id) FROM rules WHERE id = ANY(p_rule_ids)) > 1 THEN
+    RAISE EXCEPTION 'Rules must belong to the same document' USING ERRCODE = '22023';
+  END IF;
+
+  -- The most reliable original provides the defaults (page, quote, confidence)
+  SELECT * INTO v_first FROM rules WHERE id = ANY(p_rule_ids)
+  ORDER BY confidence DESC NULLS LAST, created_at
+  LIMIT 1;
+
+  PERFORM set_config('app.rule_change_action', 'merge', true);
+  PERFORM set_config('app.rule_change_reason', coalesce(p_reason, ''), true);
+
+  v_merged := insert_rule_draft(v_first.document_id, p_rule, 'merged', v_first);
+
+  INSERT INTO rule_links (rule_id, source_rule_id, kind, source, created_by)
+  SELECT v_merged.id, r.id, 'merge', rule_link_source(r), auth.uid()
+  FROM rules r WHERE r.id = ANY(p_rule_ids);
+
+  UPDATE test_cases SET
+    rule_id = v_merged.id,
+    rule_revision = v_merged.revision,
+    stale = true,
+    stale_reason = 'rule_updated'
+  WHERE rule_id = ANY(p_rule_ids);
+
+  DELETE FROM rules WHERE id = ANY(p_rule_ids);
+
+  RETURN NEXT v_merged;
+END;
+$$;